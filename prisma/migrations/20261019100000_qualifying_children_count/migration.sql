@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaxYearProfile" ADD COLUMN     "qualifyingChildrenCount" INTEGER;
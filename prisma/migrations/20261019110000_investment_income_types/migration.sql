@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "CapitalGainTerm" AS ENUM ('SHORT_TERM', 'LONG_TERM');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "IncomeType" ADD VALUE 'FORM_1099_INT';
+ALTER TYPE "IncomeType" ADD VALUE 'FORM_1099_DIV';
+ALTER TYPE "IncomeType" ADD VALUE 'FORM_1099_B';
+
+-- AlterTable
+ALTER TABLE "IncomeSource" ADD COLUMN     "capitalGainTerm" "CapitalGainTerm",
+ADD COLUMN     "qualifiedDividends" DECIMAL(12,2);
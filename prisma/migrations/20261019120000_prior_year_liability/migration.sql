@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaxYearProfile" ADD COLUMN     "priorYearAdjustedGrossIncome" DECIMAL(12,2),
+ADD COLUMN     "priorYearTotalTax" DECIMAL(12,2);
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TaxScenario" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "taxYear" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "deltasJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxScenario_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxScenario_userId_taxYear_name_key" ON "TaxScenario"("userId", "taxYear", "name");
+
+-- AddForeignKey
+ALTER TABLE "TaxScenario" ADD CONSTRAINT "TaxScenario_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "SpouseOwner" AS ENUM ('TAXPAYER', 'SPOUSE', 'JOINT');
+
+-- AlterTable
+ALTER TABLE "DeductionItem" ADD COLUMN     "owner" "SpouseOwner" NOT NULL DEFAULT 'TAXPAYER';
+
+-- AlterTable
+ALTER TABLE "IncomeSource" ADD COLUMN     "owner" "SpouseOwner" NOT NULL DEFAULT 'TAXPAYER';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "owner" "SpouseOwner" NOT NULL DEFAULT 'TAXPAYER';
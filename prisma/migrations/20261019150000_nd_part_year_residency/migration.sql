@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "IncomeSource" ADD COLUMN     "ndSourceAmount" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "TaxYearProfile" ADD COLUMN     "ndResidencyEndDate" TIMESTAMP(3),
+ADD COLUMN     "ndResidencyStartDate" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IncomeSource" ADD COLUMN     "workState" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "isTaxableSale" BOOLEAN,
+ADD COLUMN     "salesTaxZip" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CategoryMappingRule" ADD COLUMN     "useTaxLiable" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "isUseTaxLiable" BOOLEAN;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RulesetImpactReport" (
+    "id" TEXT NOT NULL,
+    "taxYear" INTEGER NOT NULL,
+    "federalVersion" TEXT,
+    "stateVersion" TEXT,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "reportJson" JSONB,
+    "errorMessage" TEXT,
+    "requestedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RulesetImpactReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RulesetImpactReport_taxYear_createdAt_idx" ON "RulesetImpactReport"("taxYear", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EstimatedPayment" ADD COLUMN     "owner" "SpouseOwner" NOT NULL DEFAULT 'JOINT';
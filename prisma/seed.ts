@@ -82,6 +82,12 @@ async function main() {
         keywordPattern: "fee|service charge|overdraft",
         confidenceBase: "78",
         reason: "Description indicates bank fee."
+      },
+      {
+        code: "GROSS_RECEIPTS",
+        keywordPattern: "invoice|client payment|payout",
+        confidenceBase: "75",
+        reason: "Description suggests revenue intake."
       }
     ],
     skipDuplicates: true
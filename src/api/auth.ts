@@ -1,3 +1,5 @@
+import { env } from "../config/env.js";
+
 export async function requireAuth(request: any, reply: any) {
   try {
     await request.jwtVerify();
@@ -6,6 +8,20 @@ export async function requireAuth(request: any, reply: any) {
   }
 }
 
+// Operators are the users listed in ADMIN_USER_IDS; there is no role column.
+export async function requireAdmin(request: any, reply: any) {
+  try {
+    await request.jwtVerify();
+  } catch {
+    return reply.unauthorized("Authentication required.");
+  }
+
+  const user = request.user as { sub?: string };
+  if (!user?.sub || !env.ADMIN_USER_IDS.includes(user.sub)) {
+    return reply.forbidden("Operator access required.");
+  }
+}
+
 export function getUserId(request: any): string {
   const user = request.user as { sub?: string };
   if (!user?.sub) {
@@ -126,6 +126,28 @@ export function buildOpenApiDocument() {
           }
         }
       },
+      "/deductions": {
+        post: {
+          summary: "Create deduction item",
+          parameters: [
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": { description: "Deduction item created" }
+          }
+        },
+        get: {
+          summary: "List deduction items",
+          responses: {
+            "200": { description: "Deduction items list" }
+          }
+        }
+      },
       "/transactions": {
         post: {
           summary: "Create transaction",
@@ -203,6 +225,149 @@ export function buildOpenApiDocument() {
           }
         }
       },
+      "/tax/scenarios": {
+        post: {
+          summary: "Run a what-if scenario against stored inputs without persisting a run",
+          responses: {
+            "200": { description: "Baseline and scenario results with field-by-field delta" }
+          }
+        }
+      },
+      "/tax/scenarios/saved": {
+        post: {
+          summary: "Save a named scenario",
+          parameters: [
+            {
+              name: "Idempotency-Key",
+              in: "header",
+              required: true,
+              schema: { type: "string" }
+            }
+          ],
+          responses: {
+            "200": { description: "Scenario saved" }
+          }
+        },
+        get: {
+          summary: "List saved scenarios",
+          parameters: [
+            {
+              name: "year",
+              in: "query",
+              required: true,
+              schema: { type: "integer" }
+            }
+          ],
+          responses: {
+            "200": { description: "Saved scenarios list" }
+          }
+        }
+      },
+      "/tax/scenarios/saved/{id}/run": {
+        post: {
+          summary: "Re-run a saved scenario against the current stored inputs",
+          responses: {
+            "200": { description: "Baseline and scenario results with field-by-field delta" },
+            "404": { description: "Scenario not found" }
+          }
+        }
+      },
+      "/tax/filing-status-comparison": {
+        get: {
+          summary: "Compare married filing jointly with married filing separately",
+          parameters: [
+            {
+              name: "year",
+              in: "query",
+              required: true,
+              schema: { type: "integer" }
+            }
+          ],
+          responses: {
+            "200": { description: "Joint and separate returns with combined totals and restrictions" },
+            "400": { description: "Tax profile is not a married filing status" }
+          }
+        }
+      },
+      "/tax/runs/{a}/diff/{b}": {
+        get: {
+          summary: "Compare two computation runs and attribute the tax change to input changes",
+          responses: {
+            "200": { description: "Input, totals, ruleset, risk flag and assumption changes with tax attribution" },
+            "404": { description: "Computation run not found" }
+          }
+        }
+      },
+      "/tax/runs/{id}/replay": {
+        post: {
+          summary: "Re-run a stored computation with other registered ruleset versions without saving a run",
+          responses: {
+            "200": { description: "Replayed breakdown with field-by-field delta against the stored run" },
+            "400": { description: "Ruleset version not registered, or the run has no full input snapshot" },
+            "404": { description: "Computation run not found" }
+          }
+        }
+      },
+      "/admin/ruleset-impact-reports": {
+        post: {
+          summary: "Queue a replay of every user's latest run for a tax year against other ruleset versions",
+          responses: {
+            "202": { description: "Report id and status; the report is built by the ruleset_impact_replay worker" },
+            "400": { description: "Ruleset version not registered" },
+            "403": { description: "Caller is not listed in ADMIN_USER_IDS" }
+          }
+        }
+      },
+      "/admin/ruleset-impact-reports/{id}": {
+        get: {
+          summary: "Fetch a queued ruleset impact report",
+          responses: {
+            "200": { description: "Report status, and once completed the distribution and biggest tax changes" },
+            "403": { description: "Caller is not listed in ADMIN_USER_IDS" },
+            "404": { description: "Ruleset impact report not found" }
+          }
+        }
+      },
+      "/sales-tax/periods": {
+        get: {
+          summary: "Report ND sales tax due by filing period and jurisdiction",
+          parameters: [
+            {
+              name: "year",
+              in: "query",
+              required: true,
+              schema: { type: "integer" }
+            }
+          ],
+          responses: {
+            "200": { description: "Sales tax periods with due dates, taxable sales, and state and local tax by jurisdiction" },
+            "400": { description: "Tax profile has no ND sales tax nexus" }
+          }
+        }
+      },
+      "/sales-tax/rate": {
+        get: {
+          summary: "Look up the local sales tax rate in effect for a ZIP code",
+          parameters: [
+            {
+              name: "zip",
+              in: "query",
+              required: true,
+              schema: { type: "string" }
+            },
+            {
+              name: "date",
+              in: "query",
+              required: false,
+              schema: { type: "string", format: "date" }
+            }
+          ],
+          responses: {
+            "200": { description: "State, local, and total rate with the jurisdiction and rate table version" },
+            "404": { description: "No rate for the ZIP code on that date" }
+          }
+        }
+      },
       "/exports/tax-pack": {
         post: {
           summary: "Generate downloadable tax pack PDF",
@@ -13,6 +13,26 @@ export const transactionListQuerySchema = z.object({
   pageSize: z.coerce.number().int().min(1).max(100).default(25)
 });
 
+export const salesTaxRateQuerySchema = z.object({
+  zip: z.string().regex(/^\d{5}$/),
+  date: z.iso.date().optional()
+});
+
+export const taxExplainQuerySchema = z.object({
+  runId: z.string().min(1),
+  nodeId: z.string().min(1).optional(),
+  format: z.enum(["json", "mermaid", "dot", "html"]).default("json")
+});
+
+export const rulesetReplaySchema = z.object({
+  federalVersion: z.string().min(1).optional(),
+  stateVersion: z.string().min(1).optional()
+});
+
+export const rulesetImpactReportSchema = rulesetReplaySchema.extend({
+  taxYear: z.number().int().min(2024).max(2100)
+});
+
 export const registerSchema = z.object({
   email: z.email(),
   password: z.string().min(8),
@@ -30,23 +50,38 @@ export const refreshSchema = z.object({
   refreshToken: z.string().min(20)
 });
 
+const filingStatusSchema = z.enum([
+  "SINGLE",
+  "MARRIED_FILING_JOINTLY",
+  "MARRIED_FILING_SEPARATELY",
+  "HEAD_OF_HOUSEHOLD",
+  "QUALIFYING_SURVIVING_SPOUSE"
+]);
+
+const spouseOwnerSchema = z.enum(["TAXPAYER", "SPOUSE", "JOINT"]);
+
+const incomeTypeSchema = z.enum([
+  "W2",
+  "FORM_1099_MISC",
+  "FORM_1099_NEC",
+  "FORM_1099_INT",
+  "FORM_1099_DIV",
+  "FORM_1099_B",
+  "BUSINESS_GROSS",
+  "OTHER_TAXABLE"
+]);
+
 export const taxProfileSchema = z.object({
-  filingStatus: z
-    .enum([
-      "SINGLE",
-      "MARRIED_FILING_JOINTLY",
-      "MARRIED_FILING_SEPARATELY",
-      "HEAD_OF_HOUSEHOLD",
-      "QUALIFYING_SURVIVING_SPOUSE"
-    ])
-    .nullable()
-    .optional(),
+  filingStatus: filingStatusSchema.nullable().optional(),
   dependentsCount: z.number().int().min(0).default(0),
+  qualifyingChildrenCount: z.number().int().min(0).nullable().optional(),
   residentState: z.string().length(2).default("ND"),
   residentCity: z.string().max(120).nullable().optional(),
   residentZip: z.string().max(20).nullable().optional(),
   county: z.string().max(120).nullable().optional(),
   isFullYearResident: z.boolean().default(true),
+  ndResidencyStartDate: z.iso.datetime().nullable().optional(),
+  ndResidencyEndDate: z.iso.datetime().nullable().optional(),
   hasNdSalesTaxNexus: z.boolean().optional(),
   salesTaxFilingFrequency: z.enum(["MONTHLY", "QUARTERLY", "ANNUAL"]).nullable().optional(),
   standardDeductionForced: z.boolean().nullable().optional(),
@@ -55,20 +90,27 @@ export const taxProfileSchema = z.object({
   hasK1: z.boolean().optional(),
   hasAdvancedInvestments: z.boolean().optional(),
   hasAdvancedDepreciation: z.boolean().optional(),
+  priorYearAdjustedGrossIncome: z.number().min(0).nullable().optional(),
+  priorYearTotalTax: z.number().min(0).nullable().optional(),
   notes: z.string().max(2000).optional()
 });
 
 export const incomeSchema = z.object({
   taxYear: z.number().int().min(2024).max(2100),
-  type: z.enum(["W2", "FORM_1099_MISC", "FORM_1099_NEC", "BUSINESS_GROSS", "OTHER_TAXABLE"]),
+  type: incomeTypeSchema,
   label: z.string().min(1).max(255),
   payerName: z.string().max(255).optional(),
   amount: z.number(),
+  qualifiedDividends: z.number().min(0).optional(),
+  capitalGainTerm: z.enum(["SHORT_TERM", "LONG_TERM"]).nullable().optional(),
   taxWithheldFederal: z.number().optional(),
   taxWithheldState: z.number().optional(),
   taxWithheldLocal: z.number().optional(),
   taxWithheldMedicare: z.number().optional(),
   taxWithheldSocialSecurity: z.number().optional(),
+  ndSourceAmount: z.number().nullable().optional(),
+  workState: z.string().length(2).nullable().optional(),
+  owner: spouseOwnerSchema.optional(),
   isConfirmed: z.boolean().default(false),
   sourceDocumentId: z.string().uuid().optional(),
   metadataJson: z.record(z.string(), z.unknown()).optional()
@@ -86,6 +128,21 @@ export const transactionSchema = z.object({
   categoryReason: z.string().max(255).nullable().optional(),
   categorySource: z.enum(["RULE", "HEURISTIC", "ML", "USER", "MANUAL"]).optional(),
   documentId: z.string().uuid().nullable().optional(),
+  owner: spouseOwnerSchema.optional(),
+  isTaxableSale: z.boolean().nullable().optional(),
+  salesTaxZip: z.string().max(10).nullable().optional(),
+  isUseTaxLiable: z.boolean().nullable().optional(),
+  metadataJson: z.record(z.string(), z.unknown()).optional()
+});
+
+export const deductionSchema = z.object({
+  taxYear: z.number().int().min(2024).max(2100),
+  code: z.string().min(1).max(100),
+  label: z.string().min(1).max(255),
+  amount: z.number().min(0),
+  isConfirmed: z.boolean().default(false),
+  owner: spouseOwnerSchema.optional(),
+  sourceTransactionId: z.string().uuid().nullable().optional(),
   metadataJson: z.record(z.string(), z.unknown()).optional()
 });
 
@@ -116,3 +173,47 @@ export const confirmCategorySchema = z.object({
   categoryCode: z.string().min(1).max(100),
   createOverride: z.boolean().default(false)
 });
+
+export const scenarioDeltaSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("ADD_INCOME"),
+    incomeType: incomeTypeSchema,
+    amount: z.number(),
+    label: z.string().min(1).max(255).optional(),
+    qualifiedDividends: z.number().min(0).optional(),
+    capitalGainTerm: z.enum(["SHORT_TERM", "LONG_TERM"]).optional(),
+    taxWithheldFederal: z.number().min(0).optional(),
+    taxWithheldState: z.number().min(0).optional()
+  }),
+  z.object({
+    type: z.literal("ADD_EXPENSE"),
+    amount: z.number().min(0),
+    code: z.string().min(1).max(100).optional(),
+    label: z.string().min(1).max(255).optional()
+  }),
+  z.object({
+    type: z.literal("ADD_ADJUSTMENT"),
+    adjustmentType: z.enum(["SEP_IRA", "TRADITIONAL_IRA", "HSA"]),
+    amount: z.number().min(0),
+    label: z.string().min(1).max(255).optional()
+  }),
+  z.object({
+    type: z.literal("CHANGE_FILING_STATUS"),
+    filingStatus: filingStatusSchema
+  }),
+  z.object({
+    type: z.literal("ADD_ESTIMATED_PAYMENT"),
+    amount: z.number().min(0),
+    paidAt: z.iso.datetime(),
+    quarter: z.number().int().min(1).max(4).nullable().optional()
+  })
+]);
+
+export const taxScenarioRunSchema = z.object({
+  taxYear: z.number().int().min(2024).max(2100),
+  deltas: z.array(scenarioDeltaSchema).min(1).max(50)
+});
+
+export const taxScenarioSaveSchema = taxScenarioRunSchema.extend({
+  name: z.string().min(1).max(120)
+});
@@ -7,19 +7,26 @@ import { Prisma } from "@prisma/client";
 import Fastify from "fastify";
 import { ZodError } from "zod";
 
-import { getUserId, requireAuth } from "./api/auth.js";
+import { getUserId, requireAdmin, requireAuth } from "./api/auth.js";
 import { clearIdempotentProcessing, persistIdempotentResponse, requireIdempotencyKey } from "./api/idempotency.js";
 import { buildOpenApiDocument } from "./api/openapi.js";
 import {
   bankCsvImportSchema,
   confirmCategorySchema,
   confirmUploadSchema,
+  deductionSchema,
   incomeSchema,
   linkDocumentSchema,
   loginSchema,
   refreshSchema,
   registerSchema,
+  rulesetImpactReportSchema,
+  rulesetReplaySchema,
+  salesTaxRateQuerySchema,
+  taxExplainQuerySchema,
   taxProfileSchema,
+  taxScenarioRunSchema,
+  taxScenarioSaveSchema,
   transactionListQuerySchema,
   transactionSchema,
   uploadUrlSchema,
@@ -32,16 +39,31 @@ import { enableMfa, loginUser, refreshSession, registerUser, verifyMfa } from ".
 import { confirmUpload, createUploadUrl, getDocument, listDocuments } from "./services/document-service.js";
 import { createTaxPackExport, getExportDownload } from "./services/export-service.js";
 import { importBankCsv } from "./services/import-service.js";
+import {
+  getRulesetImpactReport,
+  queueRulesetImpactReport,
+  replayComputationRun
+} from "./services/replay-service.js";
+import { getSalesTaxPeriodReport, lookupSalesTaxRate } from "./services/sales-tax-service.js";
+import {
+  compareFilingStatuses,
+  listTaxScenarios,
+  runSavedTaxScenario,
+  runTaxScenario,
+  saveTaxScenario
+} from "./services/scenario-service.js";
 import {
   computeTaxYear,
   getAssumptions,
   getCompleteness,
+  getComputationRunDiff,
   getConfidence,
   getRiskFlags,
   getTaxExplain,
   getTaxSummary,
   listLowConfidenceTransactions,
-  listUncategorizedTransactions
+  listUncategorizedTransactions,
+  renderTaxExplain
 } from "./services/tax-service.js";
 
 function decimal(value: number | undefined) {
@@ -82,6 +104,21 @@ async function requireOwnedIncome(app: any, userId: string, incomeId: string) {
   return income;
 }
 
+async function requireOwnedDeduction(app: any, userId: string, deductionId: string) {
+  const deduction = await prisma.deductionItem.findFirst({
+    where: {
+      id: deductionId,
+      userId
+    }
+  });
+
+  if (!deduction) {
+    throw app.httpErrors.notFound("Deduction item not found.");
+  }
+
+  return deduction;
+}
+
 async function requireOwnedTransaction(app: any, userId: string, transactionId: string) {
   const transaction = await prisma.transaction.findFirst({
     where: {
@@ -255,11 +292,16 @@ export async function buildApp() {
         label: body.label,
         payerName: body.payerName ?? null,
         amount: new Prisma.Decimal(body.amount),
+        qualifiedDividends: decimal(body.qualifiedDividends),
+        capitalGainTerm: body.capitalGainTerm ?? null,
         taxWithheldFederal: decimal(body.taxWithheldFederal),
         taxWithheldState: decimal(body.taxWithheldState),
         taxWithheldLocal: decimal(body.taxWithheldLocal),
         taxWithheldMedicare: decimal(body.taxWithheldMedicare),
         taxWithheldSocialSecurity: decimal(body.taxWithheldSocialSecurity),
+        ndSourceAmount: decimal(body.ndSourceAmount ?? undefined),
+        workState: body.workState ?? null,
+        owner: body.owner ?? "TAXPAYER",
         isConfirmed: body.isConfirmed,
         sourceDocumentId: body.sourceDocumentId ?? null,
         metadataJson: asJson(body.metadataJson)
@@ -309,6 +351,8 @@ export async function buildApp() {
         ...(body.label ? { label: body.label } : {}),
         ...(body.payerName !== undefined ? { payerName: body.payerName ?? null } : {}),
         ...(body.amount !== undefined ? { amount: new Prisma.Decimal(body.amount) } : {}),
+        ...(body.qualifiedDividends !== undefined ? { qualifiedDividends: decimal(body.qualifiedDividends) } : {}),
+        ...(body.capitalGainTerm !== undefined ? { capitalGainTerm: body.capitalGainTerm ?? null } : {}),
         ...(body.taxWithheldFederal !== undefined ? { taxWithheldFederal: decimal(body.taxWithheldFederal) } : {}),
         ...(body.taxWithheldState !== undefined ? { taxWithheldState: decimal(body.taxWithheldState) } : {}),
         ...(body.taxWithheldLocal !== undefined ? { taxWithheldLocal: decimal(body.taxWithheldLocal) } : {}),
@@ -316,6 +360,11 @@ export async function buildApp() {
         ...(body.taxWithheldSocialSecurity !== undefined
           ? { taxWithheldSocialSecurity: decimal(body.taxWithheldSocialSecurity) }
           : {}),
+        ...(body.ndSourceAmount !== undefined
+          ? { ndSourceAmount: body.ndSourceAmount === null ? null : decimal(body.ndSourceAmount) }
+          : {}),
+        ...(body.workState !== undefined ? { workState: body.workState ?? null } : {}),
+        ...(body.owner ? { owner: body.owner } : {}),
         ...(body.isConfirmed !== undefined ? { isConfirmed: body.isConfirmed } : {}),
         ...(body.sourceDocumentId !== undefined ? { sourceDocumentId: body.sourceDocumentId ?? null } : {}),
         ...(body.metadataJson !== undefined ? { metadataJson: asJson(body.metadataJson) } : {})
@@ -323,6 +372,79 @@ export async function buildApp() {
     });
   });
 
+  app.post(`${apiPrefix}/deductions`, { preHandler: [requireAuth, requireIdempotencyKey] }, async (request) => {
+    const body = deductionSchema.parse(request.body);
+    const userId = getUserId(request);
+
+    if (body.sourceTransactionId) {
+      await requireOwnedTransaction(app, userId, body.sourceTransactionId);
+    }
+
+    const deduction = await prisma.deductionItem.create({
+      data: {
+        userId,
+        taxYear: body.taxYear,
+        code: body.code,
+        label: body.label,
+        amount: new Prisma.Decimal(body.amount),
+        isConfirmed: body.isConfirmed,
+        owner: body.owner ?? "TAXPAYER",
+        sourceTransactionId: body.sourceTransactionId ?? null,
+        metadataJson: asJson(body.metadataJson)
+      } as Prisma.DeductionItemUncheckedCreateInput
+    });
+
+    await writeAuditEvent({
+      userId,
+      actorType: "USER",
+      actorId: userId,
+      action: auditActions.DEDUCTION_CREATED,
+      entityType: "DeductionItem",
+      entityId: deduction.id,
+      requestId: request.id
+    });
+
+    return deduction;
+  });
+
+  app.get(`${apiPrefix}/deductions`, { preHandler: requireAuth }, async (request) => {
+    const { year } = yearQuerySchema.parse(request.query);
+    return prisma.deductionItem.findMany({
+      where: {
+        userId: getUserId(request),
+        taxYear: year
+      },
+      orderBy: {
+        createdAt: "desc"
+      }
+    });
+  });
+
+  app.put(`${apiPrefix}/deductions/:id`, { preHandler: requireAuth }, async (request) => {
+    const body = deductionSchema.partial().parse(request.body);
+    const userId = getUserId(request);
+    const deduction = await requireOwnedDeduction(app, userId, (request.params as { id: string }).id);
+
+    if (body.sourceTransactionId) {
+      await requireOwnedTransaction(app, userId, body.sourceTransactionId);
+    }
+
+    return prisma.deductionItem.update({
+      where: {
+        id: deduction.id
+      },
+      data: {
+        ...(body.code ? { code: body.code } : {}),
+        ...(body.label ? { label: body.label } : {}),
+        ...(body.amount !== undefined ? { amount: new Prisma.Decimal(body.amount) } : {}),
+        ...(body.owner ? { owner: body.owner } : {}),
+        ...(body.isConfirmed !== undefined ? { isConfirmed: body.isConfirmed } : {}),
+        ...(body.sourceTransactionId !== undefined ? { sourceTransactionId: body.sourceTransactionId ?? null } : {}),
+        ...(body.metadataJson !== undefined ? { metadataJson: asJson(body.metadataJson) } : {})
+      } as Prisma.DeductionItemUncheckedUpdateInput
+    });
+  });
+
   app.post(`${apiPrefix}/transactions`, { preHandler: [requireAuth, requireIdempotencyKey] }, async (request) => {
     const body = transactionSchema.parse(request.body);
     const userId = getUserId(request);
@@ -348,6 +470,10 @@ export async function buildApp() {
         categoryReason: body.categoryReason ?? null,
         categorySource: body.categorySource ?? "MANUAL",
         documentId: body.documentId ?? null,
+        owner: body.owner ?? "TAXPAYER",
+        isTaxableSale: body.isTaxableSale ?? null,
+        salesTaxZip: body.salesTaxZip ?? null,
+        isUseTaxLiable: body.isUseTaxLiable ?? null,
         metadataJson: asJson(body.metadataJson)
       }
     });
@@ -418,6 +544,10 @@ export async function buildApp() {
         ...(body.categoryReason !== undefined ? { categoryReason: body.categoryReason ?? null } : {}),
         ...(body.categorySource ? { categorySource: body.categorySource } : {}),
         ...(body.documentId !== undefined ? { documentId: body.documentId ?? null } : {}),
+        ...(body.owner ? { owner: body.owner } : {}),
+        ...(body.isTaxableSale !== undefined ? { isTaxableSale: body.isTaxableSale } : {}),
+        ...(body.salesTaxZip !== undefined ? { salesTaxZip: body.salesTaxZip } : {}),
+        ...(body.isUseTaxLiable !== undefined ? { isUseTaxLiable: body.isUseTaxLiable } : {}),
         ...(body.metadataJson !== undefined ? { metadataJson: asJson(body.metadataJson) } : {}),
         isReviewed: true
       } as Prisma.TransactionUncheckedUpdateInput
@@ -506,18 +636,101 @@ export async function buildApp() {
     return computeTaxYear(getUserId(request), year, request.id);
   });
 
+  app.post(`${apiPrefix}/tax/scenarios`, { preHandler: requireAuth }, async (request) => {
+    const body = taxScenarioRunSchema.parse(request.body);
+    return runTaxScenario(getUserId(request), body.taxYear, body.deltas);
+  });
+
+  app.post(`${apiPrefix}/tax/scenarios/saved`, { preHandler: [requireAuth, requireIdempotencyKey] }, async (request) => {
+    const body = taxScenarioSaveSchema.parse(request.body);
+    return saveTaxScenario(getUserId(request), body, request.id);
+  });
+
+  app.get(`${apiPrefix}/tax/scenarios/saved`, { preHandler: requireAuth }, async (request) => {
+    const { year } = yearQuerySchema.parse(request.query);
+    return listTaxScenarios(getUserId(request), year);
+  });
+
+  app.post(`${apiPrefix}/tax/scenarios/saved/:id/run`, { preHandler: requireAuth }, async (request) => {
+    const result = await runSavedTaxScenario(getUserId(request), (request.params as { id: string }).id);
+    if (!result) {
+      throw app.httpErrors.notFound("Tax scenario not found.");
+    }
+
+    return result;
+  });
+
+  app.get(`${apiPrefix}/tax/filing-status-comparison`, { preHandler: requireAuth }, async (request) => {
+    const { year } = yearQuerySchema.parse(request.query);
+    const comparison = await compareFilingStatuses(getUserId(request), year);
+    if (!comparison) {
+      throw app.httpErrors.badRequest("Filing status comparison requires a married filing status on the tax profile.");
+    }
+
+    return comparison;
+  });
+
   app.get(`${apiPrefix}/tax/summary`, { preHandler: requireAuth }, async (request) => {
     const { year } = yearQuerySchema.parse(request.query);
     return getTaxSummary(getUserId(request), year);
   });
 
-  app.get(`${apiPrefix}/tax/explain`, { preHandler: requireAuth }, async (request) => {
-    const query = request.query as { runId?: string };
-    if (!query.runId) {
-      throw app.httpErrors.badRequest("runId is required.");
+  app.get(`${apiPrefix}/tax/explain`, { preHandler: requireAuth }, async (request, reply) => {
+    const query = taxExplainQuerySchema.parse(request.query);
+    if (query.format === "json") {
+      const explain = await getTaxExplain(query.runId, getUserId(request), query.nodeId);
+      if (query.nodeId !== undefined && !explain) {
+        throw app.httpErrors.notFound("Explanation node not found.");
+      }
+
+      return explain;
+    }
+
+    const rendered = await renderTaxExplain(query.runId, getUserId(request), query.format, query.nodeId);
+    if (!rendered) {
+      throw app.httpErrors.notFound(
+        query.nodeId === undefined ? "Computation run not found." : "Explanation node not found."
+      );
+    }
+
+    reply.header("content-type", rendered.contentType);
+    return reply.send(rendered.body);
+  });
+
+  app.get(`${apiPrefix}/tax/runs/:a/diff/:b`, { preHandler: requireAuth }, async (request) => {
+    const params = request.params as { a: string; b: string };
+    const diff = await getComputationRunDiff(getUserId(request), params.a, params.b);
+    if (!diff) {
+      throw app.httpErrors.notFound("Computation run not found.");
+    }
+
+    return diff;
+  });
+
+  app.post(`${apiPrefix}/tax/runs/:id/replay`, { preHandler: requireAuth }, async (request) => {
+    const body = rulesetReplaySchema.parse(request.body ?? {});
+    const replay = await replayComputationRun(getUserId(request), (request.params as { id: string }).id, body);
+    if (!replay) {
+      throw app.httpErrors.notFound("Computation run not found.");
+    }
+
+    return replay;
+  });
+
+  app.post(`${apiPrefix}/admin/ruleset-impact-reports`, { preHandler: requireAdmin }, async (request, reply) => {
+    const body = rulesetImpactReportSchema.parse(request.body ?? {});
+    const queued = await queueRulesetImpactReport(body.taxYear, body, getUserId(request), request.id);
+    reply.code(202);
+    return queued;
+  });
+
+  app.get(`${apiPrefix}/admin/ruleset-impact-reports/:id`, { preHandler: requireAdmin }, async (request) => {
+    const report = await getRulesetImpactReport((request.params as { id: string }).id);
+    if (!report) {
+      throw app.httpErrors.notFound("Ruleset impact report not found.");
     }
 
-    return getTaxExplain(query.runId, getUserId(request));
+    return report;
   });
 
   app.get(`${apiPrefix}/tax/completeness`, { preHandler: requireAuth }, async (request) => {
@@ -552,6 +765,26 @@ export async function buildApp() {
     return getAssumptions(query.runId, getUserId(request));
   });
 
+  app.get(`${apiPrefix}/sales-tax/periods`, { preHandler: requireAuth }, async (request) => {
+    const { year } = yearQuerySchema.parse(request.query);
+    const report = await getSalesTaxPeriodReport(getUserId(request), year);
+    if (!report) {
+      throw app.httpErrors.badRequest("Sales tax period reporting requires ND sales tax nexus on the tax profile.");
+    }
+
+    return report;
+  });
+
+  app.get(`${apiPrefix}/sales-tax/rate`, { preHandler: requireAuth }, async (request) => {
+    const query = salesTaxRateQuerySchema.parse(request.query);
+    const rate = lookupSalesTaxRate(query.zip, query.date ?? new Date().toISOString().slice(0, 10));
+    if (!rate) {
+      throw app.httpErrors.notFound("No local sales tax rate found for that ZIP code and date.");
+    }
+
+    return rate;
+  });
+
   app.post(`${apiPrefix}/exports/tax-pack`, { preHandler: requireAuth }, async (request) => {
     const { year } = yearQuerySchema.parse(request.query);
     return createTaxPackExport(getUserId(request), year, request.id);
@@ -17,8 +17,8 @@ const envSchema = z.object({
     .string()
     .default("http://localhost:3000,http://localhost:5173,http://127.0.0.1:5173")
     .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean)),
-  DEFAULT_RULESET_IRS: z.string().default("IRS-2026.1"),
-  DEFAULT_RULESET_ND: z.string().default("ND-2026.2"),
+  DEFAULT_RULESET_IRS: z.string().default("IRS-2026.11"),
+  DEFAULT_RULESET_ND: z.string().default("ND-2026.4"),
   S3_BUCKET: z.string().optional(),
   S3_REGION: z.string().optional(),
   S3_ENDPOINT: z.string().optional(),
@@ -33,7 +33,11 @@ const envSchema = z.object({
     .default("application/pdf,image/jpeg,image/png,text/csv")
     .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean)),
   KMS_KEY_ID: z.string().default("local-dev-key"),
-  RULESET_SIGNING_SECRET: z.string().default("local-dev-ruleset-secret")
+  RULESET_SIGNING_SECRET: z.string().default("local-dev-ruleset-secret"),
+  ADMIN_USER_IDS: z
+    .string()
+    .default("")
+    .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean))
 });
 
 export const env = envSchema.parse(process.env);
@@ -9,12 +9,40 @@ function matchesPattern(value: string, pattern?: string | null): boolean {
   return new RegExp(pattern, "i").test(value);
 }
 
+function transactionText(transaction: TransactionInput): string {
+  return `${transaction.merchant ?? ""} ${transaction.description}`.trim();
+}
+
+function matchesRule(text: string, transaction: TransactionInput, rule: CategoryRuleInput): boolean {
+  const textMatched = matchesPattern(text, rule.vendorPattern) || matchesPattern(text, rule.keywordPattern);
+  const amountMatched =
+    (rule.amountMin === null || rule.amountMin === undefined || transaction.amount >= rule.amountMin) &&
+    (rule.amountMax === null || rule.amountMax === undefined || transaction.amount <= rule.amountMax);
+
+  return textMatched && amountMatched;
+}
+
+// A flag set on the transaction wins; otherwise an expense owes use tax when
+// any use-tax rule matches it, whichever rule decided its category.
+export function isUseTaxLiable(transaction: TransactionInput, mappingRules: CategoryRuleInput[]): boolean {
+  if (transaction.isUseTaxLiable !== null && transaction.isUseTaxLiable !== undefined) {
+    return transaction.isUseTaxLiable;
+  }
+
+  if (transaction.direction !== "EXPENSE") {
+    return false;
+  }
+
+  const text = transactionText(transaction);
+  return mappingRules.some((rule) => rule.useTaxLiable === true && matchesRule(text, transaction, rule));
+}
+
 export function categorizeTransaction(
   transaction: TransactionInput,
   mappingRules: CategoryRuleInput[],
   overrides: UserOverrideInput[]
 ): CategorySuggestion | null {
-  const text = `${transaction.merchant ?? ""} ${transaction.description}`.trim();
+  const text = transactionText(transaction);
 
   for (const override of overrides) {
     if (matchesPattern(text, override.vendorPattern) || matchesPattern(text, override.keywordPattern)) {
@@ -28,13 +56,7 @@ export function categorizeTransaction(
   }
 
   for (const rule of mappingRules) {
-    const textMatched =
-      matchesPattern(text, rule.vendorPattern) || matchesPattern(text, rule.keywordPattern);
-    const amountMatched =
-      (rule.amountMin === null || rule.amountMin === undefined || transaction.amount >= rule.amountMin) &&
-      (rule.amountMax === null || rule.amountMax === undefined || transaction.amount <= rule.amountMax);
-
-    if (textMatched && amountMatched) {
+    if (matchesRule(text, transaction, rule)) {
       return {
         categoryCode: rule.code,
         confidence: clamp(rule.confidenceBase, 0, 100),
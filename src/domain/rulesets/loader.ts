@@ -3,7 +3,14 @@ import { createHmac } from "node:crypto";
 import path from "node:path";
 
 import { env } from "../../config/env.js";
-import type { FederalRuleset, RulesetMeta, StateRuleset } from "./types.js";
+import type {
+  FederalRuleset,
+  LocalSalesTaxRate,
+  LocalSalesTaxTable,
+  RulesetMeta,
+  RulesetMetaEntry,
+  StateRuleset
+} from "./types.js";
 
 const RULESET_ROOT = path.resolve(process.cwd(), "rulesets");
 
@@ -64,13 +71,68 @@ export function loadStateRuleset(version = env.DEFAULT_RULESET_ND): StateRuleset
   return ruleset;
 }
 
-export function resolveActiveRulesetsForTaxYear(taxYear: number): { federal: string; state: string; localSalesTax: string | null } {
+function parseLocalSalesTaxCsv(rulesetId: string, contents: string): LocalSalesTaxRate[] {
+  const [header, ...rows] = contents.trim().split(/\r?\n/);
+  const columns = (header ?? "").split(",").map((column) => column.trim());
+  return rows.map((row, index) => {
+    const values = row.split(",");
+    const field = (name: string) => values[columns.indexOf(name)]?.trim() ?? "";
+    const jurisdictionType = field("jurisdiction_type");
+    if (jurisdictionType !== "CITY" && jurisdictionType !== "COUNTY") {
+      throw new Error(`Local sales tax ruleset ${rulesetId} row ${index + 2} has unknown jurisdiction type "${jurisdictionType}"`);
+    }
+
+    return {
+      jurisdictionType,
+      jurisdictionCode: field("jurisdiction_code"),
+      city: field("city"),
+      county: field("county"),
+      zip: field("zip"),
+      stateRate: Number(field("state_rate")),
+      localRate: Number(field("local_rate")),
+      totalRate: Number(field("total_rate")),
+      effectiveFrom: field("effective_from"),
+      sourceUrl: field("source_url")
+    };
+  });
+}
+
+// The signature covers the raw file contents, so any edit to the CSV needs the
+// meta entry re-signed.
+function verifyLocalSalesTaxSignature(entry: RulesetMetaEntry, contents: string): void {
+  const expected = createHmac("sha256", env.RULESET_SIGNING_SECRET).update(contents).digest("hex");
+  if (entry.signature !== expected) {
+    throw createRulesetSignatureError(entry.id);
+  }
+}
+
+export function loadLocalSalesTaxTable(version: string): LocalSalesTaxTable {
+  const meta = loadRulesetMeta();
+  const entry = meta.versions.find((item) => item.id === version);
+
+  if (!entry) {
+    throw new Error(`Local sales tax ruleset ${version} not found`);
+  }
+
+  const contents = readFileSync(path.resolve(process.cwd(), entry.path), "utf8");
+  verifyLocalSalesTaxSignature(entry, contents);
+  return {
+    id: entry.id,
+    rates: parseLocalSalesTaxCsv(entry.id, contents)
+  };
+}
+
+export function resolveActiveRulesetsForTaxYear(
+  taxYear: number,
+  residentState?: string | null
+): { federal: string; state: string; localSalesTax: string | null } {
   const meta = loadRulesetMeta();
   const taxYearEntry = meta.activeByTaxYear?.[String(taxYear)];
+  const stateActive = taxYearEntry ?? meta.active;
 
   return {
     federal: taxYearEntry?.federal ?? meta.active.federal,
-    state: taxYearEntry?.state ?? meta.active.state,
+    state: (residentState ? stateActive.states?.[residentState] : undefined) ?? stateActive.state,
     localSalesTax: taxYearEntry?.localSalesTax ?? meta.active.localSalesTax ?? null
   };
 }
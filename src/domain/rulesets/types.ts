@@ -32,11 +32,85 @@ export interface FederalRuleset {
     socialSecurityWageBase: number;
     additionalMedicareThreshold: Record<FilingStatusCode, number>;
   };
+  childTaxCredit?: {
+    amountPerQualifyingChild: number;
+    amountPerOtherDependent: number;
+    refundableLimitPerQualifyingChild: number;
+    refundableEarnedIncomeThreshold: number;
+    refundableEarnedIncomeRate: number;
+    phaseOutThreshold: Record<FilingStatusCode, number>;
+    phaseOutIncrement: number;
+    phaseOutReductionPerIncrement: number;
+  };
+  earnedIncomeCredit?: {
+    investmentIncomeLimit: number;
+    schedules: Array<{
+      qualifyingChildren: number;
+      phaseInRate: number;
+      earnedIncomeAmount: number;
+      maximumCredit: number;
+      phaseOutRate: number;
+      phaseOutThreshold: Record<FilingStatusCode, number>;
+    }>;
+  };
+  qualifiedBusinessIncome?: {
+    deductionRate: number;
+    threshold: Record<FilingStatusCode, number>;
+    phaseInRange: Record<FilingStatusCode, number>;
+    minimumDeduction: number;
+    minimumDeductionQualifiedIncome: number;
+  };
+  capitalGains?: {
+    zeroRateMaximum: Record<FilingStatusCode, number>;
+    fifteenRateMaximum: Record<FilingStatusCode, number>;
+    fifteenRate: number;
+    twentyRate: number;
+    capitalLossLimit: Record<FilingStatusCode, number>;
+  };
+  itemizedDeductions?: {
+    saltCap: Record<FilingStatusCode, number>;
+    saltFloor: Record<FilingStatusCode, number>;
+    saltPhaseDownThreshold: Record<FilingStatusCode, number>;
+    saltPhaseDownRate: number;
+    medicalExpenseAgiFloor: number;
+    charitableContributionAgiFloor: number;
+    charitableCashAgiLimit: number;
+    charitableNonCashAgiLimit: number;
+  };
+  underpaymentPenalty?: {
+    requiredCurrentYearPercentage: number;
+    priorYearSafeHarbor?: {
+      percentage: number;
+      highIncomePercentage: number;
+      highIncomeAgiThreshold: Record<FilingStatusCode, number>;
+    };
+    minimumBalanceDue: number;
+    installmentDueDates: string[];
+    annualizedIncomeInstallment?: {
+      periods: Array<{ periodEnd: string; annualizationFactor: number; applicablePercentage: number }>;
+    };
+    penaltyEndDate: string;
+    daysInYear: number;
+    rates: Array<{ effectiveFrom: string; rate: number }>;
+  };
+  netInvestmentIncomeTax?: {
+    rate: number;
+    threshold: Record<FilingStatusCode, number>;
+  };
   supportedCredits: string[];
   unsupportedCredits: string[];
   notes: string[];
 }
 
+// An ND-1 addition or subtraction read from deduction items with `itemCode`.
+// `incomeLimit` caps the total of all rules sharing it at that income amount.
+export interface StateAdjustmentRule {
+  code: string;
+  label: string;
+  itemCode: string;
+  incomeLimit?: "wages" | "interestIncome" | "otherIncome" | null;
+}
+
 export interface StateRuleset {
   id: string;
   jurisdiction: "state";
@@ -51,6 +125,25 @@ export interface StateRuleset {
   changelog: string[];
   computable: boolean;
   brackets?: Record<FilingStatusCode, TaxBracket[]>;
+  adjustments?: {
+    additions: StateAdjustmentRule[];
+    subtractions: StateAdjustmentRule[];
+  };
+  credits?: {
+    marriagePenalty?: {
+      filingStatuses: FilingStatusCode[];
+      maximumCredit: number | null;
+    };
+    taxPaidToOtherState?: {
+      itemCode: string;
+    };
+  };
+  reciprocity?: Array<{
+    stateCode: string;
+    incomeTypes: string[];
+    residentExemptionForm: string;
+    nonresidentExemptionForm: string;
+  }>;
   staleness?: {
     reason: string;
     action: string;
@@ -61,24 +154,55 @@ export interface StateRuleset {
   };
 }
 
+// One row of a local sales tax rate CSV under rulesets/<state>/local. City
+// rows carry the combined local rate for the city, including any county tax;
+// county rows cover addresses outside city limits.
+export interface LocalSalesTaxRate {
+  jurisdictionType: "CITY" | "COUNTY";
+  jurisdictionCode: string;
+  city: string;
+  county: string;
+  zip: string;
+  stateRate: number;
+  localRate: number;
+  totalRate: number;
+  effectiveFrom: string;
+  sourceUrl: string;
+}
+
+export interface LocalSalesTaxTable {
+  id: string;
+  rates: LocalSalesTaxRate[];
+}
+
 export interface RulesetMetaEntry {
   id: string;
   jurisdiction: string;
   path: string;
   effectiveFrom: string;
   status: string;
-  approvedBy: string;
-  approvedAt: string;
+  // Left unset while the version is pending tax review.
+  approvedBy?: string;
+  approvedAt?: string;
   sourceHash: string;
-  validatedAt: string;
+  validatedAt?: string;
+  // CSV rulesets cannot carry their own signature, so it is kept here.
+  signature?: string;
 }
 
+// `state` is the ruleset used when the resident state has no entry in
+// `states`, so profiles outside every supported state still get a scope
+// decision from it.
 export interface RulesetMeta {
   active: {
     federal: string;
     state: string;
+    states?: Record<string, string>;
     localSalesTax: string;
   };
-  activeByTaxYear?: Record<string, { federal: string; state: string; localSalesTax?: string }>;
+  activeByTaxYear?: Record<
+    string,
+    { federal: string; state: string; states?: Record<string, string>; localSalesTax?: string }
+  >;
   versions: RulesetMetaEntry[];
 }
@@ -0,0 +1,203 @@
+import { addMoney, multiplyMoney, sumMoney, toDollars, toMoney } from "../../shared/money.js";
+import { isUseTaxLiable } from "../categorization/engine.js";
+import type { LocalSalesTaxTable } from "../rulesets/types.js";
+import { isScheduleCReceipt } from "../tax/income.js";
+import type {
+  CategoryRuleInput,
+  ComputationAssumptionInput,
+  TaxProfileInput,
+  TransactionInput
+} from "../tax/types.js";
+import { findLocalSalesTaxRate } from "./rates.js";
+import type {
+  SalesTaxFilingFrequencyCode,
+  SalesTaxJurisdictionLine,
+  SalesTaxLocation,
+  SalesTaxPeriod,
+  SalesTaxPeriodReport,
+  SalesTaxTotals
+} from "./types.js";
+
+const monthsPerPeriod: Record<SalesTaxFilingFrequencyCode, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  ANNUAL: 12
+};
+
+function toDateString(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+// `month` is 1-based; day 0 of the following month is the last day of it.
+function lastDayOfMonth(year: number, month: number): string {
+  return toDateString(year, month + 1, 0);
+}
+
+// ND sales and use tax returns are due on the last day of the month after the
+// period ends. Weekend and holiday extensions are not applied.
+export function buildSalesTaxPeriods(
+  taxYear: number,
+  frequency: SalesTaxFilingFrequencyCode
+): Array<{ periodStart: string; periodEnd: string; dueDate: string }> {
+  const months = monthsPerPeriod[frequency];
+  return Array.from({ length: 12 / months }, (_, index) => {
+    const startMonth = index * months + 1;
+    const endMonth = startMonth + months - 1;
+    return {
+      periodStart: toDateString(taxYear, startMonth, 1),
+      periodEnd: lastDayOfMonth(taxYear, endMonth),
+      dueDate: lastDayOfMonth(taxYear, endMonth + 1)
+    };
+  });
+}
+
+// An explicit flag on the transaction wins; otherwise confirmed gross receipts
+// are treated as taxable sales.
+export function isTaxableSale(transaction: TransactionInput): boolean {
+  if (transaction.isTaxableSale !== null && transaction.isTaxableSale !== undefined) {
+    return transaction.isTaxableSale;
+  }
+
+  return isScheduleCReceipt(transaction);
+}
+
+function sumTotals(items: SalesTaxTotals[]): SalesTaxTotals {
+  const sum = (field: keyof SalesTaxTotals) => toDollars(sumMoney(items.map((item) => toMoney(item[field]))));
+  return {
+    taxableSales: sum("taxableSales"),
+    taxablePurchases: sum("taxablePurchases"),
+    stateTax: sum("stateTax"),
+    localTax: sum("localTax"),
+    useTax: sum("useTax"),
+    totalTax: sum("totalTax")
+  };
+}
+
+// Receipts are taken as excluding sales tax. Sales are sourced to the
+// transaction's sales tax ZIP, or to the business location on the profile;
+// purchases that owe use tax are sourced to the business location. Locations
+// missing from the rate table owe state tax only, at the state rate the table
+// carries.
+export function buildSalesTaxPeriodReport(input: {
+  profile: TaxProfileInput;
+  transactions: TransactionInput[];
+  mappingRules: CategoryRuleInput[];
+  rateTable: LocalSalesTaxTable;
+}): SalesTaxPeriodReport | null {
+  const { profile, rateTable } = input;
+  if (!profile.hasNdSalesTaxNexus) {
+    return null;
+  }
+
+  const assumptions: ComputationAssumptionInput[] = [
+    {
+      code: "SALES_TAX_EXCLUDED_FROM_RECEIPTS",
+      description: "Taxable sales were taken as the receipt amounts, assuming sales tax was not included in them.",
+      impactLevel: "medium",
+      userActionNeeded: false
+    }
+  ];
+  const filingFrequency = profile.salesTaxFilingFrequency ?? "QUARTERLY";
+  if (!profile.salesTaxFilingFrequency) {
+    assumptions.push({
+      code: "SALES_TAX_FREQUENCY_ASSUMED_QUARTERLY",
+      description: "No sales tax filing frequency is set on the tax profile, so quarterly periods were used.",
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+
+  const stateRate = rateTable.rates[0]?.stateRate ?? 0;
+  const businessLocation: SalesTaxLocation = {
+    zip: profile.residentZip,
+    city: profile.residentCity,
+    county: profile.county
+  };
+  const taxableItems = input.transactions.flatMap((transaction) => {
+    if (transaction.direction === "INCOME" && isTaxableSale(transaction)) {
+      const location = transaction.salesTaxZip ? { zip: transaction.salesTaxZip } : businessLocation;
+      return [{ transaction, location, isPurchase: false }];
+    }
+
+    if (isUseTaxLiable(transaction, input.mappingRules)) {
+      return [{ transaction, location: businessLocation, isPurchase: true }];
+    }
+
+    return [];
+  });
+  const unknownLocations = new Set<string>();
+
+  const periods = buildSalesTaxPeriods(profile.taxYear, filingFrequency).map((period): SalesTaxPeriod => {
+    const lines = new Map<string, SalesTaxJurisdictionLine>();
+    for (const { transaction, location, isPurchase } of taxableItems) {
+      const date = transaction.date.slice(0, 10);
+      if (date < period.periodStart || date > period.periodEnd) {
+        continue;
+      }
+
+      const rate = findLocalSalesTaxRate(rateTable, location, date);
+      if (!rate) {
+        unknownLocations.add(location.zip ?? location.city ?? "unknown");
+      }
+
+      const key = rate ? `${rate.jurisdictionType}:${rate.jurisdictionCode}` : "STATE:UNKNOWN";
+      const line = lines.get(key) ?? {
+        jurisdictionType: rate?.jurisdictionType ?? "STATE",
+        jurisdictionCode: rate?.jurisdictionCode ?? "UNKNOWN",
+        city: rate?.city ?? null,
+        zip: rate?.zip ?? null,
+        rateFound: rate !== null,
+        taxableSales: 0,
+        taxablePurchases: 0,
+        stateRate: rate?.stateRate ?? stateRate,
+        localRate: rate?.localRate ?? 0,
+        stateTax: 0,
+        localTax: 0,
+        useTax: 0,
+        totalTax: 0,
+        transactionIds: []
+      };
+      const amount = toMoney(Math.abs(transaction.amount));
+      if (isPurchase) {
+        line.taxablePurchases = toDollars(addMoney(toMoney(line.taxablePurchases), amount));
+      } else {
+        line.taxableSales = toDollars(addMoney(toMoney(line.taxableSales), amount));
+      }
+      line.transactionIds.push(transaction.id);
+      lines.set(key, line);
+    }
+
+    const jurisdictions = [...lines.values()].map((line) => {
+      const taxableAmount = addMoney(toMoney(line.taxableSales), toMoney(line.taxablePurchases));
+      const stateTax = multiplyMoney(taxableAmount, line.stateRate);
+      const localTax = multiplyMoney(taxableAmount, line.localRate);
+      const useTax = multiplyMoney(toMoney(line.taxablePurchases), line.stateRate + line.localRate);
+      return {
+        ...line,
+        stateTax: toDollars(stateTax),
+        localTax: toDollars(localTax),
+        useTax: toDollars(useTax),
+        totalTax: toDollars(addMoney(stateTax, localTax))
+      };
+    });
+    return { ...period, ...sumTotals(jurisdictions), jurisdictions };
+  });
+
+  if (unknownLocations.size > 0) {
+    assumptions.push({
+      code: "LOCAL_SALES_TAX_RATE_NOT_FOUND",
+      description: `No local sales tax rate was found for ${[...unknownLocations].join(", ")}, so only state sales and use tax was computed for those transactions.`,
+      impactLevel: "high",
+      userActionNeeded: true
+    });
+  }
+
+  return {
+    taxYear: profile.taxYear,
+    filingFrequency,
+    rateTableVersion: rateTable.id,
+    periods,
+    totals: sumTotals(periods),
+    assumptions
+  };
+}
@@ -0,0 +1,46 @@
+import type { LocalSalesTaxRate, LocalSalesTaxTable } from "../rulesets/types.js";
+import type { SalesTaxLocation } from "./types.js";
+
+// For each jurisdiction, the row with the latest effective date on or before
+// `date` is in force; rows effective later are ignored.
+function ratesInEffect(table: LocalSalesTaxTable, date: string): LocalSalesTaxRate[] {
+  const day = date.slice(0, 10);
+  const current = new Map<string, LocalSalesTaxRate>();
+  for (const rate of table.rates) {
+    if (rate.effectiveFrom > day) {
+      continue;
+    }
+
+    const key = `${rate.jurisdictionType}:${rate.jurisdictionCode}:${rate.zip}`;
+    const existing = current.get(key);
+    if (!existing || existing.effectiveFrom < rate.effectiveFrom) {
+      current.set(key, rate);
+    }
+  }
+
+  return [...current.values()];
+}
+
+// A city rate already includes any county tax, so it takes precedence over the
+// county rate for the same location. Within each level a ZIP match wins over a
+// name match.
+export function findLocalSalesTaxRate(
+  table: LocalSalesTaxTable,
+  location: SalesTaxLocation,
+  date: string
+): LocalSalesTaxRate | null {
+  const zip = location.zip?.trim();
+  const city = location.city?.trim().toLowerCase();
+  const county = location.county?.trim().toLowerCase();
+  const rates = ratesInEffect(table, date);
+  const cityRates = rates.filter((rate) => rate.jurisdictionType === "CITY");
+  const countyRates = rates.filter((rate) => rate.jurisdictionType === "COUNTY");
+
+  return (
+    (zip ? cityRates.find((rate) => rate.zip === zip) : undefined) ??
+    (city ? cityRates.find((rate) => rate.city.toLowerCase() === city) : undefined) ??
+    (zip ? countyRates.find((rate) => rate.zip === zip) : undefined) ??
+    (county ? countyRates.find((rate) => rate.county.toLowerCase() === county) : undefined) ??
+    null
+  );
+}
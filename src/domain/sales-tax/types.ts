@@ -0,0 +1,54 @@
+import type { ComputationAssumptionInput } from "../tax/types.js";
+
+export type SalesTaxFilingFrequencyCode = "MONTHLY" | "QUARTERLY" | "ANNUAL";
+
+export interface SalesTaxLocation {
+  zip?: string | null;
+  city?: string | null;
+  county?: string | null;
+}
+
+export interface SalesTaxJurisdictionLine {
+  jurisdictionType: string;
+  jurisdictionCode: string;
+  city: string | null;
+  zip: string | null;
+  rateFound: boolean;
+  taxableSales: number;
+  taxablePurchases: number;
+  stateRate: number;
+  localRate: number;
+  stateTax: number;
+  localTax: number;
+  useTax: number;
+  totalTax: number;
+  transactionIds: string[];
+}
+
+// `taxablePurchases` are purchases that owe use tax. State and local tax are
+// computed on taxable sales plus those purchases, and `useTax` is the part of
+// them that comes from the purchases.
+export interface SalesTaxTotals {
+  taxableSales: number;
+  taxablePurchases: number;
+  stateTax: number;
+  localTax: number;
+  useTax: number;
+  totalTax: number;
+}
+
+export interface SalesTaxPeriod extends SalesTaxTotals {
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  jurisdictions: SalesTaxJurisdictionLine[];
+}
+
+export interface SalesTaxPeriodReport {
+  taxYear: number;
+  filingFrequency: SalesTaxFilingFrequencyCode;
+  rateTableVersion: string;
+  periods: SalesTaxPeriod[];
+  totals: SalesTaxTotals;
+  assumptions: ComputationAssumptionInput[];
+}
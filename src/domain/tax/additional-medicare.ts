@@ -0,0 +1,70 @@
+import {
+  addMoney,
+  maxMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  wholeDollars,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type { AdditionalMedicareTaxDetails, IncomeInput } from "./types.js";
+
+// Form 8959: wages use the full threshold, self-employment earnings only the
+// part of it that wages have not used, and Medicare tax withheld above the
+// regular employee rate is credited as federal withholding.
+export function computeAdditionalMedicareTax(input: {
+  filingStatus: FilingStatusCode;
+  incomes: IncomeInput[];
+  selfEmploymentEarnings: number;
+  ruleset: FederalRuleset;
+}): AdditionalMedicareTaxDetails | null {
+  const rules = input.ruleset.selfEmploymentTax;
+  const w2Incomes = input.incomes.filter((income) => income.type === "W2");
+  const medicareWages = sumMoney(w2Incomes.map((income) => maxMoney(ZERO_MONEY, toMoney(income.amount))));
+  const selfEmploymentEarnings = maxMoney(ZERO_MONEY, toMoney(input.selfEmploymentEarnings));
+  if (medicareWages <= 0 && selfEmploymentEarnings <= 0) {
+    return null;
+  }
+
+  const threshold = rules.additionalMedicareThreshold[input.filingStatus];
+  const wagesOverThreshold = maxMoney(ZERO_MONEY, subtractMoney(medicareWages, toMoney(threshold)));
+  const selfEmploymentThreshold = maxMoney(ZERO_MONEY, subtractMoney(toMoney(threshold), medicareWages));
+  const selfEmploymentEarningsOverThreshold = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(selfEmploymentEarnings, selfEmploymentThreshold)
+  );
+  // Lines 7, 13, 18 and 24 of the form are whole dollars.
+  const taxOnWages = wholeDollars(toDollars(wagesOverThreshold) * rules.additionalMedicareRate);
+  const taxOnSelfEmploymentEarnings = wholeDollars(
+    toDollars(selfEmploymentEarningsOverThreshold) * rules.additionalMedicareRate
+  );
+
+  // The employee share of regular Medicare tax is half the combined rate;
+  // only W-2s that report Medicare tax withheld take part in the credit.
+  const reportingIncomes = w2Incomes.filter((income) => income.taxWithheldMedicare !== undefined);
+  const medicareTaxWithheld = sumMoney(reportingIncomes.map((income) => toMoney(income.taxWithheldMedicare ?? 0)));
+  const regularMedicareTaxWithholding = multiplyMoney(
+    sumMoney(reportingIncomes.map((income) => maxMoney(ZERO_MONEY, toMoney(income.amount)))),
+    rules.medicareRate / 2
+  );
+
+  return {
+    medicareWages: toDollars(medicareWages),
+    selfEmploymentEarnings: toDollars(selfEmploymentEarnings),
+    threshold,
+    wagesOverThreshold: toDollars(wagesOverThreshold),
+    selfEmploymentThreshold: toDollars(selfEmploymentThreshold),
+    selfEmploymentEarningsOverThreshold: toDollars(selfEmploymentEarningsOverThreshold),
+    taxOnWages,
+    taxOnSelfEmploymentEarnings,
+    tax: toDollars(addMoney(toMoney(taxOnWages), toMoney(taxOnSelfEmploymentEarnings))),
+    medicareTaxWithheld: toDollars(medicareTaxWithheld),
+    regularMedicareTaxWithholding: toDollars(regularMedicareTaxWithholding),
+    additionalMedicareTaxWithheld: wholeDollars(
+      toDollars(maxMoney(ZERO_MONEY, subtractMoney(medicareTaxWithheld, regularMedicareTaxWithholding)))
+    )
+  };
+}
@@ -0,0 +1,27 @@
+import { sumMoney, toDollars, toMoney } from "../../shared/money.js";
+import type { AdjustmentTypeCode, DeductionInput } from "./types.js";
+
+// Schedule 1 Part II adjustments reduce AGI only. Unlike business expenses they
+// do not lower Schedule C net profit, so self-employment tax is unchanged.
+export const ADJUSTMENT_CODES: Record<AdjustmentTypeCode, string> = {
+  SEP_IRA: "ADJUSTMENT_SEP_IRA",
+  TRADITIONAL_IRA: "ADJUSTMENT_TRADITIONAL_IRA",
+  HSA: "ADJUSTMENT_HSA"
+};
+
+const adjustmentCodes: string[] = Object.values(ADJUSTMENT_CODES);
+
+export function isAdjustmentDeduction(deduction: DeductionInput): boolean {
+  return adjustmentCodes.includes(deduction.code);
+}
+
+// Contribution limits are not modeled; amounts are deducted as entered.
+export function sumAdjustments(deductions: DeductionInput[]): number {
+  return toDollars(
+    sumMoney(
+      deductions
+        .filter((deduction) => deduction.isConfirmed && isAdjustmentDeduction(deduction))
+        .map((deduction) => toMoney(Math.max(0, deduction.amount)))
+    )
+  );
+}
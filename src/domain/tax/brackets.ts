@@ -0,0 +1,77 @@
+import {
+  maxMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type { TaxBracket } from "../rulesets/types.js";
+import type { BracketScheduleAnalysis, ExplanationNode } from "./types.js";
+
+// Each bracket's tax is rounded to the cent once and the total is their exact
+// sum, so the per-bracket lines always add up to the tax.
+function taxBrackets(income: number, brackets: TaxBracket[]) {
+  const taxableIncome = maxMoney(ZERO_MONEY, toMoney(income));
+  return brackets
+    .filter((bracket) => taxableIncome > toMoney(bracket.min))
+    .map((bracket) => {
+      const upper = bracket.max === null ? taxableIncome : (Math.min(taxableIncome, toMoney(bracket.max)) as Money);
+      const taxedAmount = subtractMoney(upper, toMoney(bracket.min));
+      return { bracket, taxedAmount, tax: multiplyMoney(taxedAmount, bracket.rate) };
+    });
+}
+
+export function computeBracketTax(income: number, brackets: TaxBracket[]): number {
+  return toDollars(sumMoney(taxBrackets(income, brackets).map((position) => position.tax)));
+}
+
+// Same walk as computeBracketTax, but keeps every bracket the income reaches.
+// The marginal rate is the rate on the next dollar, so income sitting exactly
+// on a bracket boundary reports the bracket above it.
+export function analyzeBrackets(income: number, brackets: TaxBracket[]): BracketScheduleAnalysis {
+  const taxableIncome = toDollars(maxMoney(ZERO_MONEY, toMoney(income)));
+  const positions = taxBrackets(taxableIncome, brackets);
+  const currentIndex = brackets.findIndex(
+    (bracket) => taxableIncome >= bracket.min && (bracket.max === null || taxableIncome < bracket.max)
+  );
+  const current = brackets[currentIndex];
+  const next = brackets[currentIndex + 1];
+
+  return {
+    taxableIncome,
+    brackets: positions.map(({ bracket, taxedAmount, tax }) => ({
+      min: bracket.min,
+      max: bracket.max,
+      rate: bracket.rate,
+      taxedAmount: toDollars(taxedAmount),
+      tax: toDollars(tax)
+    })),
+    tax: toDollars(sumMoney(positions.map((position) => position.tax))),
+    marginalRate: current?.rate ?? 0,
+    headroomToNextBracket:
+      current?.max == null ? null : toDollars(subtractMoney(toMoney(current.max), toMoney(taxableIncome))),
+    nextBracketRate: next?.rate ?? null
+  };
+}
+
+export function buildBracketExplanation(analysis: BracketScheduleAnalysis | null): ExplanationNode[] {
+  return (analysis?.brackets ?? []).map((bracket, index) => ({
+    nodeId: `bracket-${index + 1}`,
+    label: `${Math.round(bracket.rate * 1000000) / 10000}% bracket`,
+    formula: "(min(taxable income, bracket max) - bracket min) x rate",
+    inputs: {
+      min: bracket.min,
+      max: bracket.max,
+      rate: bracket.rate
+    },
+    outputs: {
+      taxedAmount: bracket.taxedAmount,
+      tax: bracket.tax
+    },
+    children: [],
+    transactionRefs: []
+  }));
+}
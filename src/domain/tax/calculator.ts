@@ -1,38 +1,61 @@
-import { createId } from "../../shared/ids.js";
-import { roundCurrency } from "../../shared/money.js";
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  roundCurrency,
+  roundToWholeDollars,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  wholeDollars,
+  ZERO_MONEY
+} from "../../shared/money.js";
 import { categorizeTransaction } from "../categorization/engine.js";
-import type { FilingStatusCode, TaxBracket } from "../rulesets/types.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
 import type {
+  AdditionalMedicareTaxDetails,
+  AnnualizedPeriodTax,
+  BracketAnalysis,
+  BracketScheduleAnalysis,
   ComputationAssumptionInput,
+  DeductionInput,
+  EstimatedPaymentPlanBasis,
+  EstimatedPaymentPlanOption,
   ExplanationNode,
+  IncomeAggregation,
+  IncomeInput,
+  ItemizedDeductionDetails,
   RiskFlagInput,
+  SelfEmploymentTaxDetails,
   TaxBreakdown,
   TaxComputationInput,
   TaxComputationOutput,
   TransactionInput
 } from "./types.js";
+import { computeAdditionalMedicareTax } from "./additional-medicare.js";
+import { isAdjustmentDeduction, sumAdjustments } from "./adjustments.js";
+import { analyzeBrackets, buildBracketExplanation, computeBracketTax } from "./brackets.js";
+import { computePreferentialRateTax } from "./capital-gains.js";
 import { evaluateCompleteness } from "./completeness.js";
 import { evaluateConfidence } from "./confidence.js";
+import { assignPathNodeIds } from "./explanation.js";
+import { buildEstimatedPaymentPlans } from "./estimated-payments.js";
+import {
+  buildEarnedIncomeCreditRiskFlag,
+  computeChildTaxCredit,
+  computeEarnedIncomeCredit,
+  resolveDependents
+} from "./credits.js";
 import { buildRiskFlags } from "./risk-flags.js";
+import { aggregateIncome, buildIncomeSourceExplanation, buildScheduleCReceiptsRiskFlag } from "./income.js";
+import { computeItemizedDeductions, isScheduleADeduction, SCHEDULE_A_CODES } from "./itemized.js";
+import { computeNetInvestmentIncomeTax } from "./niit.js";
+import { buildQualifiedBusinessIncomeRiskFlag, computeQualifiedBusinessIncomeDeduction } from "./qbi.js";
 import { evaluateScope } from "./scope.js";
-
-function computeBracketTax(income: number, brackets: TaxBracket[]): number {
-  let total = 0;
-
-  for (const bracket of brackets) {
-    if (income <= bracket.min) {
-      continue;
-    }
-
-    const upper = bracket.max ?? income;
-    const taxableAtBracket = Math.min(income, upper) - bracket.min;
-    if (taxableAtBracket > 0) {
-      total += taxableAtBracket * bracket.rate;
-    }
-  }
-
-  return roundCurrency(total);
-}
+import { computeStateTax, isStateDeduction, resolveStateTaxModule } from "./states/index.js";
+import { buildUnderpaymentRiskFlag, computeUnderpaymentPenalty } from "./underpayment.js";
 
 function detectDeductibleExpense(transaction: TransactionInput): boolean {
   return (
@@ -52,22 +75,19 @@ function estimateSelfEmploymentTaxRange(netSelfEmploymentIncome: number): { low:
     return null;
   }
 
-  const baseline = roundCurrency(netSelfEmploymentIncome * 0.9235 * 0.153);
+  const baseline = multiplyMoney(toMoney(netSelfEmploymentIncome), 0.9235 * 0.153);
   return {
-    low: roundCurrency(baseline * 0.95),
-    high: roundCurrency(baseline * 1.05)
+    low: toDollars(multiplyMoney(baseline, 0.95)),
+    high: toDollars(multiplyMoney(baseline, 1.05))
   };
 }
 
 function computeSelfEmploymentTax(
   filingStatus: FilingStatusCode | null,
-  grossIncome: number,
-  businessExpenses: number,
+  income: IncomeAggregation,
   input: TaxComputationInput
 ) {
-  const hasSelfEmploymentIncome = input.incomes.some((income) =>
-    ["FORM_1099_NEC", "BUSINESS_GROSS"].includes(income.type)
-  );
+  const hasSelfEmploymentIncome = income.hasScheduleC;
 
   if (!hasSelfEmploymentIncome || filingStatus === null) {
     return {
@@ -80,7 +100,7 @@ function computeSelfEmploymentTax(
     };
   }
 
-  const netSelfEmploymentIncome = roundCurrency(Math.max(0, grossIncome - businessExpenses));
+  const netSelfEmploymentIncome = toDollars(maxMoney(ZERO_MONEY, toMoney(income.scheduleCNetProfit)));
   if (netSelfEmploymentIncome <= 0) {
     return {
       hasSelfEmploymentIncome,
@@ -96,75 +116,309 @@ function computeSelfEmploymentTax(
   }
 
   const rules = input.federalRuleset.selfEmploymentTax;
-  const taxableEarnings = roundCurrency(netSelfEmploymentIncome * rules.netEarningsFactor);
-  const w2Wages = roundCurrency(
-    input.incomes
-      .filter((income) => income.type === "W2")
-      .reduce((sum, income) => sum + income.amount, 0)
+  // Schedule SE lines 10 to 13 are entered in whole dollars; line 12 is the
+  // exact sum of lines 10 and 11.
+  const taxableEarnings = multiplyMoney(toMoney(netSelfEmploymentIncome), rules.netEarningsFactor);
+  const remainingSocialSecurityBase = toMoney(Math.max(0, rules.socialSecurityWageBase - income.wages));
+  const socialSecurityPortion = roundToWholeDollars(
+    multiplyMoney(minMoney(taxableEarnings, remainingSocialSecurityBase), rules.socialSecurityRate)
   );
-  const remainingSocialSecurityBase = Math.max(0, rules.socialSecurityWageBase - w2Wages);
-  const socialSecurityPortion = roundCurrency(
-    Math.min(taxableEarnings, remainingSocialSecurityBase) * rules.socialSecurityRate
-  );
-  const medicarePortion = roundCurrency(taxableEarnings * rules.medicareRate);
-  const additionalMedicareThreshold = rules.additionalMedicareThreshold[filingStatus];
-  const remainingAdditionalThreshold = Math.max(0, additionalMedicareThreshold - w2Wages);
-  const additionalMedicarePortion = roundCurrency(
-    Math.max(0, taxableEarnings - remainingAdditionalThreshold) * rules.additionalMedicareRate
-  );
-  const total = roundCurrency(socialSecurityPortion + medicarePortion + additionalMedicarePortion);
-  const deductibleHalf = roundCurrency((socialSecurityPortion + medicarePortion) / 2);
+  const medicarePortion = roundToWholeDollars(multiplyMoney(taxableEarnings, rules.medicareRate));
+  const total = addMoney(socialSecurityPortion, medicarePortion);
+  const deductibleHalf = roundToWholeDollars(multiplyMoney(total, 0.5));
 
   return {
     hasSelfEmploymentIncome,
     netSelfEmploymentIncome,
-    taxableEarnings,
+    taxableEarnings: toDollars(taxableEarnings),
     details: {
-      total,
-      deductibleHalf,
-      socialSecurityPortion,
-      medicarePortion,
-      additionalMedicarePortion
+      total: toDollars(total),
+      deductibleHalf: toDollars(deductibleHalf),
+      socialSecurityPortion: toDollars(socialSecurityPortion),
+      medicarePortion: toDollars(medicarePortion)
     },
-    deduction: deductibleHalf,
+    deduction: toDollars(deductibleHalf),
     estimateRange: {
-      low: total,
-      high: total
+      low: toDollars(total),
+      high: toDollars(total)
     }
   };
 }
 
-function buildEstimatedPaymentPlan(taxYear: number, annualAmount: number) {
-  if (annualAmount <= 0) {
-    return [];
-  }
+function buildDeductionItemExplanation(deductions: DeductionInput[]): ExplanationNode[] {
+  return deductions.map((deduction) => ({
+    nodeId: `deduction:${deduction.id}`,
+    label: deduction.label,
+    formula: "confirmed deduction item",
+    inputs: {
+      code: deduction.code,
+      owner: deduction.owner ?? "TAXPAYER"
+    },
+    outputs: {
+      amount: deduction.amount
+    },
+    children: [],
+    transactionRefs: []
+  }));
+}
+
+function formatPercent(rate: number): string {
+  return `${Number((rate * 100).toFixed(4))}%`;
+}
+
+function buildItemizedExplanation(
+  details: ItemizedDeductionDetails,
+  rules: NonNullable<FederalRuleset["itemizedDeductions"]>,
+  deductions: DeductionInput[],
+  incomes: IncomeInput[]
+): ExplanationNode[] {
+  const itemsFor = (...codes: string[]) =>
+    buildDeductionItemExplanation(
+      deductions.filter((deduction) => deduction.isConfirmed && codes.includes(deduction.code))
+    );
 
-  const installment = roundCurrency(annualAmount / 4);
   return [
-    { dueDate: `${taxYear}-04-15`, amount: installment },
-    { dueDate: `${taxYear}-06-15`, amount: installment },
-    { dueDate: `${taxYear}-09-15`, amount: installment },
-    { dueDate: `${taxYear + 1}-01-15`, amount: installment }
+    {
+      nodeId: "state-and-local-taxes",
+      label: "State and local taxes",
+      formula: `min(taxes paid, SALT cap - ${formatPercent(rules.saltPhaseDownRate)} x (AGI - phase-down threshold), never below the floor)`,
+      inputs: {
+        stateAndLocalTaxesPaid: details.stateAndLocalTaxesPaid,
+        saltPhaseDownReduction: details.saltPhaseDownReduction
+      },
+      outputs: {
+        saltCap: details.saltCap,
+        stateAndLocalTaxes: details.stateAndLocalTaxes
+      },
+      children: itemsFor(
+        SCHEDULE_A_CODES.STATE_LOCAL_INCOME_TAX,
+        SCHEDULE_A_CODES.REAL_ESTATE_TAX,
+        SCHEDULE_A_CODES.PERSONAL_PROPERTY_TAX
+      ),
+      transactionRefs: [],
+      incomeSourceRefs: incomes
+        .filter((income) => (income.taxWithheldState ?? 0) + (income.taxWithheldLocal ?? 0) > 0)
+        .map((income) => income.id)
+    },
+    {
+      nodeId: "mortgage-interest",
+      label: "Home mortgage interest",
+      formula: "sum(Form 1098 mortgage interest)",
+      inputs: {},
+      outputs: {
+        mortgageInterest: details.mortgageInterest
+      },
+      children: itemsFor(SCHEDULE_A_CODES.MORTGAGE_INTEREST),
+      transactionRefs: []
+    },
+    {
+      nodeId: "charitable-contributions",
+      label: "Charitable contributions",
+      formula: "cash and non-cash gifts within AGI percentage limits - contribution floor",
+      inputs: {
+        charitableCash: details.charitableCash,
+        charitableNonCash: details.charitableNonCash,
+        charitableAgiLimitReduction: details.charitableAgiLimitReduction,
+        charitableFloor: details.charitableFloor
+      },
+      outputs: {
+        charitableContributions: details.charitableContributions
+      },
+      children: itemsFor(SCHEDULE_A_CODES.CHARITABLE_CASH, SCHEDULE_A_CODES.CHARITABLE_NONCASH),
+      transactionRefs: []
+    },
+    {
+      nodeId: "medical-expenses",
+      label: "Medical and dental expenses",
+      formula: `medical expenses - ${formatPercent(rules.medicalExpenseAgiFloor)} x AGI`,
+      inputs: {
+        medicalExpensesPaid: details.medicalExpensesPaid,
+        medicalExpenseFloor: details.medicalExpenseFloor
+      },
+      outputs: {
+        medicalExpenses: details.medicalExpenses
+      },
+      children: itemsFor(SCHEDULE_A_CODES.MEDICAL),
+      transactionRefs: []
+    }
   ];
 }
 
+function roundRate(value: number): number {
+  return Math.round((value + Number.EPSILON) * 10000) / 10000;
+}
+
+// The combined rate is a simple sum for the next dollar of Schedule C profit
+// (or of wages when there is none); it does not net the SE tax deduction or
+// QBI deduction back out of the income tax rates. A part-year ND rate is
+// scaled by the ND-1NR income ratio.
+function buildBracketAnalysis(
+  federal: BracketScheduleAnalysis | null,
+  state: BracketScheduleAnalysis | null,
+  stateIncomeRatio: number,
+  selfEmployment: { taxableEarnings: number; details: SelfEmploymentTaxDetails | null },
+  additionalMedicareTax: AdditionalMedicareTaxDetails | null,
+  wages: number,
+  input: TaxComputationInput
+): BracketAnalysis {
+  const rules = input.federalRuleset.selfEmploymentTax;
+  const selfEmploymentMarginalRate =
+    selfEmployment.details === null
+      ? 0
+      : roundRate(
+          rules.netEarningsFactor *
+            ((selfEmployment.taxableEarnings < rules.socialSecurityWageBase - wages ? rules.socialSecurityRate : 0) +
+              rules.medicareRate +
+              ((additionalMedicareTax?.selfEmploymentEarningsOverThreshold ?? 0) > 0
+                ? rules.additionalMedicareRate
+                : 0))
+        );
+
+  return {
+    federal,
+    state,
+    selfEmploymentMarginalRate,
+    combinedMarginalRate: roundRate(
+      (federal?.marginalRate ?? 0) + (state?.marginalRate ?? 0) * stateIncomeRatio + selfEmploymentMarginalRate
+    )
+  };
+}
+
+function buildWithholdingExplanation(
+  incomes: IncomeInput[],
+  amountOf: (income: IncomeInput) => number
+): ExplanationNode[] {
+  return incomes
+    .filter((income) => amountOf(income) !== 0)
+    .map((income) => ({
+      nodeId: `income:${income.id}`,
+      label: income.label,
+      formula: income.type === "W2" ? "W-2 withholding" : "withholding reported on the income record",
+      inputs: {
+        type: income.type,
+        workState: income.workState ?? null
+      },
+      outputs: {
+        taxWithheld: amountOf(income)
+      },
+      children: [],
+      transactionRefs: [],
+      incomeSourceRefs: [income.id]
+    }));
+}
+
+// State withholding is summed by the state module; the per-income lines use
+// the same rule as North Dakota, which credits only tax withheld for the state.
+function buildBalanceDueExplanation(
+  breakdown: TaxBreakdown,
+  input: TaxComputationInput,
+  transactionRefs: string[]
+): ExplanationNode {
+  const stateCode = input.stateRuleset.stateCode;
+  const stateWithholdingIncomes =
+    breakdown.stateWithholding === 0
+      ? []
+      : input.incomes.filter((income) => !income.workState || income.workState === stateCode);
+  const withholdingIncomeIds = input.incomes
+    .filter((income) => (income.taxWithheldFederal ?? 0) !== 0 || (income.taxWithheldState ?? 0) !== 0)
+    .map((income) => income.id);
+
+  return {
+    nodeId: "balance-due",
+    label: "Balance due",
+    formula:
+      "federal tax - refundable credits - federal withholding - estimated payments + state tax - state withholding",
+    inputs: {
+      federalTax: breakdown.federalTax,
+      additionalChildTaxCredit: breakdown.additionalChildTaxCredit,
+      earnedIncomeCredit: breakdown.earnedIncomeCredit,
+      federalWithholding: breakdown.federalWithholding,
+      estimatedPayments: breakdown.estimatedPayments,
+      stateTax: breakdown.stateTax,
+      stateWithholding: breakdown.stateWithholding
+    },
+    outputs: {
+      federalBalanceDue: breakdown.federalBalanceDue,
+      stateBalanceDue: breakdown.stateBalanceDue,
+      totalBalanceDue: breakdown.totalBalanceDue
+    },
+    children: [
+      {
+        nodeId: "federal-withholding",
+        label: "Federal withholding",
+        formula: "sum(federal income tax withheld) + Additional Medicare Tax withheld, in whole dollars",
+        inputs: {
+          additionalMedicareTaxWithheld: breakdown.additionalMedicareTaxDetails?.additionalMedicareTaxWithheld ?? 0
+        },
+        outputs: {
+          federalWithholding: breakdown.federalWithholding
+        },
+        children: buildWithholdingExplanation(input.incomes, (income) => income.taxWithheldFederal ?? 0),
+        transactionRefs: []
+      },
+      {
+        nodeId: "estimated-payments",
+        label: "Estimated payments",
+        formula: "sum(estimated and extension payments), in whole dollars",
+        inputs: {},
+        outputs: {
+          estimatedPayments: breakdown.estimatedPayments
+        },
+        children: input.estimatedPayments.map((payment) => ({
+          nodeId: `payment:${payment.id}`,
+          label: `${payment.kind} paid ${payment.paidAt.slice(0, 10)}`,
+          formula: "estimated payment",
+          inputs: {
+            kind: payment.kind,
+            quarter: payment.quarter ?? null,
+            paidAt: payment.paidAt
+          },
+          outputs: {
+            amount: payment.amount
+          },
+          children: [],
+          transactionRefs: [],
+          estimatedPaymentRefs: [payment.id]
+        })),
+        transactionRefs: [],
+        estimatedPaymentRefs: input.estimatedPayments.map((payment) => payment.id)
+      },
+      {
+        nodeId: "state-withholding",
+        label: "State withholding",
+        formula: `sum(state income tax withheld for ${stateCode})`,
+        inputs: {},
+        outputs: {
+          stateWithholding: breakdown.stateWithholding
+        },
+        children: buildWithholdingExplanation(stateWithholdingIncomes, (income) => income.taxWithheldState ?? 0),
+        transactionRefs: []
+      }
+    ],
+    transactionRefs,
+    incomeSourceRefs: withholdingIncomeIds,
+    estimatedPaymentRefs: input.estimatedPayments.map((payment) => payment.id)
+  };
+}
+
 function buildExplanation(
   breakdown: TaxBreakdown,
+  input: TaxComputationInput,
+  income: IncomeAggregation,
   categorizedTransactions: Array<TransactionInput>,
+  businessDeductions: DeductionInput[],
   deductionLabel: string,
   federalTax: number,
   stateTax: number | null,
-  stateStatus: string
+  stateNode: ExplanationNode,
+  bracketAnalysis: BracketAnalysis
 ): ExplanationNode {
-  const incomeRefs = categorizedTransactions
-    .filter((transaction) => transaction.direction === "INCOME")
-    .map((transaction) => transaction.id);
   const expenseRefs = categorizedTransactions
     .filter((transaction) => detectDeductibleExpense(transaction))
     .map((transaction) => transaction.id);
 
   return {
-    nodeId: createId(),
+    nodeId: "estimate",
     label: "Tax estimate",
     formula: "federal tax + state tax",
     inputs: {
@@ -180,75 +434,301 @@ function buildExplanation(
     transactionRefs: [],
     children: [
       {
-        nodeId: createId(),
+        nodeId: "income",
         label: "Income aggregation",
-        formula: "sum(income sources and income transactions)",
+        formula:
+          "W-2 wages + Schedule C gross receipts + other income + interest + ordinary dividends + capital gain or loss",
         inputs: {
-          incomeTransactions: incomeRefs.length
+          wages: breakdown.wages,
+          scheduleCGrossReceipts: breakdown.scheduleCGrossReceipts,
+          otherIncome: breakdown.otherIncome,
+          interestIncome: breakdown.interestIncome,
+          ordinaryDividends: breakdown.ordinaryDividends,
+          capitalGainOrLoss: breakdown.capitalGainOrLoss
         },
         outputs: {
           grossIncome: breakdown.grossIncome
         },
+        children: buildIncomeSourceExplanation(input.incomes),
+        transactionRefs: income.receiptTransactionRefs
+      },
+      {
+        nodeId: "schedule-c-net-profit",
+        label: "Schedule C net profit",
+        formula: "1099-NEC + business gross + gross-receipts transactions - business expenses",
+        inputs: {
+          receiptsFromIncomeSources: income.scheduleCReceiptsFromIncomeSources,
+          receiptsFromTransactions: income.scheduleCReceiptsFromTransactions,
+          businessExpenses: breakdown.businessExpenses
+        },
+        outputs: {
+          scheduleCGrossReceipts: breakdown.scheduleCGrossReceipts,
+          scheduleCNetProfit: breakdown.scheduleCNetProfit
+        },
         children: [],
-        transactionRefs: incomeRefs
+        transactionRefs: [...income.receiptTransactionRefs, ...expenseRefs]
       },
       {
-        nodeId: createId(),
+        nodeId: "business-deductions",
         label: "Business deductions",
-        formula: "sum(deductible expense transactions)",
+        formula: "sum(deductible expense transactions) + sum(confirmed business deduction items)",
         inputs: {
           deductionStrategy: deductionLabel
         },
         outputs: {
           businessExpenses: breakdown.businessExpenses
         },
-        children: [],
+        children: buildDeductionItemExplanation(businessDeductions),
         transactionRefs: expenseRefs
       },
       {
-        nodeId: createId(),
+        nodeId: "deduction-choice",
+        label: "Deduction choice",
+        formula: "max(standard deduction, itemized deductions) unless the standard deduction is forced",
+        inputs: {
+          standardDeduction: breakdown.standardDeduction,
+          itemizedDeductions: breakdown.itemizedDeductions
+        },
+        outputs: {
+          deductionStrategy: deductionLabel,
+          deductionUsed: breakdown.deductionUsed
+        },
+        children:
+          breakdown.itemizedDeductionDetails === null || !input.federalRuleset.itemizedDeductions
+            ? []
+            : buildItemizedExplanation(
+                breakdown.itemizedDeductionDetails,
+                input.federalRuleset.itemizedDeductions,
+                input.deductions,
+                input.incomes
+              ),
+        transactionRefs: []
+      },
+      {
+        nodeId: "federal-taxable-income",
         label: "Federal taxable income",
-        formula: "gross income - business expenses - SE tax deduction - selected deduction",
+        formula:
+          "gross income - business expenses - SE tax deduction - adjustments to income - selected deduction - QBI deduction",
         inputs: {
           grossIncome: breakdown.grossIncome,
           businessExpenses: breakdown.businessExpenses,
           selfEmploymentTaxDeduction: breakdown.selfEmploymentTaxDeduction,
-          deductionUsed: breakdown.deductionUsed
+          adjustmentsToIncome: breakdown.adjustmentsToIncome,
+          deductionUsed: breakdown.deductionUsed,
+          qbiDeduction: breakdown.qbiDeduction
         },
         outputs: {
           taxableIncomeFederal: breakdown.taxableIncomeFederal,
-          federalTax
+          federalTax,
+          marginalRate: bracketAnalysis.federal?.marginalRate ?? null,
+          headroomToNextBracket: bracketAnalysis.federal?.headroomToNextBracket ?? null,
+          combinedMarginalRate: bracketAnalysis.combinedMarginalRate
+        },
+        children: buildBracketExplanation(bracketAnalysis.federal),
+        transactionRefs: []
+      },
+      {
+        nodeId: "capital-gains-tax",
+        label: "Qualified dividends and capital gain tax",
+        formula:
+          breakdown.preferentialRateTaxDetails === null
+            ? "no preferential rate income"
+            : "min(tax on ordinary income + 15% and 20% bands of preferential income, tax on all taxable income)",
+        inputs: {
+          taxableIncome: breakdown.preferentialRateTaxDetails?.taxableIncome ?? breakdown.taxableIncomeFederal,
+          qualifiedDividends: breakdown.qualifiedDividends,
+          netCapitalGain: breakdown.preferentialRateTaxDetails?.netCapitalGain ?? 0,
+          shortTermCapitalGain: income.shortTermCapitalGain,
+          longTermCapitalGain: income.longTermCapitalGain,
+          capitalLossCarryover: income.capitalLossCarryover
+        },
+        outputs: {
+          ordinaryIncome: breakdown.preferentialRateTaxDetails?.ordinaryIncome ?? breakdown.taxableIncomeFederal,
+          taxedAtZeroRate: breakdown.preferentialRateTaxDetails?.taxedAtZeroRate ?? 0,
+          taxedAtFifteenRate: breakdown.preferentialRateTaxDetails?.taxedAtFifteenRate ?? 0,
+          taxedAtTwentyRate: breakdown.preferentialRateTaxDetails?.taxedAtTwentyRate ?? 0,
+          incomeTax: breakdown.preferentialRateTaxDetails?.tax ?? null
         },
         children: [],
         transactionRefs: []
       },
       {
-        nodeId: createId(),
-        label: "North Dakota tax",
-        formula: stateTax === null ? "state computation blocked" : "apply state ruleset brackets",
+        nodeId: "qbi-deduction",
+        label: "Qualified business income deduction",
+        formula:
+          breakdown.qbiDeductionDetails === null
+            ? "no qualified business income"
+            : "min(20% x (Schedule C profit - SE tax deduction) less phase-in reduction, 20% x taxable income before QBI)",
         inputs: {
-          taxableIncomeState: breakdown.taxableIncomeState,
-          stateStatus
+          scheduleCNetProfit: breakdown.qbiDeductionDetails?.scheduleCNetProfit ?? 0,
+          selfEmploymentTaxAdjustment: breakdown.qbiDeductionDetails?.selfEmploymentTaxAdjustment ?? 0,
+          taxableIncomeBeforeDeduction: breakdown.qbiDeductionDetails?.taxableIncomeBeforeDeduction ?? 0,
+          phaseInPercentage: breakdown.qbiDeductionDetails?.phaseInPercentage ?? 0
         },
         outputs: {
-          stateTax
+          qualifiedBusinessIncome: breakdown.qbiDeductionDetails?.qualifiedBusinessIncome ?? 0,
+          tentativeDeduction: breakdown.qbiDeductionDetails?.tentativeDeduction ?? 0,
+          wageLimitationReduction: breakdown.qbiDeductionDetails?.wageLimitationReduction ?? 0,
+          taxableIncomeLimitation: breakdown.qbiDeductionDetails?.taxableIncomeLimitation ?? 0,
+          qbiDeduction: breakdown.qbiDeduction
         },
         children: [],
         transactionRefs: []
       },
       {
-        nodeId: createId(),
+        nodeId: "child-tax-credit",
+        label: "Child Tax Credit and Credit for Other Dependents",
+        formula:
+          breakdown.childTaxCreditDetails === null
+            ? "no child or dependent credit"
+            : "min(credit after phase-out, income tax) + refundable portion per Schedule 8812",
+        inputs: {
+          qualifyingChildren: breakdown.childTaxCreditDetails?.qualifyingChildren ?? 0,
+          otherDependents: breakdown.childTaxCreditDetails?.otherDependents ?? 0,
+          tentativeCredit: breakdown.childTaxCreditDetails?.tentativeCredit ?? 0,
+          phaseOutReduction: breakdown.childTaxCreditDetails?.phaseOutReduction ?? 0
+        },
+        outputs: {
+          childTaxCredit: breakdown.childTaxCredit,
+          additionalChildTaxCredit: breakdown.additionalChildTaxCredit
+        },
+        children: [],
+        transactionRefs: []
+      },
+      {
+        nodeId: "earned-income-credit",
+        label: "Earned Income Tax Credit",
+        formula:
+          breakdown.earnedIncomeCreditDetails === null
+            ? "no earned income credit"
+            : "min(credit on earned income, credit on AGI) using phase-in, plateau and phase-out",
+        inputs: {
+          earnedIncome: breakdown.earnedIncomeCreditDetails?.earnedIncome ?? 0,
+          adjustedGrossIncome: breakdown.earnedIncomeCreditDetails?.adjustedGrossIncome ?? 0,
+          qualifyingChildren: breakdown.earnedIncomeCreditDetails?.qualifyingChildren ?? 0,
+          disqualificationReason: breakdown.earnedIncomeCreditDetails?.disqualificationReason ?? null
+        },
+        outputs: {
+          phaseInCredit: breakdown.earnedIncomeCreditDetails?.phaseInCredit ?? 0,
+          phaseOutReduction: breakdown.earnedIncomeCreditDetails?.phaseOutReduction ?? 0,
+          earnedIncomeCredit: breakdown.earnedIncomeCredit
+        },
+        children: [],
+        transactionRefs: []
+      },
+      {
+        nodeId: "underpayment-penalty",
+        label: "Form 2210 underpayment penalty",
+        formula:
+          breakdown.underpaymentPenaltyDetails === null
+            ? "no underpayment penalty computed"
+            : breakdown.underpaymentPenaltyDetails.exemptionReason !== null
+              ? "no penalty: tax after withholding is below the minimum balance due"
+              : "sum(underpayment x days unpaid x penalty rate / days in year) per installment",
+        inputs: {
+          currentYearTax: breakdown.underpaymentPenaltyDetails?.currentYearTax ?? 0,
+          requiredAnnualPayment: breakdown.underpaymentPenaltyDetails?.requiredAnnualPayment ?? 0,
+          withholding: breakdown.federalWithholding,
+          estimatedPayments: breakdown.estimatedPayments
+        },
+        outputs: {
+          underpaymentPenalty: breakdown.underpaymentPenalty
+        },
+        children: (breakdown.underpaymentPenaltyDetails?.installments ?? []).map((installment, index) => {
+          const annualized = breakdown.underpaymentPenaltyDetails?.annualizedInstallments[index];
+          return {
+            nodeId: `installment:${installment.dueDate}`,
+            label: `Installment due ${installment.dueDate}`,
+            formula: annualized
+              ? `Schedule AI installment through ${annualized.periodEnd} - withholding and payments applied by the due date`
+              : "required installment - withholding and payments applied by the due date",
+            inputs: {
+              ...(annualized
+                ? {
+                    annualizedIncome: annualized.annualizedIncome,
+                    annualizedTax: annualized.annualizedTax,
+                    annualizedInstallment: annualized.annualizedInstallment,
+                    regularInstallment: annualized.regularInstallment
+                  }
+                : {}),
+              requiredInstallment: installment.requiredInstallment,
+              withholdingCredit: installment.withholdingCredit,
+              paymentsApplied: installment.paymentsApplied
+            },
+            outputs: {
+              underpayment: installment.underpayment,
+              penalty: installment.penalty
+            },
+            children: [],
+            transactionRefs: []
+          };
+        }),
+        transactionRefs: []
+      },
+      stateNode,
+      {
+        nodeId: "self-employment-tax",
         label: "Self-employment tax",
-        formula: breakdown.selfEmploymentTax > 0 ? "Schedule SE style computation" : "no self-employment tax",
+        formula:
+          breakdown.selfEmploymentTaxDetails === null
+            ? "no self-employment tax"
+            : "Schedule SE: 12.4% x min(net earnings, wage base - W-2 wages) + 2.9% x net earnings, where net earnings = 92.35% x net profit; half is deductible",
         inputs: {
+          scheduleCNetProfit: breakdown.scheduleCNetProfit,
+          wages: breakdown.wages,
+          socialSecurityWageBase: input.federalRuleset.selfEmploymentTax.socialSecurityWageBase
+        },
+        outputs: {
+          socialSecurityPortion: breakdown.selfEmploymentTaxDetails?.socialSecurityPortion ?? 0,
+          medicarePortion: breakdown.selfEmploymentTaxDetails?.medicarePortion ?? 0,
+          selfEmploymentTax: breakdown.selfEmploymentTax,
           selfEmploymentTaxDeduction: breakdown.selfEmploymentTaxDeduction
         },
+        children: [],
+        transactionRefs: []
+      },
+      {
+        nodeId: "additional-medicare-tax",
+        label: "Additional Medicare Tax (Form 8959)",
+        formula:
+          breakdown.additionalMedicareTaxDetails === null
+            ? "no Medicare wages or self-employment earnings"
+            : "0.9% x (Medicare wages over threshold + SE earnings over the threshold left after wages)",
+        inputs: {
+          medicareWages: breakdown.additionalMedicareTaxDetails?.medicareWages ?? 0,
+          selfEmploymentEarnings: breakdown.additionalMedicareTaxDetails?.selfEmploymentEarnings ?? 0,
+          threshold: breakdown.additionalMedicareTaxDetails?.threshold ?? null,
+          medicareTaxWithheld: breakdown.additionalMedicareTaxDetails?.medicareTaxWithheld ?? 0
+        },
         outputs: {
-          selfEmploymentTax: breakdown.selfEmploymentTax
+          taxOnWages: breakdown.additionalMedicareTaxDetails?.taxOnWages ?? 0,
+          taxOnSelfEmploymentEarnings: breakdown.additionalMedicareTaxDetails?.taxOnSelfEmploymentEarnings ?? 0,
+          additionalMedicareTax: breakdown.additionalMedicareTax,
+          additionalMedicareTaxWithheld: breakdown.additionalMedicareTaxDetails?.additionalMedicareTaxWithheld ?? 0
         },
         children: [],
         transactionRefs: []
-      }
+      },
+      {
+        nodeId: "net-investment-income-tax",
+        label: "Net Investment Income Tax (Form 8960)",
+        formula:
+          breakdown.netInvestmentIncomeTaxDetails === null
+            ? "no net investment income tax computed"
+            : "3.8% x min(net investment income, MAGI over threshold)",
+        inputs: {
+          netInvestmentIncome: breakdown.netInvestmentIncomeTaxDetails?.netInvestmentIncome ?? 0,
+          modifiedAdjustedGrossIncome: breakdown.adjustedGrossIncome,
+          threshold: breakdown.netInvestmentIncomeTaxDetails?.threshold ?? null
+        },
+        outputs: {
+          incomeOverThreshold: breakdown.netInvestmentIncomeTaxDetails?.incomeOverThreshold ?? 0,
+          netInvestmentIncomeTax: breakdown.netInvestmentIncomeTax
+        },
+        children: [],
+        transactionRefs: []
+      },
+      buildBalanceDueExplanation(breakdown, input, [...income.receiptTransactionRefs, ...expenseRefs])
     ]
   };
 }
@@ -256,6 +736,7 @@ function buildExplanation(
 function inferSelectedDeduction(
   filingStatus: FilingStatusCode | null,
   standardDeductionForced: boolean | null | undefined,
+  itemizedDeductionRequired: boolean | undefined,
   itemizedAmount: number | null | undefined,
   standardDeduction: number
 ): { amount: number; label: string; assumption?: ComputationAssumptionInput } {
@@ -266,6 +747,22 @@ function inferSelectedDeduction(
     };
   }
 
+  // A married person filing separately must itemize when the other spouse
+  // itemizes, even if the standard deduction would be larger.
+  if (itemizedDeductionRequired === true) {
+    return {
+      amount: itemizedAmount ?? 0,
+      label: "Itemized deduction",
+      assumption: {
+        code: "ITEMIZED_DEDUCTION_REQUIRED",
+        description:
+          "Itemized deductions were used instead of the standard deduction because the other spouse itemizes on a separate return.",
+        impactLevel: "medium",
+        userActionNeeded: false
+      }
+    };
+  }
+
   if (standardDeductionForced === true || !itemizedAmount || itemizedAmount <= standardDeduction) {
     return {
       amount: standardDeduction,
@@ -285,7 +782,90 @@ function inferSelectedDeduction(
   };
 }
 
-export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOutput {
+function describeRecommendedPlan(plan: EstimatedPaymentPlanOption): ComputationAssumptionInput {
+  const descriptions: Record<EstimatedPaymentPlanBasis, { code: string; description: string }> = {
+    CURRENT_YEAR_90: {
+      code: "CURRENT_YEAR_PLAN_RECOMMENDED",
+      description: `The estimated payment plan targets 90% of the projected current-year tax (${plan.requiredAnnualPayment}), which leaves less to pay than the other methods.`
+    },
+    PRIOR_YEAR_SAFE_HARBOR: {
+      code: "PRIOR_YEAR_SAFE_HARBOR_PLAN_RECOMMENDED",
+      description: `The estimated payment plan targets the prior-year safe harbor of ${plan.requiredAnnualPayment}, which is lower than 90% of the projected current-year tax.`
+    },
+    ANNUALIZED_INCOME: {
+      code: "ANNUALIZED_INCOME_PLAN_RECOMMENDED",
+      description:
+        "The estimated payment plan follows the Schedule AI annualized installments, so smaller payments are due in periods with less income."
+    }
+  };
+
+  return { ...descriptions[plan.basis], impactLevel: "medium", userActionNeeded: false };
+}
+
+// Income records carry no dates. W-2 wages are taken as earned evenly, which
+// is what annualizing them would give, but a 1099 or business income record
+// may have been received in any period.
+function findUndatedIncome(incomes: IncomeInput[]): IncomeInput[] {
+  return incomes.filter((income) => income.type !== "W2" && income.amount !== 0);
+}
+
+// Schedule AI re-runs the estimate once per period with only the transactions
+// dated inside it, scaled up to a full year. Wages and deduction items are left
+// as they are; with undated non-wage income the method is not used at all.
+function computeAnnualizedPeriods(
+  input: TaxComputationInput,
+  categorizedTransactions: TransactionInput[]
+): AnnualizedPeriodTax[] | null {
+  const periods = input.federalRuleset.underpaymentPenalty?.annualizedIncomeInstallment?.periods ?? [];
+  if (
+    input.profile.filingStatus === null ||
+    periods.length === 0 ||
+    categorizedTransactions.length === 0 ||
+    findUndatedIncome(input.incomes).length > 0
+  ) {
+    return null;
+  }
+
+  return periods.map((period) => {
+    const periodEstimate = computeEstimate(
+      {
+        ...input,
+        transactions: categorizedTransactions
+          .filter((transaction) => transaction.date.slice(0, 10) <= period.periodEnd)
+          .map((transaction) => ({ ...transaction, amount: transaction.amount * period.annualizationFactor })),
+        estimatedPayments: [],
+        priorYear: null
+      },
+      false
+    );
+    const breakdown = periodEstimate.breakdown;
+
+    return {
+      ...period,
+      annualizedIncome: breakdown.adjustedGrossIncome,
+      annualizedTax: toDollars(
+        maxMoney(
+          ZERO_MONEY,
+          subtractMoney(
+            toMoney(breakdown.federalTax),
+            addMoney(toMoney(breakdown.additionalChildTaxCredit), toMoney(breakdown.earnedIncomeCredit))
+          )
+        )
+      )
+    };
+  });
+}
+
+// Callers that only need the tax totals can skip the Schedule AI period
+// estimates, which only feed the Form 2210 penalty and the payment plans.
+export function computeTaxEstimate(
+  input: TaxComputationInput,
+  options: { annualize?: boolean } = {}
+): TaxComputationOutput {
+  return computeEstimate(input, options.annualize ?? true);
+}
+
+function computeEstimate(input: TaxComputationInput, annualize: boolean): TaxComputationOutput {
   const categorizedTransactions = input.transactions.map((transaction) => {
     if (transaction.categoryCode) {
       return transaction;
@@ -302,41 +882,187 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
     };
   });
 
-  const scopeContext = evaluateScope(input.profile);
+  const stateModule = resolveStateTaxModule(input.stateRuleset.stateCode);
+  const scopeContext = evaluateScope(input.profile, input.incomes, stateModule, input.stateRuleset);
   const completeness = evaluateCompleteness(input.profile, input.incomes, categorizedTransactions);
 
-  const explicitDeductions = input.deductions.filter((deduction) => deduction.isConfirmed);
-  const deductibleExpenses = categorizedTransactions
-    .filter((transaction) => detectDeductibleExpense(transaction))
-    .reduce((sum, transaction) => sum + Math.abs(transaction.amount), 0);
-  const businessExpenses = roundCurrency(
-    deductibleExpenses + explicitDeductions.reduce((sum, deduction) => sum + deduction.amount, 0)
+  const explicitDeductions = input.deductions.filter(
+    (deduction) =>
+      deduction.isConfirmed &&
+      !isScheduleADeduction(deduction) &&
+      !isStateDeduction(deduction) &&
+      !isAdjustmentDeduction(deduction)
+  );
+  const deductibleExpenses = sumMoney(
+    categorizedTransactions
+      .filter((transaction) => detectDeductibleExpense(transaction))
+      .map((transaction) => toMoney(Math.abs(transaction.amount)))
+  );
+  const claimedBusinessExpenses = toDollars(
+    addMoney(deductibleExpenses, sumMoney(explicitDeductions.map((deduction) => toMoney(deduction.amount))))
   );
-
-  const grossIncome = roundCurrency(input.incomes.reduce((sum, income) => sum + income.amount, 0));
 
   const filingStatus = input.profile.filingStatus;
+  const capitalLossLimit =
+    filingStatus === null ? 0 : (input.federalRuleset.capitalGains?.capitalLossLimit[filingStatus] ?? 0);
+  const income = aggregateIncome(input.incomes, categorizedTransactions, claimedBusinessExpenses, capitalLossLimit);
+  const grossIncome = income.grossIncome;
+  // Business expenses are Schedule C deductions, so without Schedule C
+  // receipts there is nothing to deduct them from.
+  const businessExpenses = income.hasScheduleC ? claimedBusinessExpenses : 0;
+  const adjustmentsToIncome = sumAdjustments(input.deductions);
+
   const standardDeduction = filingStatus
     ? input.federalRuleset.standardDeduction[filingStatus]
     : 0;
-  const selfEmploymentComputation = computeSelfEmploymentTax(filingStatus, grossIncome, businessExpenses, input);
+  const selfEmploymentComputation = computeSelfEmploymentTax(filingStatus, income, input);
+  const adjustedGrossIncome = toDollars(
+    maxMoney(
+      ZERO_MONEY,
+      subtractMoney(
+        toMoney(grossIncome),
+        addMoney(
+          toMoney(businessExpenses),
+          toMoney(selfEmploymentComputation.deduction),
+          toMoney(adjustmentsToIncome)
+        )
+      )
+    )
+  );
+  const itemizedDeductions =
+    filingStatus === null
+      ? null
+      : computeItemizedDeductions({
+          filingStatus,
+          adjustedGrossIncome,
+          deductions: input.deductions,
+          incomes: input.incomes,
+          ruleset: input.federalRuleset
+        });
   const selectedDeduction = inferSelectedDeduction(
     filingStatus,
     input.profile.standardDeductionForced,
-    input.profile.itemizedDeductionAmount,
+    input.profile.itemizedDeductionRequired,
+    itemizedDeductions?.total ?? input.profile.itemizedDeductionAmount,
     standardDeduction
   );
-
-  const adjustedGrossIncome = roundCurrency(
-    Math.max(0, grossIncome - businessExpenses - selfEmploymentComputation.deduction)
+  const taxableIncomeBeforeQbi = toDollars(
+    maxMoney(ZERO_MONEY, subtractMoney(toMoney(adjustedGrossIncome), toMoney(selectedDeduction.amount)))
   );
-  const taxableIncomeFederal = roundCurrency(
-    Math.max(0, adjustedGrossIncome - selectedDeduction.amount)
+  const qbiDeduction =
+    filingStatus === null || !income.hasScheduleC
+      ? null
+      : computeQualifiedBusinessIncomeDeduction({
+          filingStatus,
+          scheduleCNetProfit: income.scheduleCNetProfit,
+          selfEmploymentTaxDeduction: selfEmploymentComputation.deduction,
+          taxableIncomeBeforeDeduction: taxableIncomeBeforeQbi,
+          netCapitalGain: toDollars(addMoney(toMoney(income.qualifiedDividends), toMoney(income.netCapitalGain))),
+          ruleset: input.federalRuleset
+        });
+  // Form 1040 lines 15 and 16 are whole dollars, and the tax is computed on the
+  // rounded taxable income.
+  const taxableIncomeFederal = toDollars(
+    roundToWholeDollars(
+      maxMoney(ZERO_MONEY, subtractMoney(toMoney(taxableIncomeBeforeQbi), toMoney(qbiDeduction?.deduction ?? 0)))
+    )
   );
 
+  const preferentialRateTax =
+    filingStatus === null
+      ? null
+      : computePreferentialRateTax({
+          filingStatus,
+          taxableIncome: taxableIncomeFederal,
+          qualifiedDividends: income.qualifiedDividends,
+          netCapitalGain: income.netCapitalGain,
+          ruleset: input.federalRuleset
+        });
   const federalIncomeTax =
-    filingStatus === null ? 0 : computeBracketTax(taxableIncomeFederal, input.federalRuleset.brackets[filingStatus]);
-  const federalTax = roundCurrency(federalIncomeTax + (selfEmploymentComputation.details?.total ?? 0));
+    filingStatus === null
+      ? 0
+      : wholeDollars(
+          preferentialRateTax?.tax ?? computeBracketTax(taxableIncomeFederal, input.federalRuleset.brackets[filingStatus])
+        );
+
+  const dependents = resolveDependents(input.profile);
+  const earnedIncome = toDollars(
+    addMoney(
+      toMoney(income.wages),
+      maxMoney(
+        ZERO_MONEY,
+        subtractMoney(
+          toMoney(selfEmploymentComputation.netSelfEmploymentIncome),
+          toMoney(selfEmploymentComputation.deduction)
+        )
+      )
+    )
+  );
+  const childTaxCredit =
+    filingStatus === null
+      ? null
+      : computeChildTaxCredit({
+          filingStatus,
+          qualifyingChildren: dependents.qualifyingChildren,
+          otherDependents: dependents.otherDependents,
+          modifiedAdjustedGrossIncome: adjustedGrossIncome,
+          incomeTaxBeforeCredits: federalIncomeTax,
+          earnedIncome,
+          ruleset: input.federalRuleset
+        });
+  const earnedIncomeCredit =
+    filingStatus === null
+      ? null
+      : computeEarnedIncomeCredit({
+          filingStatus,
+          qualifyingChildren: dependents.qualifyingChildren,
+          earnedIncome,
+          adjustedGrossIncome,
+          investmentIncome: income.investmentIncome,
+          ruleset: input.federalRuleset
+        });
+
+  const additionalMedicareTax =
+    filingStatus === null
+      ? null
+      : computeAdditionalMedicareTax({
+          filingStatus,
+          incomes: input.incomes,
+          selfEmploymentEarnings: selfEmploymentComputation.taxableEarnings,
+          ruleset: input.federalRuleset
+        });
+  const netInvestmentIncomeTax =
+    filingStatus === null
+      ? null
+      : computeNetInvestmentIncomeTax({
+          filingStatus,
+          income,
+          adjustedGrossIncome,
+          ruleset: input.federalRuleset
+        });
+
+  const federalTax = toDollars(
+    subtractMoney(
+      addMoney(
+        toMoney(federalIncomeTax),
+        toMoney(selfEmploymentComputation.details?.total ?? 0),
+        toMoney(additionalMedicareTax?.tax ?? 0),
+        toMoney(netInvestmentIncomeTax?.tax ?? 0)
+      ),
+      toMoney(childTaxCredit?.nonrefundablePortion ?? 0)
+    )
+  );
+  // Additional Medicare Tax withheld by employers counts as federal income tax
+  // withholding (Form 1040 line 25c). Lines 25d and 26 are whole dollars.
+  const federalWithholding = toDollars(
+    roundToWholeDollars(
+      addMoney(
+        sumMoney(input.incomes.map((income) => toMoney(income.taxWithheldFederal ?? 0))),
+        toMoney(additionalMedicareTax?.additionalMedicareTaxWithheld ?? 0)
+      )
+    )
+  );
+  const stateWithholding = stateModule.sumWithholding(input.incomes, input.stateRuleset);
   const federal =
     filingStatus === null
       ? {
@@ -345,7 +1071,7 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
           reasonCode: "MISSING_FILING_STATUS",
           reason: "Federal income tax requires a filing status.",
           taxableIncome: null,
-          withholdings: null,
+          withholdings: federalWithholding,
           effectiveRate: null
         }
       : {
@@ -354,24 +1080,45 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
           reasonCode: null,
           reason: null,
           taxableIncome: taxableIncomeFederal,
-          withholdings: 0,
+          withholdings: federalWithholding,
           effectiveRate: grossIncome > 0 ? roundCurrency(federalTax / grossIncome) : null
         };
 
-  const stateTax =
-    filingStatus === null || !input.stateRuleset.computable || !input.stateRuleset.brackets
+  // Nonresidents are out of scope, including reciprocity-state residents whose
+  // wages are taxed only by their home state.
+  const stateComputation =
+    filingStatus === null ||
+    !input.stateRuleset.computable ||
+    input.profile.residentState !== input.stateRuleset.stateCode
       ? null
-      : computeBracketTax(taxableIncomeFederal, input.stateRuleset.brackets[filingStatus]);
+      : computeStateTax(stateModule, {
+          filingStatus,
+          profile: input.profile,
+          incomes: input.incomes,
+          deductions: input.deductions,
+          transactions: categorizedTransactions,
+          expenseTransactions: income.hasScheduleC
+            ? categorizedTransactions.filter((transaction) => detectDeductibleExpense(transaction))
+            : [],
+          businessDeductions: income.hasScheduleC ? explicitDeductions : [],
+          income,
+          capitalLossLimit,
+          adjustedGrossIncome,
+          federalTaxableIncome: taxableIncomeFederal,
+          selfEmploymentTaxDeduction: selfEmploymentComputation.deduction,
+          ruleset: input.stateRuleset
+        });
+  const stateTax = stateComputation?.tax ?? null;
   const state =
-    input.stateRuleset.computable && stateTax !== null
-        ? {
+    stateComputation !== null
+      ? {
           status: "COMPUTED" as const,
-          tax: stateTax,
+          tax: stateComputation.tax,
           reasonCode: null,
           reason: null,
-          taxableIncome: taxableIncomeFederal,
-          withholdings: 0,
-          effectiveRate: grossIncome > 0 ? roundCurrency(stateTax / grossIncome) : null
+          taxableIncome: stateComputation.taxableIncome,
+          withholdings: stateWithholding,
+          effectiveRate: grossIncome > 0 ? roundCurrency(stateComputation.tax / grossIncome) : null
         }
       : {
           status:
@@ -385,7 +1132,7 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
               ? scopeContext.scope.reasons.join(" ")
               : input.stateRuleset.staleness?.reason ?? "State ruleset is not computable.",
           taxableIncome: null,
-          withholdings: null,
+          withholdings: stateWithholding,
           effectiveRate: null
         };
 
@@ -393,15 +1140,92 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
   if (selectedDeduction.assumption) {
     assumptions.push(selectedDeduction.assumption);
   }
-  if (input.stateRuleset.computable && input.profile.residentState === "ND") {
+  if (itemizedDeductions && input.profile.itemizedDeductionAmount) {
     assumptions.push({
-      code: "ND_2026_RATE_SCHEDULE_APPLIED",
+      code: "ITEMIZED_AMOUNT_REPLACED_BY_SCHEDULE_A",
       description:
-        "North Dakota 2026 state tax uses the official 2026 ND-1ES rate schedule. ND-specific additions, subtractions, and credits still follow the currently modeled 2025 instruction surface where separately supported.",
+        "Itemized deductions were built from Schedule A deduction items, so the single itemized amount on the profile was ignored.",
+      impactLevel: "low",
+      userActionNeeded: false
+    });
+  }
+  if (selectedDeduction.label === "Itemized deduction" && (itemizedDeductions?.mortgageInterest ?? 0) > 0) {
+    assumptions.push({
+      code: "MORTGAGE_INTEREST_FULLY_DEDUCTIBLE",
+      description:
+        "Home mortgage interest was deducted in full, assuming the acquisition debt is within the $750,000 limit.",
       impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+  if (dependents.childrenAssumed) {
+    assumptions.push({
+      code: "DEPENDENTS_ASSUMED_QUALIFYING_CHILDREN",
+      description:
+        "All dependents were treated as qualifying children for the Child Tax Credit because the number of qualifying children was not provided.",
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+  if (filingStatus !== null && input.profile.dependentsCount > 0 && childTaxCredit === null) {
+    assumptions.push({
+      code: "CHILD_TAX_CREDIT_NOT_APPLIED",
+      description: `Federal ruleset ${input.federalRuleset.id} does not model the Child Tax Credit or the Credit for Other Dependents.`,
+      impactLevel: "high",
+      userActionNeeded: false
+    });
+  }
+  if (
+    filingStatus !== null &&
+    !input.federalRuleset.capitalGains &&
+    income.qualifiedDividends + income.shortTermCapitalGain + income.longTermCapitalGain !== 0
+  ) {
+    assumptions.push({
+      code: "PREFERENTIAL_RATES_NOT_APPLIED",
+      description: `Federal ruleset ${input.federalRuleset.id} does not model qualified dividend and capital gain rates, so they were taxed as ordinary income and capital losses were not deducted.`,
+      impactLevel: "high",
+      userActionNeeded: false
+    });
+  }
+  if (
+    filingStatus !== null &&
+    !input.federalRuleset.netInvestmentIncomeTax &&
+    income.interestIncome + income.ordinaryDividends + income.capitalGainOrLoss > 0
+  ) {
+    assumptions.push({
+      code: "NET_INVESTMENT_INCOME_TAX_NOT_APPLIED",
+      description: `Federal ruleset ${input.federalRuleset.id} does not model the Net Investment Income Tax, so no Form 8960 tax was added.`,
+      impactLevel: "medium",
+      userActionNeeded: false
+    });
+  }
+  if (!income.hasScheduleC && claimedBusinessExpenses > 0) {
+    assumptions.push({
+      code: "BUSINESS_EXPENSES_WITHOUT_SCHEDULE_C",
+      description: `Business expenses (${claimedBusinessExpenses}) were not deducted because there are no Schedule C receipts; expenses such as meals or software are not deductible against W-2 wages.`,
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+  if (adjustmentsToIncome > 0) {
+    assumptions.push({
+      code: "ADJUSTMENT_LIMITS_NOT_CHECKED",
+      description: `Adjustments to income (${adjustmentsToIncome}) for SEP, IRA and HSA contributions were deducted as entered; contribution limits and the IRA deduction phase-out were not checked.`,
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+  if (input.federalRuleset.capitalGains && income.capitalLossCarryover > 0) {
+    assumptions.push({
+      code: "CAPITAL_LOSS_CARRYOVER",
+      description: `Net capital losses above the annual limit (${income.capitalLossCarryover}) carry over to the next tax year and were not deducted.`,
+      impactLevel: "low",
       userActionNeeded: false
     });
   }
+  assumptions.push(
+    ...stateModule.buildAssumptions(input.profile, input.incomes, input.stateRuleset, stateComputation)
+  );
 
   const selfEmploymentTaxEstimateRange =
     selfEmploymentComputation.estimateRange ??
@@ -412,6 +1236,27 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
     ...buildRiskFlags(scopeContext.scope, input.incomes, categorizedTransactions, input.stateRuleset)
   ];
 
+  const receiptsFlag = buildScheduleCReceiptsRiskFlag(income);
+  if (receiptsFlag) {
+    riskFlags.push(receiptsFlag);
+  }
+
+  riskFlags.push(...stateModule.buildRiskFlags(input.incomes, input.stateRuleset));
+
+  const qbiFlag =
+    filingStatus === null ? null : buildQualifiedBusinessIncomeRiskFlag(qbiDeduction, filingStatus, input.federalRuleset);
+  if (qbiFlag) {
+    riskFlags.push(qbiFlag);
+  }
+
+  const earnedIncomeCreditFlag = buildEarnedIncomeCreditRiskFlag(
+    earnedIncomeCredit,
+    input.incomes.some((income) => income.type === "OTHER_TAXABLE")
+  );
+  if (earnedIncomeCreditFlag) {
+    riskFlags.push(earnedIncomeCreditFlag);
+  }
+
   if (selfEmploymentComputation.hasSelfEmploymentIncome && (selfEmploymentComputation.details?.total ?? 0) > 0) {
     riskFlags.push({
       code: "ESTIMATED_PAYMENTS_RECOMMENDED",
@@ -429,57 +1274,131 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
     input.stateRuleset.computable
   );
 
-  const federalWithholding = roundCurrency(
-    input.incomes.reduce((sum, income) => sum + (income.taxWithheldFederal ?? 0), 0)
-  );
-  const stateWithholding = roundCurrency(
-    input.incomes.reduce((sum, income) => sum + (income.taxWithheldState ?? 0), 0)
+  const estimatedPaymentsTotal = toDollars(
+    roundToWholeDollars(sumMoney(input.estimatedPayments.map((payment) => toMoney(payment.amount))))
   );
-  const estimatedPaymentsTotal = roundCurrency(
-    input.estimatedPayments.reduce((sum, payment) => sum + payment.amount, 0)
+  const additionalChildTaxCredit = childTaxCredit?.refundablePortion ?? 0;
+  const earnedIncomeCreditAmount = earnedIncomeCredit?.credit ?? 0;
+  const federalBalanceDue = toDollars(
+    subtractMoney(
+      toMoney(federalTax),
+      addMoney(
+        toMoney(additionalChildTaxCredit),
+        toMoney(earnedIncomeCreditAmount),
+        toMoney(federalWithholding),
+        toMoney(estimatedPaymentsTotal)
+      )
+    )
   );
-  const federalBalanceDue = roundCurrency(federalTax - federalWithholding - estimatedPaymentsTotal);
-  const effectiveStateTax = stateTax;
-  const stateBalanceDue = effectiveStateTax === null ? null : roundCurrency(effectiveStateTax - stateWithholding);
-  const totalBalanceDue = stateBalanceDue === null ? null : roundCurrency(federalBalanceDue + stateBalanceDue);
-  const monthlySetAsideRecommendation = roundCurrency(
-    Math.max(0, (totalBalanceDue ?? federalBalanceDue) / 12)
+  const stateBalanceDue =
+    stateTax === null ? null : toDollars(subtractMoney(toMoney(stateTax), toMoney(stateWithholding)));
+  const totalBalanceDue =
+    stateBalanceDue === null ? null : toDollars(addMoney(toMoney(federalBalanceDue), toMoney(stateBalanceDue)));
+  const monthlySetAsideRecommendation = toDollars(
+    maxMoney(ZERO_MONEY, multiplyMoney(toMoney(totalBalanceDue ?? federalBalanceDue), 1 / 12))
   );
-  const quarterlyEstimatedPaymentRecommendation = roundCurrency(
-    Math.max(0, (totalBalanceDue ?? federalBalanceDue) / 4)
-  );
-  const estimatedPaymentPlan = buildEstimatedPaymentPlan(
-    input.profile.taxYear,
-    Math.max(0, totalBalanceDue ?? federalBalanceDue)
+  const currentYearTax = toDollars(
+    subtractMoney(toMoney(federalTax), addMoney(toMoney(additionalChildTaxCredit), toMoney(earnedIncomeCreditAmount)))
   );
+  const underpaymentPenalty =
+    filingStatus === null
+      ? null
+      : computeUnderpaymentPenalty({
+          filingStatus,
+          currentYearTax,
+          withholding: federalWithholding,
+          estimatedPayments: input.estimatedPayments,
+          priorYear: input.priorYear,
+          annualizedPeriods: annualize ? computeAnnualizedPeriods(input, categorizedTransactions) : null,
+          ruleset: input.federalRuleset
+        });
+  const estimatedPaymentPlanOptions =
+    filingStatus === null
+      ? []
+      : buildEstimatedPaymentPlans({
+          taxYear: input.profile.taxYear,
+          filingStatus,
+          currentYearTax,
+          withholding: federalWithholding,
+          estimatedPayments: estimatedPaymentsTotal,
+          stateBalanceDue,
+          priorYear: input.priorYear,
+          annualizedInstallments: underpaymentPenalty?.annualizedInstallments,
+          ruleset: input.federalRuleset
+        });
+  const recommendedPlan = estimatedPaymentPlanOptions.find((option) => option.recommended);
+  const estimatedPaymentPlan = recommendedPlan?.installments ?? [];
+  const quarterlyEstimatedPaymentRecommendation = estimatedPaymentPlan[0]?.amount ?? 0;
+  if (recommendedPlan && estimatedPaymentPlanOptions.length > 1) {
+    assumptions.push(describeRecommendedPlan(recommendedPlan));
+  }
+  const undatedIncome = findUndatedIncome(input.incomes);
+  if (
+    annualize &&
+    underpaymentPenalty &&
+    input.federalRuleset.underpaymentPenalty?.annualizedIncomeInstallment &&
+    undatedIncome.length > 0
+  ) {
+    assumptions.push({
+      code: "ANNUALIZED_INCOME_UNDATED",
+      description: `The Schedule AI annualized income method was not used because income records (${undatedIncome.map((income) => income.label).join(", ")}) have no dates, so the period they were received in is unknown; required installments were split evenly. Seasonal 1099 income is only annualized when its receipts are entered as dated transactions.`,
+      impactLevel: "medium",
+      userActionNeeded: false
+    });
+  }
 
-  if (federalBalanceDue > Math.max(1000, grossIncome * 0.05)) {
-    riskFlags.push({
-      code: "UNDERWITHHOLDING_RISK",
-      severity: federalBalanceDue > Math.max(2500, grossIncome * 0.1) ? "high" : "medium",
-      explanation: "Current withholding and estimated payments may be too low relative to the projected federal liability.",
-      suggestedFix: "Increase withholding or make estimated payments during the year.",
-      evidence: {
-        federalBalanceDue,
-        federalWithholding,
-        estimatedPaymentsTotal
-      }
+  if (
+    estimatedPaymentPlan.length > 0 &&
+    !input.priorYear &&
+    input.federalRuleset.underpaymentPenalty?.priorYearSafeHarbor
+  ) {
+    assumptions.push({
+      code: "PRIOR_YEAR_TAX_MISSING",
+      description:
+        "The prior-year safe harbor was not considered for the estimated payment plan because prior-year AGI and tax were not provided.",
+      impactLevel: "low",
+      userActionNeeded: true
     });
   }
 
+  const underpaymentFlag = buildUnderpaymentRiskFlag(underpaymentPenalty);
+  if (underpaymentFlag) {
+    riskFlags.push(underpaymentFlag);
+  }
+
   const breakdown: TaxBreakdown = {
     federalTax,
-    stateTax: effectiveStateTax,
-    totalTax: effectiveStateTax === null ? null : roundCurrency(federalTax + effectiveStateTax),
+    stateTax,
+    totalTax: stateTax === null ? null : toDollars(addMoney(toMoney(federalTax), toMoney(stateTax))),
     taxableIncomeFederal,
-    taxableIncomeState: stateTax === null ? null : taxableIncomeFederal,
+    taxableIncomeState: stateComputation?.taxableIncome ?? null,
+    ndAdjustmentDetails: stateComputation?.adjustments ?? null,
+    ndIncomeRatio: stateComputation?.partYearAllocation?.incomeRatio ?? null,
+    ndPartYearAllocationDetails: stateComputation?.partYearAllocation ?? null,
+    ndCredits: stateComputation?.credits ?? 0,
+    ndCreditDetails: stateComputation?.creditDetails ?? null,
     grossIncome,
+    adjustedGrossIncome,
+    wages: income.wages,
+    scheduleCGrossReceipts: income.scheduleCGrossReceipts,
+    scheduleCNetProfit: income.scheduleCNetProfit,
+    otherIncome: income.otherIncome,
+    interestIncome: income.interestIncome,
+    ordinaryDividends: income.ordinaryDividends,
+    qualifiedDividends: income.qualifiedDividends,
+    capitalGainOrLoss: income.capitalGainOrLoss,
     businessExpenses,
+    adjustmentsToIncome,
+    standardDeduction,
+    itemizedDeductions: itemizedDeductions?.total ?? input.profile.itemizedDeductionAmount ?? 0,
+    itemizedDeductionDetails: itemizedDeductions,
     deductionUsed: selectedDeduction.amount,
     federalWithholding,
     stateWithholding,
     estimatedPayments: estimatedPaymentsTotal,
     federalBalanceDue,
+    underpaymentPenalty: underpaymentPenalty?.penalty ?? 0,
+    underpaymentPenaltyDetails: underpaymentPenalty,
     stateBalanceDue,
     totalBalanceDue,
     monthlySetAsideRecommendation,
@@ -487,10 +1406,37 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
     selfEmploymentTax: selfEmploymentComputation.details?.total ?? 0,
     selfEmploymentTaxDeduction: selfEmploymentComputation.deduction,
     selfEmploymentTaxDetails: selfEmploymentComputation.details,
-    selfEmploymentTaxEstimateRange
+    additionalMedicareTax: additionalMedicareTax?.tax ?? 0,
+    additionalMedicareTaxDetails: additionalMedicareTax,
+    netInvestmentIncomeTax: netInvestmentIncomeTax?.tax ?? 0,
+    netInvestmentIncomeTaxDetails: netInvestmentIncomeTax,
+    selfEmploymentTaxEstimateRange,
+    childTaxCredit: childTaxCredit?.nonrefundablePortion ?? 0,
+    additionalChildTaxCredit,
+    childTaxCreditDetails: childTaxCredit,
+    earnedIncomeCredit: earnedIncomeCreditAmount,
+    earnedIncomeCreditDetails: earnedIncomeCredit,
+    qbiDeduction: qbiDeduction?.deduction ?? 0,
+    qbiDeductionDetails: qbiDeduction,
+    preferentialRateTaxDetails: preferentialRateTax
   };
-  federal.withholdings = federalWithholding;
-  state.withholdings = stateWithholding;
+
+  // Preferential-rate income is taxed outside the ordinary schedule, so the
+  // federal bracket position is that of ordinary income only.
+  const bracketAnalysis = buildBracketAnalysis(
+    filingStatus === null
+      ? null
+      : analyzeBrackets(
+          preferentialRateTax?.ordinaryIncome ?? taxableIncomeFederal,
+          input.federalRuleset.brackets[filingStatus]
+        ),
+    stateComputation?.brackets ? analyzeBrackets(stateComputation.taxableIncome, stateComputation.brackets) : null,
+    stateComputation?.partYearAllocation?.incomeRatio ?? 1,
+    selfEmploymentComputation,
+    additionalMedicareTax,
+    income.wages,
+    input
+  );
 
   const estimateStatus =
     federal.status !== "COMPUTED" || state.status === "BLOCKED_RULESET"
@@ -511,19 +1457,27 @@ export function computeTaxEstimate(input: TaxComputationInput): TaxComputationOu
     federal,
     state,
     breakdown,
-    explanation: buildExplanation(
-      breakdown,
-      categorizedTransactions,
-      selectedDeduction.label,
-      federalTax,
-      stateTax,
-      state.status
+    explanation: assignPathNodeIds(
+      buildExplanation(
+        breakdown,
+        input,
+        income,
+        categorizedTransactions,
+        explicitDeductions,
+        selectedDeduction.label,
+        federalTax,
+        stateTax,
+        stateModule.buildExplanation(stateComputation, state.status, bracketAnalysis.state),
+        bracketAnalysis
+      )
     ),
     assumptions,
     completeness,
     confidence,
     riskFlags,
     estimatedPaymentPlan,
+    estimatedPaymentPlanOptions,
+    bracketAnalysis,
     categorizedTransactions,
     rulesets: {
       federalVersion: input.federalRuleset.id,
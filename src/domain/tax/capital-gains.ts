@@ -0,0 +1,70 @@
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import { computeBracketTax } from "./brackets.js";
+import type { PreferentialRateTaxDetails } from "./types.js";
+
+// Qualified Dividends and Capital Gain Tax Worksheet (Form 1040 line 16).
+export function computePreferentialRateTax(input: {
+  filingStatus: FilingStatusCode;
+  taxableIncome: number;
+  qualifiedDividends: number;
+  netCapitalGain: number;
+  ruleset: FederalRuleset;
+}): PreferentialRateTaxDetails | null {
+  const rules = input.ruleset.capitalGains;
+  if (!rules || input.qualifiedDividends + input.netCapitalGain <= 0) {
+    return null;
+  }
+
+  const brackets = input.ruleset.brackets[input.filingStatus];
+  const taxableIncome = maxMoney(ZERO_MONEY, toMoney(input.taxableIncome));
+  const preferentialIncome = minMoney(
+    taxableIncome,
+    addMoney(toMoney(input.qualifiedDividends), toMoney(input.netCapitalGain))
+  );
+  const ordinaryIncome = subtractMoney(taxableIncome, preferentialIncome);
+
+  // Preferential income stacks on top of ordinary income, so each rate band
+  // only holds what ordinary income has not already used up.
+  const zeroRateCeiling = minMoney(taxableIncome, toMoney(rules.zeroRateMaximum[input.filingStatus]));
+  const taxedAtZeroRate = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(zeroRateCeiling, minMoney(ordinaryIncome, zeroRateCeiling))
+  );
+  const fifteenRateCeiling = minMoney(taxableIncome, toMoney(rules.fifteenRateMaximum[input.filingStatus]));
+  const taxedAtFifteenRate = minMoney(
+    subtractMoney(preferentialIncome, taxedAtZeroRate),
+    maxMoney(ZERO_MONEY, subtractMoney(fifteenRateCeiling, addMoney(ordinaryIncome, taxedAtZeroRate)))
+  );
+  const taxedAtTwentyRate = subtractMoney(preferentialIncome, addMoney(taxedAtZeroRate, taxedAtFifteenRate));
+
+  const ordinaryIncomeTax = toMoney(computeBracketTax(toDollars(ordinaryIncome), brackets));
+  const preferentialTax = addMoney(
+    multiplyMoney(taxedAtFifteenRate, rules.fifteenRate),
+    multiplyMoney(taxedAtTwentyRate, rules.twentyRate)
+  );
+  const regularTax = toMoney(computeBracketTax(toDollars(taxableIncome), brackets));
+
+  return {
+    taxableIncome: toDollars(taxableIncome),
+    qualifiedDividends: input.qualifiedDividends,
+    netCapitalGain: input.netCapitalGain,
+    ordinaryIncome: toDollars(ordinaryIncome),
+    taxedAtZeroRate: toDollars(taxedAtZeroRate),
+    taxedAtFifteenRate: toDollars(taxedAtFifteenRate),
+    taxedAtTwentyRate: toDollars(taxedAtTwentyRate),
+    ordinaryIncomeTax: toDollars(ordinaryIncomeTax),
+    preferentialTax: toDollars(preferentialTax),
+    regularTax: toDollars(regularTax),
+    tax: toDollars(minMoney(addMoney(ordinaryIncomeTax, preferentialTax), regularTax))
+  };
+}
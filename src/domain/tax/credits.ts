@@ -0,0 +1,212 @@
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type { ChildTaxCreditDetails, EarnedIncomeCreditDetails, RiskFlagInput, TaxProfileInput } from "./types.js";
+
+export const CHILD_TAX_CREDIT = "Child Tax Credit";
+export const CREDIT_FOR_OTHER_DEPENDENTS = "Credit for Other Dependents";
+export const EARNED_INCOME_CREDIT = "EITC";
+
+export function resolveDependents(profile: TaxProfileInput): {
+  qualifyingChildren: number;
+  otherDependents: number;
+  childrenAssumed: boolean;
+} {
+  const dependentsCount = Math.max(0, profile.dependentsCount);
+
+  if (profile.qualifyingChildrenCount === null || profile.qualifyingChildrenCount === undefined) {
+    return {
+      qualifyingChildren: dependentsCount,
+      otherDependents: 0,
+      childrenAssumed: dependentsCount > 0
+    };
+  }
+
+  const qualifyingChildren = Math.max(0, profile.qualifyingChildrenCount);
+  return {
+    qualifyingChildren,
+    otherDependents: Math.max(0, dependentsCount - qualifyingChildren),
+    childrenAssumed: false
+  };
+}
+
+export function computeChildTaxCredit(input: {
+  filingStatus: FilingStatusCode;
+  qualifyingChildren: number;
+  otherDependents: number;
+  modifiedAdjustedGrossIncome: number;
+  incomeTaxBeforeCredits: number;
+  earnedIncome: number;
+  ruleset: FederalRuleset;
+}): ChildTaxCreditDetails | null {
+  const rules = input.ruleset.childTaxCredit;
+  const childCreditSupported = input.ruleset.supportedCredits.includes(CHILD_TAX_CREDIT);
+  const otherDependentCreditSupported = input.ruleset.supportedCredits.includes(CREDIT_FOR_OTHER_DEPENDENTS);
+
+  if (!rules || (!childCreditSupported && !otherDependentCreditSupported)) {
+    return null;
+  }
+
+  const qualifyingChildren = childCreditSupported ? input.qualifyingChildren : 0;
+  const otherDependents = otherDependentCreditSupported ? input.otherDependents : 0;
+  if (qualifyingChildren === 0 && otherDependents === 0) {
+    return null;
+  }
+
+  const tentativeCredit = addMoney(
+    multiplyMoney(toMoney(rules.amountPerQualifyingChild), qualifyingChildren),
+    multiplyMoney(toMoney(rules.amountPerOtherDependent), otherDependents)
+  );
+  const excessIncome = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(toMoney(input.modifiedAdjustedGrossIncome), toMoney(rules.phaseOutThreshold[input.filingStatus]))
+  );
+  const phaseOutReduction = multiplyMoney(
+    toMoney(rules.phaseOutReductionPerIncrement),
+    Math.ceil(excessIncome / toMoney(rules.phaseOutIncrement))
+  );
+  const allowedCredit = maxMoney(ZERO_MONEY, subtractMoney(tentativeCredit, phaseOutReduction));
+  const nonrefundablePortion = minMoney(allowedCredit, maxMoney(ZERO_MONEY, toMoney(input.incomeTaxBeforeCredits)));
+
+  // Only the unused portion is refundable, capped per qualifying child and by
+  // the earned income formula from Schedule 8812 Part II-A.
+  const unusedCredit = subtractMoney(allowedCredit, nonrefundablePortion);
+  const refundableCap = multiplyMoney(toMoney(rules.refundableLimitPerQualifyingChild), qualifyingChildren);
+  const earnedIncomeLimit = multiplyMoney(
+    maxMoney(ZERO_MONEY, subtractMoney(toMoney(input.earnedIncome), toMoney(rules.refundableEarnedIncomeThreshold))),
+    rules.refundableEarnedIncomeRate
+  );
+  const refundablePortion = minMoney(unusedCredit, refundableCap, earnedIncomeLimit);
+
+  return {
+    qualifyingChildren,
+    otherDependents,
+    tentativeCredit: toDollars(tentativeCredit),
+    phaseOutReduction: toDollars(phaseOutReduction),
+    allowedCredit: toDollars(allowedCredit),
+    nonrefundablePortion: toDollars(nonrefundablePortion),
+    refundablePortion: toDollars(refundablePortion)
+  };
+}
+
+export function computeEarnedIncomeCredit(input: {
+  filingStatus: FilingStatusCode;
+  qualifyingChildren: number;
+  earnedIncome: number;
+  adjustedGrossIncome: number;
+  investmentIncome: number;
+  ruleset: FederalRuleset;
+}): EarnedIncomeCreditDetails | null {
+  const rules = input.ruleset.earnedIncomeCredit;
+  if (!rules || !input.ruleset.supportedCredits.includes(EARNED_INCOME_CREDIT) || input.earnedIncome <= 0) {
+    return null;
+  }
+
+  const schedules = [...rules.schedules].sort((left, right) => left.qualifyingChildren - right.qualifyingChildren);
+  const schedule =
+    [...schedules].reverse().find((item) => item.qualifyingChildren <= input.qualifyingChildren) ?? schedules[0];
+  if (!schedule) {
+    return null;
+  }
+
+  const base = {
+    qualifyingChildren: schedule.qualifyingChildren,
+    earnedIncome: input.earnedIncome,
+    adjustedGrossIncome: input.adjustedGrossIncome,
+    investmentIncome: input.investmentIncome
+  };
+
+  if (input.filingStatus === "MARRIED_FILING_SEPARATELY") {
+    return {
+      ...base,
+      phaseInCredit: 0,
+      phaseOutReduction: 0,
+      credit: 0,
+      disqualificationReason: "MARRIED_FILING_SEPARATELY"
+    };
+  }
+
+  if (input.investmentIncome > rules.investmentIncomeLimit) {
+    return {
+      ...base,
+      phaseInCredit: 0,
+      phaseOutReduction: 0,
+      credit: 0,
+      disqualificationReason: "INVESTMENT_INCOME_LIMIT"
+    };
+  }
+
+  const threshold = schedule.phaseOutThreshold[input.filingStatus];
+  const creditFor = (amount: number) => {
+    const phaseIn = minMoney(multiplyMoney(toMoney(amount), schedule.phaseInRate), toMoney(schedule.maximumCredit));
+    const reduction = multiplyMoney(
+      maxMoney(ZERO_MONEY, subtractMoney(toMoney(amount), toMoney(threshold))),
+      schedule.phaseOutRate
+    );
+    return { phaseIn, reduction, credit: maxMoney(ZERO_MONEY, subtractMoney(phaseIn, reduction)) };
+  };
+
+  // The credit is computed on earned income and, once AGI passes the phase-out
+  // threshold, recomputed on AGI; the smaller of the two is allowed.
+  const byEarnedIncome = creditFor(input.earnedIncome);
+  const byAdjustedGrossIncome =
+    input.adjustedGrossIncome !== input.earnedIncome && input.adjustedGrossIncome > threshold
+      ? creditFor(input.adjustedGrossIncome)
+      : null;
+  const selected =
+    byAdjustedGrossIncome !== null && byAdjustedGrossIncome.credit < byEarnedIncome.credit
+      ? byAdjustedGrossIncome
+      : byEarnedIncome;
+
+  return {
+    ...base,
+    phaseInCredit: toDollars(selected.phaseIn),
+    phaseOutReduction: toDollars(selected.reduction),
+    credit: toDollars(selected.credit),
+    disqualificationReason: null
+  };
+}
+
+export function buildEarnedIncomeCreditRiskFlag(
+  details: EarnedIncomeCreditDetails | null,
+  hasUnclassifiedOtherIncome: boolean
+): RiskFlagInput | null {
+  if (!details || (details.credit <= 0 && details.disqualificationReason !== "MARRIED_FILING_SEPARATELY")) {
+    return null;
+  }
+
+  const unverifiedTests =
+    details.qualifyingChildren > 0
+      ? ["QUALIFYING_CHILD_RESIDENCY", "QUALIFYING_CHILD_AGE", "QUALIFYING_CHILD_RELATIONSHIP"]
+      : ["TAXPAYER_AGE_25_TO_64", "NOT_CLAIMED_AS_DEPENDENT"];
+  if (hasUnclassifiedOtherIncome) {
+    unverifiedTests.push("INVESTMENT_INCOME_LIMIT");
+  }
+  if (details.disqualificationReason === "MARRIED_FILING_SEPARATELY") {
+    unverifiedTests.push("SEPARATED_SPOUSE_EXCEPTION");
+  }
+
+  return {
+    code: "EITC_ELIGIBILITY_UNVERIFIED",
+    severity: details.credit > 1000 ? "high" : "medium",
+    explanation:
+      details.disqualificationReason === "MARRIED_FILING_SEPARATELY"
+        ? "The Earned Income Tax Credit was not applied for a married-filing-separately return, but separated spouses may still qualify."
+        : "The Earned Income Tax Credit depends on eligibility tests that are not collected yet.",
+    suggestedFix:
+      "Confirm that each qualifying child lived with you for more than half the year and meets the age and relationship tests, and review investment income.",
+    evidence: {
+      credit: details.credit,
+      qualifyingChildren: details.qualifyingChildren,
+      unverifiedTests
+    }
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  addMoney,
+  allocateMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type {
+  AnnualizedInstallment,
+  EstimatedPaymentPlanBasis,
+  EstimatedPaymentPlanOption,
+  PriorYearLiabilityInput
+} from "./types.js";
+import { computePriorYearRequiredPayment } from "./underpayment.js";
+
+function installmentDueDates(taxYear: number, ruleset: FederalRuleset): string[] {
+  return (
+    ruleset.underpaymentPenalty?.installmentDueDates ?? [
+      `${taxYear}-04-15`,
+      `${taxYear}-06-15`,
+      `${taxYear}-09-15`,
+      `${taxYear + 1}-01-15`
+    ]
+  );
+}
+
+// Installments differ by at most a cent so they add up to the remaining
+// amount exactly.
+function buildOption(
+  basis: EstimatedPaymentPlanBasis,
+  requiredAnnualPayment: Money,
+  federalCredits: Money,
+  stateBalanceDue: Money,
+  dueDates: string[]
+): Omit<EstimatedPaymentPlanOption, "recommended"> {
+  const remainingAmount = addMoney(
+    maxMoney(ZERO_MONEY, subtractMoney(requiredAnnualPayment, federalCredits)),
+    stateBalanceDue
+  );
+  const installments = allocateMoney(remainingAmount, dueDates.length);
+
+  return {
+    basis,
+    requiredAnnualPayment: toDollars(requiredAnnualPayment),
+    remainingAmount: toDollars(remainingAmount),
+    installments:
+      remainingAmount > 0
+        ? dueDates.map((dueDate, index) => ({ dueDate, amount: toDollars(installments[index]!), basis }))
+        : []
+  };
+}
+
+// Withholding and payments already made cover the earliest annualized
+// installments first, so only the later, larger periods are left to pay.
+function buildAnnualizedOption(
+  annualizedInstallments: AnnualizedInstallment[],
+  federalCredits: Money,
+  stateBalanceDue: Money,
+  dueDates: string[]
+): Omit<EstimatedPaymentPlanOption, "recommended"> {
+  let credits = federalCredits;
+  const stateInstallments = allocateMoney(stateBalanceDue, dueDates.length);
+  const amounts = dueDates.map((_, index) => {
+    const required = toMoney(annualizedInstallments[index]?.requiredInstallment ?? 0);
+    const covered = minMoney(credits, required);
+    credits = subtractMoney(credits, covered);
+    return addMoney(subtractMoney(required, covered), stateInstallments[index]!);
+  });
+  const remainingAmount = sumMoney(amounts);
+
+  return {
+    basis: "ANNUALIZED_INCOME",
+    requiredAnnualPayment: toDollars(
+      sumMoney(annualizedInstallments.map((installment) => toMoney(installment.requiredInstallment)))
+    ),
+    remainingAmount: toDollars(remainingAmount),
+    installments:
+      remainingAmount > 0
+        ? dueDates.map((dueDate, index) => ({
+            dueDate,
+            amount: toDollars(amounts[index]!),
+            basis: "ANNUALIZED_INCOME" as const
+          }))
+        : []
+  };
+}
+
+// The federal target is either 90% of the projected current-year tax, the
+// prior-year safe harbor or the Schedule AI installments; the remaining state
+// balance is spread on top of it.
+export function buildEstimatedPaymentPlans(input: {
+  taxYear: number;
+  filingStatus: FilingStatusCode;
+  currentYearTax: number;
+  withholding: number;
+  estimatedPayments: number;
+  stateBalanceDue: number | null;
+  priorYear?: PriorYearLiabilityInput | null;
+  annualizedInstallments?: AnnualizedInstallment[];
+  ruleset: FederalRuleset;
+}): EstimatedPaymentPlanOption[] {
+  const dueDates = installmentDueDates(input.taxYear, input.ruleset);
+  const federalCredits = addMoney(toMoney(input.withholding), toMoney(input.estimatedPayments));
+  const stateBalanceDue = maxMoney(ZERO_MONEY, toMoney(input.stateBalanceDue ?? 0));
+  const percentage = input.ruleset.underpaymentPenalty?.requiredCurrentYearPercentage ?? 0.9;
+
+  const options = [
+    buildOption(
+      "CURRENT_YEAR_90",
+      multiplyMoney(maxMoney(ZERO_MONEY, toMoney(input.currentYearTax)), percentage),
+      federalCredits,
+      stateBalanceDue,
+      dueDates
+    )
+  ];
+  const priorYearRequiredPayment = computePriorYearRequiredPayment(input.priorYear, input.filingStatus, input.ruleset);
+  if (priorYearRequiredPayment !== null) {
+    const required = toMoney(priorYearRequiredPayment);
+    options.push(buildOption("PRIOR_YEAR_SAFE_HARBOR", required, federalCredits, stateBalanceDue, dueDates));
+  }
+
+  if (input.annualizedInstallments && input.annualizedInstallments.length === dueDates.length) {
+    options.push(buildAnnualizedOption(input.annualizedInstallments, federalCredits, stateBalanceDue, dueDates));
+  }
+
+  // Schedule AI usually needs the same total as the regular plan, so ties go
+  // to whichever option asks for less at the next due date.
+  const recommended = options.reduce((lowest, option) =>
+    option.remainingAmount < lowest.remainingAmount ||
+    (option.remainingAmount === lowest.remainingAmount &&
+      (option.installments[0]?.amount ?? 0) < (lowest.installments[0]?.amount ?? 0))
+      ? option
+      : lowest
+  );
+  return options.map((option) => ({ ...option, recommended: option === recommended }));
+}
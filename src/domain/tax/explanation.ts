@@ -0,0 +1,206 @@
+import type { ExplanationFormat, ExplanationNode } from "./types.js";
+
+// Builders give each node a key that is unique among its siblings, such as
+// "federal-taxable-income" or "income:<IncomeSource id>". The node id is the
+// path of keys from the root, so the same calculation step keeps its id across
+// runs and can be deep-linked or diffed. A repeated key gets a "~2" suffix.
+export function assignPathNodeIds(node: ExplanationNode, parentId?: string): ExplanationNode {
+  const nodeId = parentId === undefined ? node.nodeId : `${parentId}/${node.nodeId}`;
+  const seen = new Map<string, number>();
+
+  return {
+    ...node,
+    nodeId,
+    children: node.children.map((child) => {
+      const occurrence = (seen.get(child.nodeId) ?? 0) + 1;
+      seen.set(child.nodeId, occurrence);
+      const key = occurrence === 1 ? child.nodeId : `${child.nodeId}~${occurrence}`;
+      return assignPathNodeIds({ ...child, nodeId: key }, nodeId);
+    })
+  };
+}
+
+export function findExplanationNode(root: ExplanationNode, nodeId: string): ExplanationNode | null {
+  if (root.nodeId === nodeId) {
+    return root;
+  }
+
+  for (const child of root.children) {
+    const found = nodeId.startsWith(child.nodeId) ? findExplanationNode(child, nodeId) : null;
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "none";
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function describeValues(values: Record<string, unknown>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key} = ${formatValue(value)}`)
+    .join(", ");
+}
+
+// Label, formula, inputs and outputs, one per line; empty lines are skipped.
+function describeNode(node: ExplanationNode): string[] {
+  const inputs = describeValues(node.inputs);
+  const outputs = describeValues(node.outputs);
+  return [node.label, node.formula, inputs ? `in: ${inputs}` : "", outputs ? `out: ${outputs}` : ""].filter(Boolean);
+}
+
+function walk(node: ExplanationNode, visit: (node: ExplanationNode, depth: number) => void, depth = 0) {
+  visit(node, depth);
+  for (const child of node.children) {
+    walk(child, visit, depth + 1);
+  }
+}
+
+function renderMermaid(root: ExplanationNode): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, "#amp;").replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+  const keys = new Map<string, string>();
+  const lines = ["flowchart TD"];
+
+  walk(root, (node) => {
+    const key = `n${keys.size}`;
+    keys.set(node.nodeId, key);
+    lines.push(`  ${key}["${describeNode(node).map(escape).join("<br/>")}"]`);
+  });
+  walk(root, (node) => {
+    for (const child of node.children) {
+      lines.push(`  ${keys.get(node.nodeId)} --> ${keys.get(child.nodeId)}`);
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+function renderDot(root: ExplanationNode): string {
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const quote = (value: string) => `"${escape(value)}"`;
+  const lines = ["digraph explanation {", "  rankdir=LR;", '  node [shape=box, fontname="Helvetica"];'];
+
+  // "\l" ends a left-aligned line in a DOT label.
+  walk(root, (node) => {
+    const label = describeNode(node)
+      .map((line) => `${escape(line)}\\l`)
+      .join("");
+    lines.push(`  ${quote(node.nodeId)} [label="${label}"];`);
+  });
+  walk(root, (node) => {
+    for (const child of node.children) {
+      lines.push(`  ${quote(node.nodeId)} -> ${quote(child.nodeId)};`);
+    }
+  });
+  lines.push("}");
+
+  return `${lines.join("\n")}\n`;
+}
+
+function renderText(root: ExplanationNode): string {
+  const lines: string[] = [];
+  walk(root, (node, depth) => {
+    const [label, ...details] = describeNode(node);
+    const indent = "  ".repeat(depth);
+    lines.push(`${indent}${label}`, ...details.map((detail) => `${indent}  ${detail}`));
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtmlValues(title: string, values: Record<string, unknown>): string {
+  const rows = Object.entries(values)
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(formatValue(value))}</td></tr>`)
+    .join("");
+  return rows ? `<table><caption>${title}</caption>${rows}</table>` : "";
+}
+
+function renderHtmlNode(node: ExplanationNode, depth: number): string {
+  const refs = [
+    ["Transactions", node.transactionRefs],
+    ["Income sources", node.incomeSourceRefs ?? []],
+    ["Estimated payments", node.estimatedPaymentRefs ?? []]
+  ] as const;
+  const refList = refs
+    .filter(([, ids]) => ids.length > 0)
+    .map(([title, ids]) => `<p class="refs">${title}: ${ids.map(escapeHtml).join(", ")}</p>`)
+    .join("");
+
+  return [
+    `<details id="${escapeHtml(node.nodeId)}"${depth < 2 ? " open" : ""}>`,
+    `<summary>${escapeHtml(node.label)}</summary>`,
+    `<p class="formula">${escapeHtml(node.formula)}</p>`,
+    renderHtmlValues("Inputs", node.inputs),
+    renderHtmlValues("Outputs", node.outputs),
+    refList,
+    node.children.map((child) => renderHtmlNode(child, depth + 1)).join(""),
+    "</details>"
+  ].join("");
+}
+
+// One file with inline styles and script so it can be saved or attached as is.
+// Nodes are native <details> elements, so collapsing works without script;
+// each node's id is its node id, which makes it linkable with #<node id>.
+function renderHtml(root: ExplanationNode, title: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2933; }
+details { margin: 0.25rem 0 0.25rem 1.25rem; border-left: 2px solid #d9e2ec; padding-left: 0.75rem; }
+summary { cursor: pointer; font-weight: bold; }
+.formula { font-family: Menlo, Consolas, monospace; color: #52606d; margin: 0.25rem 0; }
+table { border-collapse: collapse; margin: 0.25rem 0; font-size: 0.9rem; }
+caption { text-align: left; font-style: italic; }
+th, td { border: 1px solid #d9e2ec; padding: 0.15rem 0.5rem; text-align: left; }
+.refs { font-size: 0.8rem; color: #7b8794; margin: 0.25rem 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p><button type="button" data-open="true">Expand all</button> <button type="button" data-open="false">Collapse all</button></p>
+${renderHtmlNode(root, 0)}
+<script>
+document.querySelectorAll("button[data-open]").forEach(function (button) {
+  button.addEventListener("click", function () {
+    var open = button.getAttribute("data-open") === "true";
+    document.querySelectorAll("details").forEach(function (node) { node.open = open; });
+  });
+});
+</script>
+</body>
+</html>
+`;
+}
+
+export function renderExplanation(root: ExplanationNode, format: ExplanationFormat, title = root.label): string {
+  switch (format) {
+    case "mermaid":
+      return renderMermaid(root);
+    case "dot":
+      return renderDot(root);
+    case "html":
+      return renderHtml(root, title);
+    case "text":
+      return renderText(root);
+  }
+}
@@ -0,0 +1,319 @@
+import { addMoney, allocateMoney, multiplyMoney, subtractMoney, toDollars, toMoney } from "../../shared/money.js";
+import { computeTaxEstimate } from "./calculator.js";
+import { assignPathNodeIds } from "./explanation.js";
+import { ownershipShare } from "./income.js";
+import type {
+  ExplanationNode,
+  FilingStatusComparison,
+  FilingStatusComparisonReturn,
+  FilingStatusComparisonTotals,
+  FilingStatusRestriction,
+  TaxComputationInput,
+  TaxComputationOutput
+} from "./types.js";
+
+type Spouse = "TAXPAYER" | "SPOUSE";
+
+// Joint amounts are split with allocateMoney so both halves add up to the
+// joint amount exactly; the taxpayer's half takes any odd cent.
+function splitAmount(amount: number, share: number, spouse: Spouse): number {
+  if (share !== 0.5) {
+    return toDollars(multiplyMoney(toMoney(amount), share));
+  }
+
+  const [taxpayerHalf, spouseHalf] = allocateMoney(toMoney(amount), 2);
+  return toDollars(spouse === "TAXPAYER" ? taxpayerHalf! : spouseHalf!);
+}
+
+function scale(value: number | undefined, share: number, spouse: Spouse): number | undefined {
+  return value === undefined ? undefined : splitAmount(value, share, spouse);
+}
+
+function scaleNullable(value: number | null | undefined, share: number, spouse: Spouse): number | null | undefined {
+  return value === null || value === undefined ? value : splitAmount(value, share, spouse);
+}
+
+function addAmounts(...amounts: number[]): number {
+  return toDollars(addMoney(...amounts.map(toMoney)));
+}
+
+function subtractAmounts(amount: number, subtrahend: number): number {
+  return toDollars(subtractMoney(toMoney(amount), toMoney(subtrahend)));
+}
+
+function splitForSpouse(
+  input: TaxComputationInput,
+  spouse: Spouse,
+  deductionType: "STANDARD" | "ITEMIZED"
+): TaxComputationInput {
+  const incomes = input.incomes
+    .map((income) => ({ income, share: ownershipShare(income.owner, spouse) }))
+    .filter(({ share }) => share > 0)
+    .map(({ income, share }) => ({
+      ...income,
+      amount: splitAmount(income.amount, share, spouse),
+      qualifiedDividends: scaleNullable(income.qualifiedDividends, share, spouse),
+      taxWithheldFederal: scale(income.taxWithheldFederal, share, spouse),
+      taxWithheldState: scale(income.taxWithheldState, share, spouse),
+      taxWithheldLocal: scale(income.taxWithheldLocal, share, spouse),
+      taxWithheldMedicare: scale(income.taxWithheldMedicare, share, spouse),
+      taxWithheldSocialSecurity: scale(income.taxWithheldSocialSecurity, share, spouse),
+      ndSourceAmount: scaleNullable(income.ndSourceAmount, share, spouse)
+    }));
+  const transactions = input.transactions
+    .map((transaction) => ({ transaction, share: ownershipShare(transaction.owner, spouse) }))
+    .filter(({ share }) => share > 0)
+    .map(({ transaction, share }) => ({ ...transaction, amount: splitAmount(transaction.amount, share, spouse) }));
+  const deductions = input.deductions
+    .map((deduction) => ({ deduction, share: ownershipShare(deduction.owner, spouse) }))
+    .filter(({ share }) => share > 0)
+    .map(({ deduction, share }) => ({ ...deduction, amount: splitAmount(deduction.amount, share, spouse) }));
+  const estimatedPayments = input.estimatedPayments
+    .map((payment) => ({ payment, share: ownershipShare(payment.owner, spouse) }))
+    .filter(({ share }) => share > 0)
+    .map(({ payment, share }) => ({ ...payment, amount: splitAmount(payment.amount, share, spouse) }));
+
+  return {
+    ...input,
+    profile: {
+      ...input.profile,
+      filingStatus: "MARRIED_FILING_SEPARATELY",
+      dependentsCount: spouse === "TAXPAYER" ? input.profile.dependentsCount : 0,
+      qualifyingChildrenCount: spouse === "TAXPAYER" ? input.profile.qualifyingChildrenCount : 0,
+      // The profile amount has no owner, so separate returns itemize only
+      // the Schedule A deduction items.
+      itemizedDeductionAmount: null,
+      standardDeductionForced: deductionType === "STANDARD",
+      itemizedDeductionRequired: deductionType === "ITEMIZED"
+    },
+    incomes,
+    transactions,
+    deductions,
+    estimatedPayments,
+    priorYear: null
+  };
+}
+
+function summarizeReturn(
+  result: TaxComputationOutput,
+  filer: FilingStatusComparisonReturn["filer"]
+): FilingStatusComparisonReturn {
+  const breakdown = result.breakdown;
+  const refundableCredits = addAmounts(breakdown.additionalChildTaxCredit, breakdown.earnedIncomeCredit);
+  const netFederalTax = subtractAmounts(breakdown.federalTax, refundableCredits);
+
+  return {
+    filingStatus: filer === "JOINT" ? "MARRIED_FILING_JOINTLY" : "MARRIED_FILING_SEPARATELY",
+    filer,
+    estimateStatus: result.estimateStatus,
+    adjustedGrossIncome: breakdown.adjustedGrossIncome,
+    deductionType: breakdown.deductionUsed === breakdown.standardDeduction ? "STANDARD" : "ITEMIZED",
+    deductionUsed: breakdown.deductionUsed,
+    federalTax: breakdown.federalTax,
+    refundableCredits,
+    stateTax: breakdown.stateTax,
+    totalTax: breakdown.stateTax === null ? null : addAmounts(netFederalTax, breakdown.stateTax)
+  };
+}
+
+function combineReturns(
+  taxpayer: FilingStatusComparisonReturn,
+  spouse: FilingStatusComparisonReturn
+): FilingStatusComparisonTotals {
+  return {
+    federalTax: addAmounts(taxpayer.federalTax, spouse.federalTax),
+    refundableCredits: addAmounts(taxpayer.refundableCredits, spouse.refundableCredits),
+    stateTax:
+      taxpayer.stateTax === null || spouse.stateTax === null ? null : addAmounts(taxpayer.stateTax, spouse.stateTax),
+    totalTax:
+      taxpayer.totalTax === null || spouse.totalTax === null ? null : addAmounts(taxpayer.totalTax, spouse.totalTax)
+  };
+}
+
+// Returns are compared on federal plus state tax after refundable credits, or on
+// federal tax alone when the state estimate is blocked for either side.
+function comparableTax(totals: FilingStatusComparisonTotals, useStateTax: boolean): number {
+  return useStateTax && totals.totalTax !== null
+    ? totals.totalTax
+    : subtractAmounts(totals.federalTax, totals.refundableCredits);
+}
+
+function buildReturnNode(key: string, label: string, summary: FilingStatusComparisonReturn): ExplanationNode {
+  return {
+    nodeId: key,
+    label,
+    formula: "federal tax - refundable credits + state tax",
+    inputs: {
+      adjustedGrossIncome: summary.adjustedGrossIncome,
+      deductionType: summary.deductionType,
+      deductionUsed: summary.deductionUsed
+    },
+    outputs: {
+      federalTax: summary.federalTax,
+      refundableCredits: summary.refundableCredits,
+      stateTax: summary.stateTax,
+      totalTax: summary.totalTax
+    },
+    children: [],
+    transactionRefs: []
+  };
+}
+
+function buildRestrictions(
+  input: TaxComputationInput,
+  jointly: TaxComputationOutput,
+  deductionType: "STANDARD" | "ITEMIZED"
+): FilingStatusRestriction[] {
+  const restrictions: FilingStatusRestriction[] = [
+    {
+      code: "MFS_BOTH_SPOUSES_ITEMIZE",
+      description:
+        deductionType === "ITEMIZED"
+          ? "Both separate returns itemize, because one spouse itemizing means the other cannot take the standard deduction."
+          : "Both separate returns take the standard deduction, which was lower in combined tax than both spouses itemizing."
+    }
+  ];
+
+  if (jointly.breakdown.earnedIncomeCredit > 0) {
+    restrictions.push({
+      code: "MFS_EARNED_INCOME_CREDIT_NOT_ALLOWED",
+      description: `The Earned Income Tax Credit of ${jointly.breakdown.earnedIncomeCredit} on the joint return is not available on separate returns.`
+    });
+  }
+  if (input.profile.dependentsCount > 0) {
+    restrictions.push({
+      code: "MFS_DEPENDENTS_CLAIMED_BY_TAXPAYER",
+      description: "All dependents were claimed on the taxpayer's separate return; a dependent can only be claimed by one spouse."
+    });
+  }
+  if (jointly.breakdown.capitalGainOrLoss < 0) {
+    restrictions.push({
+      code: "MFS_CAPITAL_LOSS_LIMIT_HALVED",
+      description: "Each separate return can deduct only half of the joint capital loss limit."
+    });
+  }
+  if (jointly.breakdown.itemizedDeductionDetails === null && (input.profile.itemizedDeductionAmount ?? 0) > 0) {
+    restrictions.push({
+      code: "MFS_PROFILE_ITEMIZED_AMOUNT_NOT_SPLIT",
+      description: `The profile itemized deduction amount of ${input.profile.itemizedDeductionAmount} has no spouse owner, so it was left off the separate returns; record Schedule A deduction items with an owner to itemize separately.`
+    });
+  }
+  if (input.estimatedPayments.some((payment) => payment.owner === "JOINT")) {
+    restrictions.push({
+      code: "MFS_ESTIMATED_PAYMENTS_SPLIT_EVENLY",
+      description: "Joint estimated payments were divided evenly between the separate returns."
+    });
+  }
+  if (input.priorYear) {
+    restrictions.push({
+      code: "MFS_PRIOR_YEAR_SAFE_HARBOR_NOT_SPLIT",
+      description: "The prior-year safe harbor was not applied to the separate returns because the prior-year tax is not split by spouse."
+    });
+  }
+
+  return restrictions;
+}
+
+// Runs the joint return and both separate returns. The separate returns are
+// computed with both spouses on the standard deduction and with both itemizing,
+// and the cheaper pair is kept, since one spouse cannot itemize alone.
+export function compareMarriedFilingStatuses(input: TaxComputationInput): FilingStatusComparison | null {
+  const filingStatus = input.profile.filingStatus;
+  if (filingStatus !== "MARRIED_FILING_JOINTLY" && filingStatus !== "MARRIED_FILING_SEPARATELY") {
+    return null;
+  }
+
+  const jointResult = computeTaxEstimate({
+    ...input,
+    profile: { ...input.profile, filingStatus: "MARRIED_FILING_JOINTLY", itemizedDeductionRequired: false }
+  });
+  const jointly = summarizeReturn(jointResult, "JOINT");
+
+  const runSeparately = (deductionType: "STANDARD" | "ITEMIZED") => {
+    const taxpayer = summarizeReturn(computeTaxEstimate(splitForSpouse(input, "TAXPAYER", deductionType)), "TAXPAYER");
+    const spouse = summarizeReturn(computeTaxEstimate(splitForSpouse(input, "SPOUSE", deductionType)), "SPOUSE");
+    return { deductionType, taxpayer, spouse, combined: combineReturns(taxpayer, spouse) };
+  };
+  const hasItemizedDeductions =
+    jointResult.breakdown.itemizedDeductions > 0 && input.profile.standardDeductionForced !== true;
+  const standardPair = runSeparately("STANDARD");
+  const itemizedPair = hasItemizedDeductions ? runSeparately("ITEMIZED") : null;
+
+  const jointTotals: FilingStatusComparisonTotals = {
+    federalTax: jointly.federalTax,
+    refundableCredits: jointly.refundableCredits,
+    stateTax: jointly.stateTax,
+    totalTax: jointly.totalTax
+  };
+  const useStateTax =
+    jointTotals.totalTax !== null &&
+    standardPair.combined.totalTax !== null &&
+    (itemizedPair === null || itemizedPair.combined.totalTax !== null);
+  const separately =
+    itemizedPair !== null &&
+    comparableTax(itemizedPair.combined, useStateTax) < comparableTax(standardPair.combined, useStateTax)
+      ? itemizedPair
+      : standardPair;
+
+  const jointTax = comparableTax(jointTotals, useStateTax);
+  const separateTax = comparableTax(separately.combined, useStateTax);
+  const separateMinusJoint = subtractAmounts(separateTax, jointTax);
+  const recommendedFilingStatus =
+    separateMinusJoint < 0 ? "MARRIED_FILING_SEPARATELY" : "MARRIED_FILING_JOINTLY";
+  const restrictions = buildRestrictions(input, jointResult, separately.deductionType);
+
+  return {
+    jointly,
+    separately,
+    recommendedFilingStatus,
+    separateMinusJoint,
+    restrictions,
+    explanation: assignPathNodeIds({
+      nodeId: "filing-status-comparison",
+      label: "Filing status comparison",
+      formula: useStateTax
+        ? "joint federal and state tax vs the sum of both separate returns"
+        : "joint federal tax vs the sum of both separate returns (state tax blocked)",
+      inputs: {
+        jointTax,
+        separateTax,
+        separateDeductionType: separately.deductionType
+      },
+      outputs: {
+        recommendedFilingStatus,
+        separateMinusJoint
+      },
+      children: [
+        buildReturnNode("joint", "Married filing jointly", jointly),
+        buildReturnNode("separate-taxpayer", "Married filing separately: taxpayer", separately.taxpayer),
+        buildReturnNode("separate-spouse", "Married filing separately: spouse", separately.spouse),
+        {
+          nodeId: "differences",
+          label: "Differences",
+          formula: "separate returns combined - joint return",
+          inputs: {},
+          outputs: {
+            federalTax: subtractAmounts(separately.combined.federalTax, jointTotals.federalTax),
+            refundableCredits: subtractAmounts(separately.combined.refundableCredits, jointTotals.refundableCredits),
+            stateTax:
+              separately.combined.stateTax === null || jointTotals.stateTax === null
+                ? null
+                : subtractAmounts(separately.combined.stateTax, jointTotals.stateTax),
+            totalTax: separateMinusJoint
+          },
+          children: restrictions.map((restriction) => ({
+            nodeId: `restriction:${restriction.code}`,
+            label: restriction.code,
+            formula: restriction.description,
+            inputs: {},
+            outputs: {},
+            children: [],
+            transactionRefs: []
+          })),
+          transactionRefs: []
+        }
+      ],
+      transactionRefs: []
+    })
+  };
+}
@@ -0,0 +1,173 @@
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type {
+  CapitalGainTermCode,
+  ExplanationNode,
+  IncomeAggregation,
+  IncomeInput,
+  IncomeTypeCode,
+  RiskFlagInput,
+  SpouseOwnerCode,
+  TransactionInput
+} from "./types.js";
+
+export const SCHEDULE_C_INCOME_TYPES: IncomeTypeCode[] = ["FORM_1099_NEC", "BUSINESS_GROSS"];
+
+// Records without an owner belong to the taxpayer; joint records are split
+// evenly between the spouses.
+export function ownershipShare(owner: SpouseOwnerCode | undefined, spouse: "TAXPAYER" | "SPOUSE"): number {
+  const resolved = owner ?? "TAXPAYER";
+  if (resolved === "JOINT") {
+    return 0.5;
+  }
+
+  return resolved === spouse ? 1 : 0;
+}
+
+function sumIncomes(incomes: IncomeInput[], types: IncomeTypeCode[]): Money {
+  return sumMoney(incomes.filter((income) => types.includes(income.type)).map((income) => toMoney(income.amount)));
+}
+
+// Heuristic GROSS_RECEIPTS suggestions are applied to every unmatched deposit,
+// including payroll, so only rule-, ML- or user-confirmed receipts count.
+export function isScheduleCReceipt(transaction: TransactionInput): boolean {
+  return (
+    transaction.direction === "INCOME" &&
+    transaction.categoryCode === "GROSS_RECEIPTS" &&
+    transaction.categorySource !== "HEURISTIC"
+  );
+}
+
+function sumCapitalGains(incomes: IncomeInput[], term: CapitalGainTermCode): Money {
+  return sumIncomes(
+    incomes.filter((income) => (income.capitalGainTerm ?? "SHORT_TERM") === term),
+    ["FORM_1099_B"]
+  );
+}
+
+export function aggregateIncome(
+  incomes: IncomeInput[],
+  transactions: TransactionInput[],
+  businessExpenses: number,
+  capitalLossLimit: number
+): IncomeAggregation {
+  const wages = sumIncomes(incomes, ["W2"]);
+  const otherIncome = sumIncomes(incomes, ["FORM_1099_MISC", "OTHER_TAXABLE"]);
+  const scheduleCReceiptsFromIncomeSources = sumIncomes(incomes, SCHEDULE_C_INCOME_TYPES);
+  const receiptTransactions = transactions.filter((transaction) => isScheduleCReceipt(transaction));
+  const scheduleCReceiptsFromTransactions = sumMoney(
+    receiptTransactions.map((transaction) => toMoney(Math.abs(transaction.amount)))
+  );
+  const scheduleCGrossReceipts = addMoney(scheduleCReceiptsFromIncomeSources, scheduleCReceiptsFromTransactions);
+  const hasScheduleC = scheduleCGrossReceipts > 0;
+
+  const interestIncome = sumIncomes(incomes, ["FORM_1099_INT"]);
+  const ordinaryDividends = sumIncomes(incomes, ["FORM_1099_DIV"]);
+  const qualifiedDividends = sumMoney(
+    incomes
+      .filter((income) => income.type === "FORM_1099_DIV")
+      .map((income) =>
+        minMoney(
+          maxMoney(ZERO_MONEY, toMoney(income.qualifiedDividends ?? 0)),
+          maxMoney(ZERO_MONEY, toMoney(income.amount))
+        )
+      )
+  );
+
+  // Schedule D: a net loss is deductible up to the limit and the rest carries
+  // over; only the long-term gain not absorbed by short-term losses is taxed
+  // at preferential rates.
+  const shortTermCapitalGain = sumCapitalGains(incomes, "SHORT_TERM");
+  const longTermCapitalGain = sumCapitalGains(incomes, "LONG_TERM");
+  const totalCapitalGain = addMoney(shortTermCapitalGain, longTermCapitalGain);
+  const capitalGainOrLoss = maxMoney(totalCapitalGain, toMoney(-capitalLossLimit));
+  const capitalLossCarryover = subtractMoney(capitalGainOrLoss, totalCapitalGain);
+  const netCapitalGain = maxMoney(ZERO_MONEY, minMoney(longTermCapitalGain, totalCapitalGain));
+
+  return {
+    wages: toDollars(wages),
+    scheduleCGrossReceipts: toDollars(scheduleCGrossReceipts),
+    scheduleCReceiptsFromIncomeSources: toDollars(scheduleCReceiptsFromIncomeSources),
+    scheduleCReceiptsFromTransactions: toDollars(scheduleCReceiptsFromTransactions),
+    scheduleCNetProfit: hasScheduleC
+      ? toDollars(subtractMoney(scheduleCGrossReceipts, toMoney(businessExpenses)))
+      : 0,
+    otherIncome: toDollars(otherIncome),
+    interestIncome: toDollars(interestIncome),
+    ordinaryDividends: toDollars(ordinaryDividends),
+    qualifiedDividends: toDollars(qualifiedDividends),
+    shortTermCapitalGain: toDollars(shortTermCapitalGain),
+    longTermCapitalGain: toDollars(longTermCapitalGain),
+    capitalGainOrLoss: toDollars(capitalGainOrLoss),
+    capitalLossCarryover: toDollars(capitalLossCarryover),
+    netCapitalGain: toDollars(netCapitalGain),
+    investmentIncome: toDollars(addMoney(interestIncome, ordinaryDividends, maxMoney(ZERO_MONEY, totalCapitalGain))),
+    grossIncome: toDollars(
+      addMoney(wages, scheduleCGrossReceipts, otherIncome, interestIncome, ordinaryDividends, capitalGainOrLoss)
+    ),
+    hasScheduleC,
+    receiptTransactionRefs: receiptTransactions.map((transaction) => transaction.id)
+  };
+}
+
+export function buildScheduleCReceiptsRiskFlag(aggregation: IncomeAggregation): RiskFlagInput | null {
+  if (aggregation.scheduleCReceiptsFromIncomeSources <= 0 || aggregation.scheduleCReceiptsFromTransactions <= 0) {
+    return null;
+  }
+
+  return {
+    code: "SCHEDULE_C_RECEIPTS_OVERLAP",
+    severity: "medium",
+    explanation:
+      "Schedule C gross receipts include both 1099/business income records and gross-receipts transactions, which may describe the same payments.",
+    suggestedFix: "Confirm that deposits recorded as gross receipts are not already covered by a 1099-NEC or business gross income record.",
+    evidence: {
+      fromIncomeSources: aggregation.scheduleCReceiptsFromIncomeSources,
+      fromTransactions: aggregation.scheduleCReceiptsFromTransactions
+    }
+  };
+}
+
+const incomeLines: Record<IncomeTypeCode, { line: keyof IncomeAggregation; formula: string }> = {
+  W2: { line: "wages", formula: "W-2 box 1 wages" },
+  FORM_1099_MISC: { line: "otherIncome", formula: "1099-MISC income, reported as other income" },
+  OTHER_TAXABLE: { line: "otherIncome", formula: "other taxable income" },
+  FORM_1099_NEC: { line: "scheduleCGrossReceipts", formula: "1099-NEC compensation, reported as Schedule C gross receipts" },
+  BUSINESS_GROSS: { line: "scheduleCGrossReceipts", formula: "business gross receipts on Schedule C" },
+  FORM_1099_INT: { line: "interestIncome", formula: "1099-INT interest" },
+  FORM_1099_DIV: { line: "ordinaryDividends", formula: "1099-DIV ordinary dividends, qualified dividends included" },
+  FORM_1099_B: { line: "capitalGainOrLoss", formula: "1099-B gain or loss on Schedule D" }
+};
+
+export function buildIncomeSourceExplanation(incomes: IncomeInput[]): ExplanationNode[] {
+  return incomes.map((income) => {
+    const { line, formula } = incomeLines[income.type];
+    return {
+      nodeId: `income:${income.id}`,
+      label: income.label,
+      formula,
+      inputs: {
+        type: income.type,
+        payerName: income.payerName ?? null,
+        owner: income.owner ?? "TAXPAYER",
+        ...(income.type === "FORM_1099_DIV" ? { qualifiedDividends: income.qualifiedDividends ?? 0 } : {}),
+        ...(income.type === "FORM_1099_B" ? { capitalGainTerm: income.capitalGainTerm ?? "SHORT_TERM" } : {})
+      },
+      outputs: {
+        [line]: income.amount
+      },
+      children: [],
+      transactionRefs: [],
+      incomeSourceRefs: [income.id]
+    };
+  });
+}
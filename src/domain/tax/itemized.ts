@@ -0,0 +1,129 @@
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type { DeductionInput, IncomeInput, ItemizedDeductionDetails } from "./types.js";
+
+export const SCHEDULE_A_CODES = {
+  STATE_LOCAL_INCOME_TAX: "SCHEDULE_A_STATE_LOCAL_INCOME_TAX",
+  REAL_ESTATE_TAX: "SCHEDULE_A_REAL_ESTATE_TAX",
+  PERSONAL_PROPERTY_TAX: "SCHEDULE_A_PERSONAL_PROPERTY_TAX",
+  MORTGAGE_INTEREST: "SCHEDULE_A_MORTGAGE_INTEREST",
+  CHARITABLE_CASH: "SCHEDULE_A_CHARITABLE_CASH",
+  CHARITABLE_NONCASH: "SCHEDULE_A_CHARITABLE_NONCASH",
+  MEDICAL: "SCHEDULE_A_MEDICAL"
+} as const;
+
+const scheduleACodes: string[] = Object.values(SCHEDULE_A_CODES);
+
+export function isScheduleADeduction(deduction: DeductionInput): boolean {
+  return scheduleACodes.includes(deduction.code);
+}
+
+function sumDeductions(deductions: DeductionInput[], codes: string[]): Money {
+  return sumMoney(
+    deductions
+      .filter((deduction) => deduction.isConfirmed && codes.includes(deduction.code))
+      .map((deduction) => toMoney(Math.max(0, deduction.amount)))
+  );
+}
+
+export function computeItemizedDeductions(input: {
+  filingStatus: FilingStatusCode;
+  adjustedGrossIncome: number;
+  deductions: DeductionInput[];
+  incomes: IncomeInput[];
+  ruleset: FederalRuleset;
+}): ItemizedDeductionDetails | null {
+  const rules = input.ruleset.itemizedDeductions;
+  const hasScheduleAItems = input.deductions.some(
+    (deduction) => deduction.isConfirmed && isScheduleADeduction(deduction)
+  );
+  if (!rules || !hasScheduleAItems) {
+    return null;
+  }
+
+  const adjustedGrossIncome = toMoney(Math.max(0, input.adjustedGrossIncome));
+
+  // State and local income tax withheld on income records counts toward
+  // Schedule A line 5a alongside any separately recorded payments.
+  const withheldStateAndLocalTax = sumMoney(
+    input.incomes.map((income) =>
+      addMoney(toMoney(income.taxWithheldState ?? 0), toMoney(income.taxWithheldLocal ?? 0))
+    )
+  );
+  const stateAndLocalTaxesPaid = addMoney(
+    withheldStateAndLocalTax,
+    sumDeductions(input.deductions, [
+      SCHEDULE_A_CODES.STATE_LOCAL_INCOME_TAX,
+      SCHEDULE_A_CODES.REAL_ESTATE_TAX,
+      SCHEDULE_A_CODES.PERSONAL_PROPERTY_TAX
+    ])
+  );
+  const baseSaltCap = toMoney(rules.saltCap[input.filingStatus]);
+  const incomeOverSaltThreshold = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(adjustedGrossIncome, toMoney(rules.saltPhaseDownThreshold[input.filingStatus]))
+  );
+  const saltPhaseDownReduction = minMoney(
+    subtractMoney(baseSaltCap, toMoney(rules.saltFloor[input.filingStatus])),
+    multiplyMoney(incomeOverSaltThreshold, rules.saltPhaseDownRate)
+  );
+  const saltCap = subtractMoney(baseSaltCap, saltPhaseDownReduction);
+  const stateAndLocalTaxes = minMoney(stateAndLocalTaxesPaid, saltCap);
+
+  const mortgageInterest = sumDeductions(input.deductions, [SCHEDULE_A_CODES.MORTGAGE_INTEREST]);
+
+  const medicalExpensesPaid = sumDeductions(input.deductions, [SCHEDULE_A_CODES.MEDICAL]);
+  const medicalExpenseFloor = multiplyMoney(adjustedGrossIncome, rules.medicalExpenseAgiFloor);
+  const medicalExpenses = maxMoney(ZERO_MONEY, subtractMoney(medicalExpensesPaid, medicalExpenseFloor));
+
+  // Non-cash gifts use the lower AGI limit first; cash gifts fill the rest of
+  // the overall limit. The contribution floor applies after both limits.
+  const charitableCash = sumDeductions(input.deductions, [SCHEDULE_A_CODES.CHARITABLE_CASH]);
+  const charitableNonCash = sumDeductions(input.deductions, [SCHEDULE_A_CODES.CHARITABLE_NONCASH]);
+  const allowedNonCash = minMoney(
+    charitableNonCash,
+    multiplyMoney(adjustedGrossIncome, rules.charitableNonCashAgiLimit)
+  );
+  const allowedCash = minMoney(
+    charitableCash,
+    maxMoney(
+      ZERO_MONEY,
+      subtractMoney(multiplyMoney(adjustedGrossIncome, rules.charitableCashAgiLimit), allowedNonCash)
+    )
+  );
+  const allowedCharitable = addMoney(allowedCash, allowedNonCash);
+  const charitableAgiLimitReduction = subtractMoney(addMoney(charitableCash, charitableNonCash), allowedCharitable);
+  const charitableFloor = minMoney(
+    allowedCharitable,
+    multiplyMoney(adjustedGrossIncome, rules.charitableContributionAgiFloor)
+  );
+  const charitableContributions = subtractMoney(allowedCharitable, charitableFloor);
+
+  return {
+    stateAndLocalTaxesPaid: toDollars(stateAndLocalTaxesPaid),
+    saltCap: toDollars(saltCap),
+    saltPhaseDownReduction: toDollars(saltPhaseDownReduction),
+    stateAndLocalTaxes: toDollars(stateAndLocalTaxes),
+    mortgageInterest: toDollars(mortgageInterest),
+    medicalExpensesPaid: toDollars(medicalExpensesPaid),
+    medicalExpenseFloor: toDollars(medicalExpenseFloor),
+    medicalExpenses: toDollars(medicalExpenses),
+    charitableCash: toDollars(charitableCash),
+    charitableNonCash: toDollars(charitableNonCash),
+    charitableAgiLimitReduction: toDollars(charitableAgiLimitReduction),
+    charitableFloor: toDollars(charitableFloor),
+    charitableContributions: toDollars(charitableContributions),
+    total: toDollars(addMoney(stateAndLocalTaxes, mortgageInterest, medicalExpenses, charitableContributions))
+  };
+}
@@ -0,0 +1,199 @@
+import {
+  addMoney,
+  clamp,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type { FilingStatusCode, StateAdjustmentRule, StateRuleset } from "../rulesets/types.js";
+import { computeBracketTax } from "./brackets.js";
+import { ownershipShare, SCHEDULE_C_INCOME_TYPES } from "./income.js";
+import { isOtherStateIncome } from "./reciprocity.js";
+import type {
+  DeductionInput,
+  IncomeAggregation,
+  IncomeInput,
+  NdAdjustmentDetails,
+  NdAdjustmentLine,
+  NdCreditDetails
+} from "./types.js";
+
+export const ND_ITEM_CODES = {
+  LUMP_SUM_DISTRIBUTION: "ND_ADDITION_LUMP_SUM_DISTRIBUTION",
+  US_OBLIGATION_INTEREST: "ND_SUBTRACTION_US_OBLIGATION_INTEREST",
+  SOCIAL_SECURITY_BENEFITS: "ND_SUBTRACTION_SOCIAL_SECURITY_BENEFITS",
+  MILITARY_PAY: "ND_SUBTRACTION_MILITARY_PAY",
+  NATIONAL_GUARD_RESERVE_PAY: "ND_SUBTRACTION_NATIONAL_GUARD_RESERVE_PAY",
+  TAX_PAID_TO_OTHER_STATE: "ND_CREDIT_TAX_PAID_TO_OTHER_STATE"
+} as const;
+
+const ndItemCodes: string[] = Object.values(ND_ITEM_CODES);
+
+export function isNdDeduction(deduction: DeductionInput): boolean {
+  return ndItemCodes.includes(deduction.code);
+}
+
+function sumItems(deductions: DeductionInput[], itemCode: string): Money {
+  return sumMoney(
+    deductions
+      .filter((deduction) => deduction.isConfirmed && deduction.code === itemCode)
+      .map((deduction) => maxMoney(ZERO_MONEY, toMoney(deduction.amount)))
+  );
+}
+
+function applyRules(
+  rules: StateAdjustmentRule[],
+  deductions: DeductionInput[],
+  income: IncomeAggregation
+): NdAdjustmentLine[] {
+  const remaining = new Map<string, Money>();
+
+  return rules
+    .map((rule) => {
+      const claimed = sumItems(deductions, rule.itemCode);
+      if (!rule.incomeLimit) {
+        return { code: rule.code, label: rule.label, amount: toDollars(claimed) };
+      }
+
+      const available = remaining.get(rule.incomeLimit) ?? maxMoney(ZERO_MONEY, toMoney(income[rule.incomeLimit]));
+      const amount = minMoney(claimed, available);
+      remaining.set(rule.incomeLimit, subtractMoney(available, amount));
+      return { code: rule.code, label: rule.label, amount: toDollars(amount) };
+    })
+    .filter((line) => line.amount > 0);
+}
+
+// ND-1 lines 1-18: federal taxable income plus additions less subtractions.
+export function computeNdAdjustments(input: {
+  federalTaxableIncome: number;
+  income: IncomeAggregation;
+  deductions: DeductionInput[];
+  ruleset: StateRuleset;
+}): NdAdjustmentDetails {
+  const additions = applyRules(input.ruleset.adjustments?.additions ?? [], input.deductions, input.income);
+  const subtractions = applyRules(input.ruleset.adjustments?.subtractions ?? [], input.deductions, input.income);
+  const totalAdditions = sumMoney(additions.map((line) => toMoney(line.amount)));
+  const totalSubtractions = sumMoney(subtractions.map((line) => toMoney(line.amount)));
+
+  return {
+    federalTaxableIncome: input.federalTaxableIncome,
+    additions,
+    subtractions,
+    totalAdditions: toDollars(totalAdditions),
+    totalSubtractions: toDollars(totalSubtractions),
+    taxableIncome: toDollars(
+      maxMoney(
+        ZERO_MONEY,
+        subtractMoney(addMoney(toMoney(input.federalTaxableIncome), totalAdditions), totalSubtractions)
+      )
+    )
+  };
+}
+
+function qualifiedIncome(incomes: IncomeInput[], spouse: "TAXPAYER" | "SPOUSE"): Money {
+  return sumMoney(
+    incomes
+      .filter((income) => income.type === "W2" || SCHEDULE_C_INCOME_TYPES.includes(income.type))
+      .map((income) =>
+        multiplyMoney(maxMoney(ZERO_MONEY, toMoney(income.amount)), ownershipShare(income.owner, spouse))
+      )
+  );
+}
+
+// Both credits are nonrefundable. The marriage penalty credit compares the
+// joint tax with single-schedule tax on each spouse's share of ND taxable
+// income, split by wages and self-employment receipts. The other-state credit
+// is limited to the ND tax on the share of ND income earned there.
+export function computeNdCredits(input: {
+  filingStatus: FilingStatusCode;
+  taxBeforeCredits: number;
+  ndTaxableIncome: number;
+  ndIncome: number;
+  incomes: IncomeInput[];
+  deductions: DeductionInput[];
+  ruleset: StateRuleset;
+}): NdCreditDetails | null {
+  const rules = input.ruleset.credits;
+  if (!rules || input.taxBeforeCredits <= 0) {
+    return null;
+  }
+
+  const taxBeforeCredits = toMoney(input.taxBeforeCredits);
+  let remainingTax = taxBeforeCredits;
+
+  const taxpayerQualifiedIncome = qualifiedIncome(input.incomes, "TAXPAYER");
+  const spouseQualifiedIncome = qualifiedIncome(input.incomes, "SPOUSE");
+  const singleBrackets = input.ruleset.brackets?.SINGLE;
+  let marriagePenalty: NdCreditDetails["marriagePenalty"] = null;
+  if (
+    rules.marriagePenalty?.filingStatuses.includes(input.filingStatus) &&
+    singleBrackets &&
+    taxpayerQualifiedIncome > 0 &&
+    spouseQualifiedIncome > 0
+  ) {
+    const taxpayerTaxableIncome = multiplyMoney(
+      toMoney(input.ndTaxableIncome),
+      taxpayerQualifiedIncome / (taxpayerQualifiedIncome + spouseQualifiedIncome)
+    );
+    const spouseTaxableIncome = subtractMoney(toMoney(input.ndTaxableIncome), taxpayerTaxableIncome);
+    const separateTax = addMoney(
+      toMoney(computeBracketTax(toDollars(taxpayerTaxableIncome), singleBrackets)),
+      toMoney(computeBracketTax(toDollars(spouseTaxableIncome), singleBrackets))
+    );
+    const penalty = maxMoney(ZERO_MONEY, subtractMoney(taxBeforeCredits, separateTax));
+    const maximumCredit = rules.marriagePenalty.maximumCredit;
+    const credit = minMoney(penalty, toMoney(maximumCredit ?? toDollars(penalty)), remainingTax);
+    remainingTax = subtractMoney(remainingTax, credit);
+    marriagePenalty = {
+      taxpayerQualifiedIncome: toDollars(taxpayerQualifiedIncome),
+      spouseQualifiedIncome: toDollars(spouseQualifiedIncome),
+      jointTax: input.taxBeforeCredits,
+      separateTax: toDollars(separateTax),
+      maximumCredit,
+      credit: toDollars(credit)
+    };
+  }
+
+  const otherStateIncomes = input.incomes.filter((income) => isOtherStateIncome(income, input.ruleset));
+  let taxPaidToOtherState: NdCreditDetails["taxPaidToOtherState"] = null;
+  if (rules.taxPaidToOtherState && otherStateIncomes.length > 0) {
+    const otherStateIncome = sumMoney(otherStateIncomes.map((income) => toMoney(income.amount)));
+    const reported = sumItems(input.deductions, rules.taxPaidToOtherState.itemCode);
+    const withheld = sumMoney(otherStateIncomes.map((income) => toMoney(income.taxWithheldState ?? 0)));
+    const hasReportedTax = input.deductions.some(
+      (deduction) => deduction.isConfirmed && deduction.code === rules.taxPaidToOtherState!.itemCode
+    );
+    const taxPaid = hasReportedTax ? reported : withheld;
+    const limitation =
+      input.ndIncome > 0
+        ? multiplyMoney(taxBeforeCredits, clamp(toDollars(otherStateIncome) / input.ndIncome, 0, 1))
+        : ZERO_MONEY;
+    const credit = minMoney(taxPaid, limitation, remainingTax);
+    remainingTax = subtractMoney(remainingTax, credit);
+    taxPaidToOtherState = {
+      otherStateIncome: toDollars(otherStateIncome),
+      ndIncome: input.ndIncome,
+      taxPaid: toDollars(taxPaid),
+      taxPaidSource: hasReportedTax ? "DEDUCTION_ITEM" : "WITHHOLDING",
+      limitation: toDollars(limitation),
+      credit: toDollars(credit)
+    };
+  }
+
+  if (!marriagePenalty && !taxPaidToOtherState) {
+    return null;
+  }
+
+  return {
+    taxBeforeCredits: input.taxBeforeCredits,
+    marriagePenalty,
+    taxPaidToOtherState,
+    total: toDollars(addMoney(toMoney(marriagePenalty?.credit ?? 0), toMoney(taxPaidToOtherState?.credit ?? 0)))
+  };
+}
@@ -0,0 +1,138 @@
+import {
+  addMoney,
+  clamp,
+  maxMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import { aggregateIncome } from "./income.js";
+import type {
+  DeductionInput,
+  IncomeInput,
+  NdPartYearAllocationDetails,
+  TaxProfileInput,
+  TransactionInput
+} from "./types.js";
+
+const dayInMilliseconds = 24 * 60 * 60 * 1000;
+
+function toDay(value: string): number {
+  return Math.floor(Date.parse(value.slice(0, 10)) / dayInMilliseconds);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * dayInMilliseconds).toISOString().slice(0, 10);
+}
+
+export function hasNdResidencyPeriod(profile: TaxProfileInput): boolean {
+  return !profile.isFullYearResident && Boolean(profile.ndResidencyStartDate || profile.ndResidencyEndDate);
+}
+
+// Schedule ND-1NR: tax on the full federal taxable income is multiplied by
+// ND-source income over federal AGI. Dated transactions are sourced by the
+// residency period; income records without an ND-source amount are prorated
+// by resident days.
+export function computeNdPartYearAllocation(input: {
+  profile: TaxProfileInput;
+  incomes: IncomeInput[];
+  transactions: TransactionInput[];
+  expenseTransactions: TransactionInput[];
+  businessDeductions: DeductionInput[];
+  capitalLossLimit: number;
+  scheduleCNetProfit: number;
+  selfEmploymentTaxDeduction: number;
+  adjustedGrossIncome: number;
+  fullYearTax: number;
+}): NdPartYearAllocationDetails | null {
+  const { profile } = input;
+  if (!hasNdResidencyPeriod(profile)) {
+    return null;
+  }
+
+  const yearStart = toDay(`${profile.taxYear}-01-01`);
+  const yearEnd = toDay(`${profile.taxYear}-12-31`);
+  const start = Math.max(yearStart, profile.ndResidencyStartDate ? toDay(profile.ndResidencyStartDate) : yearStart);
+  const end = Math.min(yearEnd, profile.ndResidencyEndDate ? toDay(profile.ndResidencyEndDate) : yearEnd);
+  const daysInYear = yearEnd - yearStart + 1;
+  const residentDays = Math.max(0, end - start + 1);
+  const residentFraction = residentDays / daysInYear;
+  const isResidentOn = (date: string) => toDay(date) >= start && toDay(date) <= end;
+
+  const proratedIncomeIds: string[] = [];
+  const scale = (amount: number | null | undefined, share: number) =>
+    toDollars(multiplyMoney(toMoney(amount ?? 0), share));
+  const ndIncomes = input.incomes.map((income) => {
+    if (income.ndSourceAmount !== null && income.ndSourceAmount !== undefined) {
+      const share = income.amount === 0 ? 0 : income.ndSourceAmount / income.amount;
+      return {
+        ...income,
+        amount: income.ndSourceAmount,
+        qualifiedDividends: scale(income.qualifiedDividends, share)
+      };
+    }
+
+    proratedIncomeIds.push(income.id);
+    return {
+      ...income,
+      amount: scale(income.amount, residentFraction),
+      qualifiedDividends: scale(income.qualifiedDividends, residentFraction)
+    };
+  });
+  const ndBusinessExpenseAmount = addMoney(
+    sumMoney(
+      input.expenseTransactions
+        .filter((transaction) => isResidentOn(transaction.date))
+        .map((transaction) => toMoney(Math.abs(transaction.amount)))
+    ),
+    sumMoney(input.businessDeductions.map((deduction) => multiplyMoney(toMoney(deduction.amount), residentFraction)))
+  );
+  const ndBusinessExpenses = toDollars(ndBusinessExpenseAmount);
+  const ndIncome = aggregateIncome(
+    ndIncomes,
+    input.transactions.filter((transaction) => isResidentOn(transaction.date)),
+    ndBusinessExpenses,
+    input.capitalLossLimit
+  );
+
+  // The SE tax deduction follows the share of Schedule C profit earned while
+  // resident.
+  const selfEmploymentShare =
+    input.scheduleCNetProfit > 0 ? clamp(ndIncome.scheduleCNetProfit / input.scheduleCNetProfit, 0, 1) : 0;
+  const selfEmploymentTaxDeduction = multiplyMoney(toMoney(input.selfEmploymentTaxDeduction), selfEmploymentShare);
+  const ndSourceIncome = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(toMoney(ndIncome.grossIncome), addMoney(ndBusinessExpenseAmount, selfEmploymentTaxDeduction))
+  );
+  const incomeRatio =
+    input.adjustedGrossIncome > 0
+      ? Math.round(clamp(ndSourceIncome / toMoney(input.adjustedGrossIncome), 0, 1) * 10000) / 10000
+      : 0;
+
+  return {
+    residencyStartDate: fromDay(start),
+    residencyEndDate: fromDay(Math.max(start, end)),
+    residentDays,
+    daysInYear,
+    wages: ndIncome.wages,
+    scheduleCNetProfit: ndIncome.scheduleCNetProfit,
+    otherIncome: ndIncome.otherIncome,
+    investmentIncome: toDollars(
+      addMoney(
+        toMoney(ndIncome.interestIncome),
+        toMoney(ndIncome.ordinaryDividends),
+        toMoney(ndIncome.capitalGainOrLoss)
+      )
+    ),
+    selfEmploymentTaxDeduction: toDollars(selfEmploymentTaxDeduction),
+    ndSourceIncome: toDollars(ndSourceIncome),
+    adjustedGrossIncome: input.adjustedGrossIncome,
+    incomeRatio,
+    proratedIncomeIds,
+    fullYearTax: input.fullYearTax,
+    tax: toDollars(multiplyMoney(toMoney(input.fullYearTax), incomeRatio))
+  };
+}
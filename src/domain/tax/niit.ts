@@ -0,0 +1,48 @@
+import {
+  addMoney,
+  maxMoney,
+  minMoney,
+  subtractMoney,
+  toDollars,
+  toMoney,
+  wholeDollars,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type { IncomeAggregation, NetInvestmentIncomeTaxDetails } from "./types.js";
+
+// Form 8960 for an individual with no foreign earned income exclusion, so
+// MAGI is AGI. Investment expenses are not modeled.
+export function computeNetInvestmentIncomeTax(input: {
+  filingStatus: FilingStatusCode;
+  income: IncomeAggregation;
+  adjustedGrossIncome: number;
+  ruleset: FederalRuleset;
+}): NetInvestmentIncomeTaxDetails | null {
+  const rules = input.ruleset.netInvestmentIncomeTax;
+  const { interestIncome, ordinaryDividends, capitalGainOrLoss } = input.income;
+  const netInvestmentIncome = maxMoney(
+    ZERO_MONEY,
+    addMoney(toMoney(interestIncome), toMoney(ordinaryDividends), toMoney(capitalGainOrLoss))
+  );
+  if (!rules || netInvestmentIncome <= 0) {
+    return null;
+  }
+
+  const threshold = rules.threshold[input.filingStatus];
+  const incomeOverThreshold = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(toMoney(input.adjustedGrossIncome), toMoney(threshold))
+  );
+
+  return {
+    interestIncome,
+    ordinaryDividends,
+    capitalGainOrLoss,
+    netInvestmentIncome: toDollars(netInvestmentIncome),
+    modifiedAdjustedGrossIncome: input.adjustedGrossIncome,
+    threshold,
+    incomeOverThreshold: toDollars(incomeOverThreshold),
+    tax: wholeDollars(toDollars(minMoney(netInvestmentIncome, incomeOverThreshold)) * rules.rate)
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type { QualifiedBusinessIncomeDetails, RiskFlagInput } from "./types.js";
+
+export function computeQualifiedBusinessIncomeDeduction(input: {
+  filingStatus: FilingStatusCode;
+  scheduleCNetProfit: number;
+  selfEmploymentTaxDeduction: number;
+  taxableIncomeBeforeDeduction: number;
+  netCapitalGain: number;
+  ruleset: FederalRuleset;
+}): QualifiedBusinessIncomeDetails | null {
+  const rules = input.ruleset.qualifiedBusinessIncome;
+  if (!rules || input.scheduleCNetProfit <= 0) {
+    return null;
+  }
+
+  const qualifiedBusinessIncome = maxMoney(
+    ZERO_MONEY,
+    subtractMoney(toMoney(input.scheduleCNetProfit), toMoney(input.selfEmploymentTaxDeduction))
+  );
+  const tentativeDeduction = multiplyMoney(qualifiedBusinessIncome, rules.deductionRate);
+  const threshold = rules.threshold[input.filingStatus];
+  const phaseInRange = rules.phaseInRange[input.filingStatus];
+  const phaseInPercentage = Math.min(1, Math.max(0, input.taxableIncomeBeforeDeduction - threshold) / phaseInRange);
+
+  // With no W-2 wages paid and no qualified property the wage/UBIA limit is
+  // zero, so above the threshold the deduction phases out linearly.
+  const wageLimitationReduction = multiplyMoney(tentativeDeduction, phaseInPercentage);
+  let component = subtractMoney(tentativeDeduction, wageLimitationReduction);
+  if (qualifiedBusinessIncome >= toMoney(rules.minimumDeductionQualifiedIncome)) {
+    component = maxMoney(component, toMoney(rules.minimumDeduction));
+  }
+
+  const taxableIncomeLimitation = multiplyMoney(
+    maxMoney(ZERO_MONEY, subtractMoney(toMoney(input.taxableIncomeBeforeDeduction), toMoney(input.netCapitalGain))),
+    rules.deductionRate
+  );
+
+  return {
+    scheduleCNetProfit: input.scheduleCNetProfit,
+    selfEmploymentTaxAdjustment: input.selfEmploymentTaxDeduction,
+    qualifiedBusinessIncome: toDollars(qualifiedBusinessIncome),
+    tentativeDeduction: toDollars(tentativeDeduction),
+    taxableIncomeBeforeDeduction: input.taxableIncomeBeforeDeduction,
+    phaseInPercentage,
+    wageLimitationReduction: toDollars(wageLimitationReduction),
+    taxableIncomeLimitation: toDollars(taxableIncomeLimitation),
+    deduction: toDollars(minMoney(component, taxableIncomeLimitation))
+  };
+}
+
+export function buildQualifiedBusinessIncomeRiskFlag(
+  details: QualifiedBusinessIncomeDetails | null,
+  filingStatus: FilingStatusCode,
+  ruleset: FederalRuleset
+): RiskFlagInput | null {
+  const rules = ruleset.qualifiedBusinessIncome;
+  if (!details || !rules || details.taxableIncomeBeforeDeduction <= rules.threshold[filingStatus]) {
+    return null;
+  }
+
+  return {
+    code: "QBI_SSTB_REVIEW",
+    severity: details.phaseInPercentage >= 1 ? "high" : "medium",
+    explanation:
+      "Taxable income is above the QBI threshold, where specified service trade or business rules and the W-2 wage limitation change the deduction. The estimate assumes no W-2 wages paid and no qualified property.",
+    suggestedFix: "Confirm whether the business is a specified service trade or business and record any W-2 wages paid to employees.",
+    evidence: {
+      threshold: rules.threshold[filingStatus],
+      phaseInRange: rules.phaseInRange[filingStatus],
+      taxableIncomeBeforeDeduction: details.taxableIncomeBeforeDeduction,
+      phaseInPercentage: details.phaseInPercentage
+    }
+  };
+}
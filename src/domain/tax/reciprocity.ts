@@ -0,0 +1,61 @@
+import { sumMoney, toDollars, toMoney } from "../../shared/money.js";
+import type { StateRuleset } from "../rulesets/types.js";
+import type { IncomeInput, RiskFlagInput } from "./types.js";
+
+export type ReciprocityAgreement = NonNullable<StateRuleset["reciprocity"]>[number];
+
+export function findReciprocityAgreement(
+  ruleset: StateRuleset,
+  stateCode: string | null | undefined
+): ReciprocityAgreement | null {
+  return ruleset.reciprocity?.find((agreement) => agreement.stateCode === stateCode) ?? null;
+}
+
+// Income earned in another state that the agreement covers is taxed only by
+// the resident state, so it needs no allocation or other-state credit.
+export function isReciprocityIncome(income: IncomeInput, ruleset: StateRuleset): boolean {
+  const agreement = findReciprocityAgreement(ruleset, income.workState);
+  return agreement !== null && agreement.incomeTypes.includes(income.type);
+}
+
+export function isOtherStateIncome(income: IncomeInput, ruleset: StateRuleset): boolean {
+  return Boolean(income.workState) && income.workState !== ruleset.stateCode && !isReciprocityIncome(income, ruleset);
+}
+
+// State withholding on a W-2 is reported for its work state (box 15), so tax
+// withheld on wages earned elsewhere went to that state, not North Dakota.
+export function sumOtherStateWithholding(incomes: IncomeInput[], ruleset: StateRuleset): number {
+  return toDollars(
+    sumMoney(
+      incomes
+        .filter((income) => Boolean(income.workState) && income.workState !== ruleset.stateCode)
+        .map((income) => toMoney(income.taxWithheldState ?? 0))
+    )
+  );
+}
+
+export function buildReciprocityWithholdingRiskFlag(
+  incomes: IncomeInput[],
+  ruleset: StateRuleset
+): RiskFlagInput | null {
+  const withheld = incomes.filter(
+    (income) => isReciprocityIncome(income, ruleset) && (income.taxWithheldState ?? 0) > 0
+  );
+  if (withheld.length === 0) {
+    return null;
+  }
+
+  const forms = [
+    ...new Set(withheld.map((income) => findReciprocityAgreement(ruleset, income.workState)!.residentExemptionForm))
+  ];
+  return {
+    code: "RECIPROCITY_STATE_WITHHOLDING",
+    severity: "medium",
+    explanation: `State tax was withheld for ${[...new Set(withheld.map((income) => income.workState))].join(", ")} on wages covered by a reciprocity agreement with ${ruleset.stateCode}. Those wages are taxed only by ${ruleset.stateCode}, so the withholding is not credited against ${ruleset.stateCode} tax.`,
+    suggestedFix: `Give the employer Form ${forms.join(" / ")} to stop the withholding, and file a nonresident return in the work state to get the tax withheld refunded.`,
+    evidence: {
+      incomeIds: withheld.map((income) => income.id),
+      taxWithheld: sumOtherStateWithholding(withheld, ruleset)
+    }
+  };
+}
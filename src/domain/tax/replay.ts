@@ -0,0 +1,100 @@
+import { addMoney, multiplyMoney, sumMoney, toDollars, toMoney } from "../../shared/money.js";
+import type { FederalRuleset, StateRuleset } from "../rulesets/types.js";
+import { computeTaxEstimate } from "./calculator.js";
+import { compareTax } from "./run-diff.js";
+import { diffBreakdowns } from "./scenarios.js";
+import type {
+  ComputationRunRecord,
+  RulesetImpactBucket,
+  RulesetImpactReport,
+  RulesetReplayResult,
+  TaxComputationInput
+} from "./types.js";
+
+const BIGGEST_CHANGES_LIMIT = 10;
+
+// Decreases include their lower bound and increases their upper bound, so a
+// $100 decrease falls in "$100 to $1,000".
+const impactBuckets: Array<Omit<RulesetImpactBucket, "count"> & { matches: (delta: number) => boolean }> = [
+  { label: "Decrease of $1,000 or more", min: null, max: -1000, matches: (delta) => delta <= -1000 },
+  { label: "Decrease of $100 to $1,000", min: -1000, max: -100, matches: (delta) => delta > -1000 && delta <= -100 },
+  { label: "Decrease under $100", min: -100, max: 0, matches: (delta) => delta > -100 && delta < 0 },
+  { label: "No change", min: 0, max: 0, matches: (delta) => delta === 0 },
+  { label: "Increase under $100", min: 0, max: 100, matches: (delta) => delta > 0 && delta < 100 },
+  { label: "Increase of $100 to $1,000", min: 100, max: 1000, matches: (delta) => delta >= 100 && delta < 1000 },
+  { label: "Increase of $1,000 or more", min: 1000, max: null, matches: (delta) => delta >= 1000 }
+];
+
+// The baseline is recomputed from the run's inputs and its own rulesets rather
+// than read from the stored totals, so calculator changes made since the run
+// was stored are not reported as ruleset impact. The replayed result is
+// returned only; nothing about it is persisted, so it never shows up in the
+// user's run history.
+export function replayComputation(
+  run: Pick<ComputationRunRecord, "id" | "federalVersion" | "stateVersion"> & { input: TaxComputationInput },
+  federalRuleset: FederalRuleset,
+  stateRuleset: StateRuleset
+): RulesetReplayResult {
+  const baseline = computeTaxEstimate(run.input);
+  const result = computeTaxEstimate({ ...run.input, federalRuleset, stateRuleset });
+
+  return {
+    runId: run.id,
+    rulesets: {
+      federal: { from: run.federalVersion, to: federalRuleset.id },
+      state: { from: run.stateVersion, to: stateRuleset.id }
+    },
+    estimateStatus: result.estimateStatus,
+    breakdown: result.breakdown,
+    totals: diffBreakdowns(baseline.breakdown, result.breakdown),
+    taxChange: compareTax(baseline.breakdown, result.breakdown)
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : toDollars(multiplyMoney(addMoney(toMoney(sorted[middle - 1] ?? 0), toMoney(sorted[middle] ?? 0)), 0.5));
+}
+
+export function summarizeRulesetImpact(input: {
+  taxYear: number;
+  federalVersion: string | null;
+  stateVersion: string | null;
+  replays: RulesetReplayResult[];
+  skippedRunIds: string[];
+}): RulesetImpactReport {
+  const deltas = input.replays.map((replay) => replay.taxChange.delta);
+  const totalTaxDelta = toDollars(sumMoney(deltas.map(toMoney)));
+
+  return {
+    taxYear: input.taxYear,
+    federalVersion: input.federalVersion,
+    stateVersion: input.stateVersion,
+    runCount: input.replays.length + input.skippedRunIds.length,
+    replayedCount: input.replays.length,
+    skippedRunIds: input.skippedRunIds,
+    affectedCount: deltas.filter((delta) => delta !== 0).length,
+    increasedCount: deltas.filter((delta) => delta > 0).length,
+    decreasedCount: deltas.filter((delta) => delta < 0).length,
+    totalTaxDelta,
+    meanTaxDelta: deltas.length > 0 ? toDollars(multiplyMoney(toMoney(totalTaxDelta), 1 / deltas.length)) : 0,
+    medianTaxDelta: median(deltas),
+    distribution: impactBuckets.map(({ matches, ...bucket }) => ({
+      ...bucket,
+      count: deltas.filter(matches).length
+    })),
+    biggestChanges: input.replays
+      .filter((replay) => replay.taxChange.delta !== 0)
+      .sort((left, right) => Math.abs(right.taxChange.delta) - Math.abs(left.taxChange.delta))
+      .slice(0, BIGGEST_CHANGES_LIMIT)
+      .map((replay) => ({ runId: replay.runId, ...replay.taxChange }))
+  };
+}
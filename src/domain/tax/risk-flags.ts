@@ -58,8 +58,8 @@ export function buildRiskFlags(
     flags.push({
       code: "STATE_RULESET_STALE",
       severity: "high",
-      explanation: "North Dakota ruleset is marked stale and state tax cannot be computed safely.",
-      suggestedFix: stateRuleset.staleness?.action ?? "Validate and reload the ND ruleset."
+      explanation: `${stateRuleset.stateCode} ruleset is marked stale and state tax cannot be computed safely.`,
+      suggestedFix: stateRuleset.staleness?.action ?? `Validate and reload the ${stateRuleset.stateCode} ruleset.`
     });
   }
 
@@ -0,0 +1,252 @@
+import { subtractMoney, sumMoney, toDollars, toMoney } from "../../shared/money.js";
+import { computeTaxEstimate } from "./calculator.js";
+import { diffBreakdowns } from "./scenarios.js";
+import type {
+  ComputationRunDiff,
+  ComputationRunRecord,
+  RunFieldChange,
+  RunFindingChange,
+  RunInputCollection,
+  RunInputDiff,
+  RunInputItemChange,
+  RunTaxAttribution,
+  RunTaxChange,
+  RunTaxComparison,
+  TaxBreakdown,
+  TaxComputationInput
+} from "./types.js";
+
+const collections: RunInputCollection[] = ["incomes", "deductions", "transactions", "estimatedPayments"];
+
+// Values are compared through JSON so nested objects and dates compare by value.
+function diffFields(from: object, to: object): RunFieldChange[] {
+  const fromValues = from as Record<string, unknown>;
+  const toValues = to as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(fromValues), ...Object.keys(toValues)])];
+
+  return fields
+    .filter((field) => JSON.stringify(fromValues[field] ?? null) !== JSON.stringify(toValues[field] ?? null))
+    .map((field) => ({ field, from: fromValues[field] ?? null, to: toValues[field] ?? null }));
+}
+
+function itemsOf(input: TaxComputationInput, collection: RunInputCollection): Array<{ id: string }> {
+  return input[collection];
+}
+
+function itemLabel(collection: RunInputCollection, item: object): string {
+  const values = item as Record<string, unknown>;
+  switch (collection) {
+    case "incomes":
+    case "deductions":
+      return String(values.label);
+    case "transactions":
+      return String(values.merchant ?? values.description);
+    case "estimatedPayments":
+      return `${String(values.kind)} paid ${String(values.paidAt).slice(0, 10)}`;
+  }
+}
+
+export function diffComputationInputs(base: TaxComputationInput, target: TaxComputationInput): RunInputDiff {
+  const items = collections.flatMap((collection): RunInputItemChange[] => {
+    const baseItems = new Map(itemsOf(base, collection).map((item) => [item.id, item]));
+    const targetItems = new Map(itemsOf(target, collection).map((item) => [item.id, item]));
+    const changes: RunInputItemChange[] = [];
+
+    for (const [id, item] of targetItems) {
+      const previous = baseItems.get(id);
+      if (!previous) {
+        changes.push({ collection, id, label: itemLabel(collection, item), change: "ADDED", fields: [] });
+        continue;
+      }
+
+      const fields = diffFields(previous, item);
+      if (fields.length > 0) {
+        changes.push({ collection, id, label: itemLabel(collection, item), change: "CHANGED", fields });
+      }
+    }
+
+    for (const [id, item] of baseItems) {
+      if (!targetItems.has(id)) {
+        changes.push({ collection, id, label: itemLabel(collection, item), change: "REMOVED", fields: [] });
+      }
+    }
+
+    return changes;
+  });
+
+  return {
+    profile: diffFields(base.profile, target.profile),
+    items,
+    otherInputsChanged:
+      diffFields(
+        { priorYear: base.priorYear, mappingRules: base.mappingRules, userOverrides: base.userOverrides },
+        { priorYear: target.priorYear, mappingRules: target.mappingRules, userOverrides: target.userOverrides }
+      ).length > 0
+  };
+}
+
+function taxValue(breakdown: TaxBreakdown, metric: RunTaxChange["metric"]): number {
+  return metric === "totalTax" ? (breakdown.totalTax ?? breakdown.federalTax) : breakdown.federalTax;
+}
+
+export function compareTax(base: TaxBreakdown, target: TaxBreakdown): RunTaxComparison {
+  const metric = base.totalTax !== null && target.totalTax !== null ? "totalTax" : "federalTax";
+  const from = taxValue(base, metric);
+  const to = taxValue(target, metric);
+  return { metric, from, to, delta: toDollars(subtractMoney(toMoney(to), toMoney(from))) };
+}
+
+function applyItemChange(
+  input: TaxComputationInput,
+  target: TaxComputationInput,
+  change: RunInputItemChange
+): TaxComputationInput {
+  const current = itemsOf(input, change.collection);
+  const targetItem = itemsOf(target, change.collection).find((item) => item.id === change.id);
+  if (change.change === "REMOVED" || !targetItem) {
+    return { ...input, [change.collection]: current.filter((item) => item.id !== change.id) };
+  }
+
+  const next =
+    change.change === "ADDED"
+      ? [...current, targetItem]
+      : current.map((item) => (item.id === change.id ? targetItem : item));
+  return { ...input, [change.collection]: next };
+}
+
+// Each step costs a full estimate inside a request, so only this many
+// income, deduction and payment changes are attributed one by one.
+const MAX_ITEM_ATTRIBUTIONS = 8;
+
+interface AttributionStep {
+  attribution: Omit<RunTaxAttribution, "taxDelta">;
+  apply: (input: TaxComputationInput) => TaxComputationInput;
+}
+
+// Changes are applied to the base inputs one at a time, rulesets first, and
+// each is credited with the tax change it causes given the ones before it.
+// The order therefore decides how interacting changes share the difference.
+// Transaction changes are applied together as one step; item changes past the
+// cap are not applied, so their effect stays in `unattributed`.
+export function attributeTaxChange(
+  base: TaxComputationInput,
+  target: TaxComputationInput,
+  inputs: RunInputDiff,
+  metric: RunTaxChange["metric"]
+): { attributions: RunTaxAttribution[]; unattributedItemCount: number } {
+  const steps: AttributionStep[] = [];
+
+  if (base.federalRuleset.id !== target.federalRuleset.id || base.stateRuleset.id !== target.stateRuleset.id) {
+    steps.push({
+      attribution: {
+        source: "RULESETS",
+        label: `Rulesets ${base.federalRuleset.id}/${base.stateRuleset.id} to ${target.federalRuleset.id}/${target.stateRuleset.id}`
+      },
+      apply: (input) => ({ ...input, federalRuleset: target.federalRuleset, stateRuleset: target.stateRuleset })
+    });
+  }
+
+  if (inputs.profile.length > 0) {
+    steps.push({
+      attribution: { source: "PROFILE", label: `Tax profile: ${inputs.profile.map((change) => change.field).join(", ")}` },
+      apply: (input) => ({ ...input, profile: target.profile })
+    });
+  }
+
+  const transactionChanges = inputs.items.filter((change) => change.collection === "transactions");
+  if (transactionChanges.length > 0) {
+    steps.push({
+      attribution: {
+        source: "TRANSACTIONS",
+        label: `${transactionChanges.length} transaction ${transactionChanges.length === 1 ? "change" : "changes"}`,
+        collection: "transactions"
+      },
+      apply: (input) => ({ ...input, transactions: target.transactions })
+    });
+  }
+
+  const itemChanges = inputs.items.filter((change) => change.collection !== "transactions");
+  for (const change of itemChanges.slice(0, MAX_ITEM_ATTRIBUTIONS)) {
+    steps.push({
+      attribution: {
+        source: "ITEM",
+        label: change.label,
+        collection: change.collection,
+        id: change.id,
+        change: change.change
+      },
+      apply: (input) => applyItemChange(input, target, change)
+    });
+  }
+
+  if (inputs.otherInputsChanged) {
+    steps.push({
+      attribution: { source: "OTHER_INPUTS", label: "Prior-year liability, categorization rules or overrides" },
+      apply: (input) => ({
+        ...input,
+        priorYear: target.priorYear,
+        mappingRules: target.mappingRules,
+        userOverrides: target.userOverrides
+      })
+    });
+  }
+
+  const estimateTax = (input: TaxComputationInput) =>
+    taxValue(computeTaxEstimate(input, { annualize: false }).breakdown, metric);
+  let current = base;
+  let previousTax = estimateTax(current);
+  const attributions = steps.map((step) => {
+    current = step.apply(current);
+    const tax = estimateTax(current);
+    const taxDelta = toDollars(subtractMoney(toMoney(tax), toMoney(previousTax)));
+    previousTax = tax;
+    return { ...step.attribution, taxDelta };
+  });
+
+  return {
+    attributions: attributions.sort((left, right) => Math.abs(right.taxDelta) - Math.abs(left.taxDelta)),
+    unattributedItemCount: Math.max(0, itemChanges.length - MAX_ITEM_ATTRIBUTIONS)
+  };
+}
+
+function diffFindings(base: RunFindingChange[], target: RunFindingChange[]) {
+  const baseCodes = new Set(base.map((item) => item.code));
+  const targetCodes = new Set(target.map((item) => item.code));
+  return {
+    appeared: target.filter((item) => !baseCodes.has(item.code)),
+    resolved: base.filter((item) => !targetCodes.has(item.code))
+  };
+}
+
+// Whatever the attributions do not explain, such as a calculator change
+// between the runs, is reported as `unattributed`.
+export function diffComputationRuns(base: ComputationRunRecord, target: ComputationRunRecord): ComputationRunDiff {
+  const comparison = compareTax(base.breakdown, target.breakdown);
+  const inputs = base.input && target.input ? diffComputationInputs(base.input, target.input) : null;
+  const { attributions, unattributedItemCount } =
+    base.input && target.input && inputs
+      ? attributeTaxChange(base.input, target.input, inputs, comparison.metric)
+      : { attributions: [], unattributedItemCount: 0 };
+
+  return {
+    baseRunId: base.id,
+    targetRunId: target.id,
+    rulesets: {
+      federal: { from: base.federalVersion, to: target.federalVersion },
+      state: { from: base.stateVersion, to: target.stateVersion },
+      changed: base.federalVersion !== target.federalVersion || base.stateVersion !== target.stateVersion
+    },
+    inputs,
+    totals: diffBreakdowns(base.breakdown, target.breakdown),
+    taxChange: {
+      ...comparison,
+      attributions,
+      unattributed: toDollars(
+        subtractMoney(toMoney(comparison.delta), sumMoney(attributions.map((item) => toMoney(item.taxDelta))))
+      ),
+      unattributedItemCount
+    },
+    riskFlags: diffFindings(base.riskFlags, target.riskFlags),
+    assumptions: diffFindings(base.assumptions, target.assumptions)
+  };
+}
@@ -0,0 +1,113 @@
+import { subtractMoney, toDollars, toMoney } from "../../shared/money.js";
+import { ADJUSTMENT_CODES } from "./adjustments.js";
+import type { ScenarioDelta, ScenarioFieldDelta, TaxBreakdown, TaxComputationInput } from "./types.js";
+
+export const SCENARIO_EXPENSE_CODE = "SCENARIO_EXPENSE";
+
+// Deltas are applied on top of the stored inputs in order; added records get
+// synthetic ids so they can be told apart in the explanation graph.
+export function applyScenarioDeltas(input: TaxComputationInput, deltas: ScenarioDelta[]): TaxComputationInput {
+  return deltas.reduce<TaxComputationInput>((current, delta, index) => {
+    const id = `scenario-${index + 1}`;
+
+    switch (delta.type) {
+      case "ADD_INCOME":
+        return {
+          ...current,
+          incomes: [
+            ...current.incomes,
+            {
+              id,
+              type: delta.incomeType,
+              label: delta.label ?? "Scenario income",
+              amount: delta.amount,
+              qualifiedDividends: delta.qualifiedDividends,
+              capitalGainTerm: delta.capitalGainTerm,
+              taxWithheldFederal: delta.taxWithheldFederal ?? 0,
+              taxWithheldState: delta.taxWithheldState ?? 0,
+              isConfirmed: true
+            }
+          ]
+        };
+      case "ADD_EXPENSE":
+        return {
+          ...current,
+          deductions: [
+            ...current.deductions,
+            {
+              id,
+              code: delta.code ?? SCENARIO_EXPENSE_CODE,
+              label: delta.label ?? "Scenario expense",
+              amount: delta.amount,
+              isConfirmed: true
+            }
+          ]
+        };
+      case "ADD_ADJUSTMENT":
+        return {
+          ...current,
+          deductions: [
+            ...current.deductions,
+            {
+              id,
+              code: ADJUSTMENT_CODES[delta.adjustmentType],
+              label: delta.label ?? "Scenario adjustment",
+              amount: delta.amount,
+              isConfirmed: true
+            }
+          ]
+        };
+      case "CHANGE_FILING_STATUS":
+        return {
+          ...current,
+          profile: {
+            ...current.profile,
+            filingStatus: delta.filingStatus
+          }
+        };
+      case "ADD_ESTIMATED_PAYMENT":
+        return {
+          ...current,
+          estimatedPayments: [
+            ...current.estimatedPayments,
+            {
+              id,
+              kind: "ESTIMATED_QUARTERLY",
+              quarter: delta.quarter ?? null,
+              amount: delta.amount,
+              paidAt: delta.paidAt
+            }
+          ]
+        };
+    }
+  }, input);
+}
+
+// Only top-level amounts are compared; the nested detail objects are covered by
+// the totals they feed into.
+export function diffBreakdowns(baseline: TaxBreakdown, scenario: TaxBreakdown): ScenarioFieldDelta[] {
+  const baselineValues = baseline as unknown as Record<string, unknown>;
+
+  return Object.entries(scenario as unknown as Record<string, unknown>)
+    .filter(([field, value]) => {
+      const baselineValue = baselineValues[field];
+      return (
+        (typeof value === "number" || value === null) &&
+        (typeof baselineValue === "number" || baselineValue === null) &&
+        value !== baselineValue
+      );
+    })
+    .map(([field, value]) => {
+      const baselineValue = baselineValues[field] as number | null;
+      const scenarioValue = value as number | null;
+      return {
+        field,
+        baseline: baselineValue,
+        scenario: scenarioValue,
+        delta:
+          baselineValue === null || scenarioValue === null
+            ? null
+            : toDollars(subtractMoney(toMoney(scenarioValue), toMoney(baselineValue)))
+      };
+    });
+}
@@ -1,33 +1,47 @@
-import type { ComputationAssumptionInput, RiskFlagInput, ScopeDecision, TaxProfileInput } from "./types.js";
+import type { StateRuleset } from "../rulesets/types.js";
+import type {
+  ComputationAssumptionInput,
+  IncomeInput,
+  RiskFlagInput,
+  ScopeDecision,
+  StateTaxModule,
+  TaxProfileInput
+} from "./types.js";
 
-export function evaluateScope(profile: TaxProfileInput): {
+// Residency and other state-specific rules come from the state module; the
+// checks below apply whichever state the profile is in.
+export function evaluateScope(
+  profile: TaxProfileInput,
+  incomes: IncomeInput[],
+  stateModule: StateTaxModule,
+  stateRuleset: StateRuleset
+): {
   scope: ScopeDecision;
   assumptions: ComputationAssumptionInput[];
   flags: RiskFlagInput[];
 } {
-  const reasons: string[] = [];
-  const reasonCodes: string[] = [];
-  const assumptions: ComputationAssumptionInput[] = [];
-  const flags: RiskFlagInput[] = [];
-  let status: ScopeDecision["status"] = "IN_SCOPE";
-  let recommendedNextStep = "Proceed with the standard compute flow.";
+  const stateScope = stateModule.evaluateScope(profile, incomes, stateRuleset);
+  const reasons: string[] = [...stateScope.reasons];
+  const reasonCodes: string[] = [...stateScope.reasonCodes];
+  const assumptions: ComputationAssumptionInput[] = [...stateScope.assumptions];
+  const flags: RiskFlagInput[] = [...stateScope.flags];
+  let status: ScopeDecision["status"] = stateScope.status;
+  let recommendedNextStep = stateScope.recommendedNextStep ?? "Proceed with the standard compute flow.";
 
-  if (profile.residentState !== "ND") {
-    status = "OUT_OF_SCOPE";
-    reasons.push("Resident state is not North Dakota.");
-    reasonCodes.push("NON_ND_RESIDENCY");
-    recommendedNextStep = "Use a multi-state tax workflow or route the case to manual review.";
-  }
-
-  if (!profile.isFullYearResident) {
+  // Interest, dividends and 1099-B term totals are handled by the preferential
+  // rate worksheet; only a 1099-B without a holding period needs attention.
+  const unclassifiedCapitalGains = incomes.filter(
+    (income) => income.type === "FORM_1099_B" && !income.capitalGainTerm
+  );
+  if (unclassifiedCapitalGains.length > 0) {
     status = status === "OUT_OF_SCOPE" ? status : "PARTIAL";
-    reasons.push("Part-year residency requires a more advanced state allocation module.");
-    reasonCodes.push("PART_YEAR_RESIDENCY");
-    recommendedNextStep = "Treat the output as partial and escalate to a state allocation workflow.";
+    reasons.push("Some 1099-B totals do not say whether the gains are short-term or long-term.");
+    reasonCodes.push("CAPITAL_GAIN_TERM_MISSING");
+    recommendedNextStep = "Record the holding period for each 1099-B total to apply long-term capital gain rates.";
     assumptions.push({
-      code: "FULL_YEAR_ND_ASSUMED_FALSE",
-      description: "Profile indicates part-year residency, which is only partially supported.",
-      impactLevel: "high",
+      code: "CAPITAL_GAINS_ASSUMED_SHORT_TERM",
+      description: "1099-B totals without a holding period were taxed as short-term gains at ordinary rates.",
+      impactLevel: "medium",
       userActionNeeded: true
     });
   }
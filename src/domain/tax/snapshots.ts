@@ -0,0 +1,35 @@
+import type { FederalRuleset, StateRuleset } from "../rulesets/types.js";
+import type { TaxComputationInput, TaxInputSnapshot } from "./types.js";
+
+export function createInputSnapshot(input: TaxComputationInput): TaxInputSnapshot {
+  const { federalRuleset: _federalRuleset, stateRuleset: _stateRuleset, ...snapshot } = input;
+  return snapshot;
+}
+
+// Runs stored before full snapshots were kept only have record counts.
+export function isInputSnapshot(value: unknown): value is TaxInputSnapshot {
+  const snapshot = value as Partial<TaxInputSnapshot> | null;
+  return (
+    typeof snapshot === "object" &&
+    snapshot !== null &&
+    typeof snapshot.profile === "object" &&
+    Array.isArray(snapshot.incomes) &&
+    Array.isArray(snapshot.transactions) &&
+    Array.isArray(snapshot.deductions)
+  );
+}
+
+export function restoreComputationInput(
+  snapshot: TaxInputSnapshot,
+  federalRuleset: FederalRuleset,
+  stateRuleset: StateRuleset
+): TaxComputationInput {
+  return {
+    ...snapshot,
+    estimatedPayments: snapshot.estimatedPayments ?? [],
+    mappingRules: snapshot.mappingRules ?? [],
+    userOverrides: snapshot.userOverrides ?? [],
+    federalRuleset,
+    stateRuleset
+  };
+}
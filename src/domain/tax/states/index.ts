@@ -0,0 +1,40 @@
+import { wholeDollars } from "../../../shared/money.js";
+import type { DeductionInput, StateTaxComputation, StateTaxContext, StateTaxModule } from "../types.js";
+import { createNoIncomeTaxModule } from "./no-income-tax.js";
+import { northDakotaTaxModule } from "./north-dakota.js";
+
+const stateTaxModules: StateTaxModule[] = [northDakotaTaxModule, createNoIncomeTaxModule("SD", "South Dakota")];
+
+export function resolveStateTaxModule(stateCode: string): StateTaxModule {
+  const stateModule = stateTaxModules.find((item) => item.stateCode === stateCode);
+  if (!stateModule) {
+    throw new Error(`No state tax module for ${stateCode}`);
+  }
+
+  return stateModule;
+}
+
+// State-specific deduction items are never business expenses, whichever
+// state's ruleset is active.
+export function isStateDeduction(deduction: DeductionInput): boolean {
+  return stateTaxModules.some((stateModule) => stateModule.isStateDeduction(deduction));
+}
+
+export function computeStateTax(stateModule: StateTaxModule, context: StateTaxContext): StateTaxComputation | null {
+  const taxableIncome = stateModule.deriveTaxableIncome(context);
+  const bracketTax = stateModule.applyBrackets(context, taxableIncome);
+  if (bracketTax === null) {
+    return null;
+  }
+
+  const creditDetails = stateModule.applyCredits(context, taxableIncome, bracketTax.taxBeforeCredits);
+  const credits = creditDetails?.total ?? 0;
+  // The tax line of the state return is entered in whole dollars.
+  return {
+    ...taxableIncome,
+    ...bracketTax,
+    creditDetails,
+    credits,
+    tax: wholeDollars(bracketTax.taxBeforeCredits - credits)
+  };
+}
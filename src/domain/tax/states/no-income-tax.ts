@@ -0,0 +1,54 @@
+import type { StateTaxModule } from "../types.js";
+
+// States without a personal income tax: taxable income is carried over from
+// the federal return for reference and the state tax is always zero.
+export function createNoIncomeTaxModule(stateCode: string, name: string): StateTaxModule {
+  return {
+    stateCode,
+    name,
+    isStateDeduction: () => false,
+    evaluateScope: (profile, _incomes, ruleset) =>
+      profile.residentState === ruleset.stateCode
+        ? { status: "IN_SCOPE", reasons: [], reasonCodes: [], recommendedNextStep: null, assumptions: [], flags: [] }
+        : {
+            status: "OUT_OF_SCOPE",
+            reasons: [`Resident state is not ${name}.`],
+            reasonCodes: ["NON_RESIDENT_STATE"],
+            recommendedNextStep: "Use a multi-state tax workflow or route the case to manual review.",
+            assumptions: [],
+            flags: []
+          },
+    deriveTaxableIncome: (context) => ({ taxableIncome: context.federalTaxableIncome, adjustments: null }),
+    applyBrackets: () => ({ brackets: null, fullYearTax: 0, partYearAllocation: null, taxBeforeCredits: 0 }),
+    applyCredits: () => null,
+    // There is no state withholding to credit; anything withheld on a W-2 was
+    // for the work state.
+    sumWithholding: () => 0,
+    buildAssumptions: (profile, _incomes, ruleset, computation) =>
+      computation !== null && profile.residentState === ruleset.stateCode
+        ? [
+            {
+              code: "STATE_HAS_NO_INCOME_TAX",
+              description: `${name} does not tax individual income, so no state income tax was computed.`,
+              impactLevel: "low",
+              userActionNeeded: false
+            }
+          ]
+        : [],
+    buildRiskFlags: () => [],
+    buildExplanation: (computation, stateStatus) => ({
+      nodeId: "state",
+      label: `${name} tax`,
+      formula: computation === null ? "state computation blocked" : `${name} has no individual income tax`,
+      inputs: {
+        taxableIncomeState: computation?.taxableIncome ?? null,
+        stateStatus
+      },
+      outputs: {
+        stateTax: computation?.tax ?? null
+      },
+      children: [],
+      transactionRefs: []
+    })
+  };
+}
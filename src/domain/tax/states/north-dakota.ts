@@ -0,0 +1,370 @@
+import { addMoney, subtractMoney, sumMoney, toDollars, toMoney } from "../../../shared/money.js";
+import type { StateRuleset } from "../../rulesets/types.js";
+import { buildBracketExplanation, computeBracketTax } from "../brackets.js";
+import { computeNdAdjustments, computeNdCredits, isNdDeduction } from "../nd-adjustments.js";
+import { computeNdPartYearAllocation, hasNdResidencyPeriod } from "../nd-part-year.js";
+import {
+  buildReciprocityWithholdingRiskFlag,
+  findReciprocityAgreement,
+  isOtherStateIncome,
+  isReciprocityIncome,
+  sumOtherStateWithholding
+} from "../reciprocity.js";
+import type {
+  BracketScheduleAnalysis,
+  ComputationAssumptionInput,
+  ExplanationNode,
+  IncomeInput,
+  NdAdjustmentDetails,
+  NdCreditDetails,
+  NdPartYearAllocationDetails,
+  RiskFlagInput,
+  StateScopeDecision,
+  StateTaxComputation,
+  StateTaxModule,
+  TaxProfileInput
+} from "../types.js";
+
+function evaluateNdScope(profile: TaxProfileInput, incomes: IncomeInput[], ruleset: StateRuleset): StateScopeDecision {
+  const decision: StateScopeDecision = {
+    status: "IN_SCOPE",
+    reasons: [],
+    reasonCodes: [],
+    recommendedNextStep: null,
+    assumptions: [],
+    flags: []
+  };
+
+  const residentStateAgreement = findReciprocityAgreement(ruleset, profile.residentState);
+  if (profile.residentState !== ruleset.stateCode && residentStateAgreement) {
+    decision.status = "OUT_OF_SCOPE";
+    decision.reasons.push(
+      `${profile.residentState} residents owe no North Dakota income tax on wages earned in North Dakota under the reciprocity agreement; their income tax is filed with ${profile.residentState}, which is not computed here.`
+    );
+    decision.reasonCodes.push("ND_RECIPROCITY_NONRESIDENT");
+    decision.recommendedNextStep = `Give North Dakota employers Form ${residentStateAgreement.nonresidentExemptionForm} to stop ND withholding and use a ${profile.residentState} return workflow.`;
+  } else if (profile.residentState !== ruleset.stateCode) {
+    decision.status = "OUT_OF_SCOPE";
+    decision.reasons.push("Resident state is not North Dakota.");
+    decision.reasonCodes.push("NON_ND_RESIDENCY");
+    decision.recommendedNextStep = "Use a multi-state tax workflow or route the case to manual review.";
+  }
+
+  // Without the credit for tax paid to another state in the ruleset, the ND
+  // figure double-taxes income earned in a non-reciprocity state.
+  const otherStateIncome = incomes.filter((income) => isOtherStateIncome(income, ruleset));
+  if (profile.residentState === ruleset.stateCode && otherStateIncome.length > 0 && !ruleset.credits?.taxPaidToOtherState) {
+    decision.status = decision.status === "OUT_OF_SCOPE" ? decision.status : "PARTIAL";
+    decision.reasons.push("Some income was earned in a state without a reciprocity agreement with North Dakota.");
+    decision.reasonCodes.push("OTHER_STATE_SOURCE_INCOME");
+    decision.recommendedNextStep =
+      "Review the nonresident return for the work state and the North Dakota credit for tax paid to another state.";
+    decision.assumptions.push({
+      code: "OTHER_STATE_TAX_CREDIT_NOT_APPLIED",
+      description: `Income earned in ${[...new Set(otherStateIncome.map((income) => income.workState))].join(", ")} was taxed by North Dakota without a credit for income tax paid to that state.`,
+      impactLevel: "high",
+      userActionNeeded: true
+    });
+  }
+
+  // With a move-in or move-out date the ND-1NR allocation handles part-year
+  // residency; without one the state tax is still a full-year figure.
+  if (!hasNdResidencyPeriod(profile) && !profile.isFullYearResident) {
+    decision.status = decision.status === "OUT_OF_SCOPE" ? decision.status : "PARTIAL";
+    decision.reasons.push("Part-year residency needs a North Dakota move-in or move-out date to allocate income.");
+    decision.reasonCodes.push("PART_YEAR_RESIDENCY");
+    decision.recommendedNextStep =
+      "Record the North Dakota residency dates on the tax profile to apply the Schedule ND-1NR allocation.";
+    decision.assumptions.push({
+      code: "FULL_YEAR_ND_ASSUMED_FALSE",
+      description:
+        "Profile indicates part-year residency without residency dates, so North Dakota tax was computed as if for the full year.",
+      impactLevel: "high",
+      userActionNeeded: true
+    });
+  }
+
+  return decision;
+}
+
+// State withholding on a W-2 is reported for its work state, so only tax
+// withheld for North Dakota counts against ND tax.
+function sumNdWithholding(incomes: IncomeInput[], ruleset: StateRuleset): number {
+  return toDollars(
+    subtractMoney(
+      sumMoney(incomes.map((income) => toMoney(income.taxWithheldState ?? 0))),
+      toMoney(sumOtherStateWithholding(incomes, ruleset))
+    )
+  );
+}
+
+function buildNdAssumptions(
+  profile: TaxProfileInput,
+  incomes: IncomeInput[],
+  ruleset: StateRuleset,
+  computation: StateTaxComputation | null
+): ComputationAssumptionInput[] {
+  const assumptions: ComputationAssumptionInput[] = [];
+  if (ruleset.computable && profile.residentState === ruleset.stateCode) {
+    assumptions.push({
+      code: "ND_2026_RATE_SCHEDULE_APPLIED",
+      description:
+        "North Dakota 2026 state tax uses the official 2026 ND-1ES rate schedule. The ND-1 additions, subtractions, and credits in the state ruleset follow the 2025 instruction booklet until the 2026 booklet is published.",
+      impactLevel: "medium",
+      userActionNeeded: false
+    });
+  }
+  if (profile.residentState === ruleset.stateCode && incomes.some((income) => isReciprocityIncome(income, ruleset))) {
+    assumptions.push({
+      code: "STATE_RECIPROCITY_APPLIED",
+      description:
+        "Wages earned in a reciprocity state were taxed only by North Dakota, and state tax withheld for the work state was not credited against North Dakota tax.",
+      impactLevel: "low",
+      userActionNeeded: false
+    });
+  }
+  if (computation?.creditDetails?.taxPaidToOtherState?.taxPaidSource === "WITHHOLDING") {
+    assumptions.push({
+      code: "OTHER_STATE_TAX_FROM_WITHHOLDING",
+      description:
+        "The credit for tax paid to another state uses the other state's withholding because no tax paid to that state was recorded.",
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+
+  const partYearAllocation = computation?.partYearAllocation ?? null;
+  if (partYearAllocation) {
+    assumptions.push({
+      code: "ND_PART_YEAR_INCOME_RATIO_APPLIED",
+      description: `North Dakota tax was prorated by the Schedule ND-1NR income ratio (${partYearAllocation.incomeRatio}) for residency from ${partYearAllocation.residencyStartDate} to ${partYearAllocation.residencyEndDate}.`,
+      impactLevel: "low",
+      userActionNeeded: false
+    });
+  }
+  if (partYearAllocation && partYearAllocation.proratedIncomeIds.length > 0) {
+    assumptions.push({
+      code: "ND_SOURCE_INCOME_PRORATED_BY_DAYS",
+      description:
+        "Income records without a North Dakota source amount were allocated to North Dakota by the share of the year spent as a resident.",
+      impactLevel: "medium",
+      userActionNeeded: true
+    });
+  }
+
+  return assumptions;
+}
+
+function buildNdRiskFlags(incomes: IncomeInput[], ruleset: StateRuleset): RiskFlagInput[] {
+  const reciprocityFlag = buildReciprocityWithholdingRiskFlag(incomes, ruleset);
+  return reciprocityFlag ? [reciprocityFlag] : [];
+}
+
+function buildNdAdjustmentExplanation(details: NdAdjustmentDetails): ExplanationNode {
+  const lines = [...details.additions, ...details.subtractions];
+  return {
+    nodeId: "taxable-income",
+    label: "North Dakota taxable income",
+    formula: "federal taxable income + ND-1 additions - ND-1 subtractions",
+    inputs: {
+      federalTaxableIncome: details.federalTaxableIncome,
+      ...Object.fromEntries(lines.map((line) => [line.code, line.amount]))
+    },
+    outputs: {
+      totalAdditions: details.totalAdditions,
+      totalSubtractions: details.totalSubtractions,
+      taxableIncomeState: details.taxableIncome
+    },
+    children: [],
+    transactionRefs: []
+  };
+}
+
+function buildNdCreditExplanation(details: NdCreditDetails): ExplanationNode {
+  return {
+    nodeId: "credits",
+    label: "North Dakota credits",
+    formula: "min(marriage penalty credit + credit for tax paid to another state, ND tax before credits)",
+    inputs: {
+      taxBeforeCredits: details.taxBeforeCredits,
+      jointTax: details.marriagePenalty?.jointTax ?? null,
+      separateTax: details.marriagePenalty?.separateTax ?? null,
+      otherStateIncome: details.taxPaidToOtherState?.otherStateIncome ?? null,
+      otherStateTaxPaid: details.taxPaidToOtherState?.taxPaid ?? null,
+      otherStateCreditLimitation: details.taxPaidToOtherState?.limitation ?? null
+    },
+    outputs: {
+      marriagePenaltyCredit: details.marriagePenalty?.credit ?? 0,
+      taxPaidToOtherStateCredit: details.taxPaidToOtherState?.credit ?? 0,
+      ndCredits: details.total
+    },
+    children: [
+      ...(details.marriagePenalty
+        ? [
+            {
+              nodeId: "marriage-penalty-credit",
+              label: "Marriage penalty credit",
+              formula: "min(joint tax - single-rate tax on each spouse's share of taxable income, credit cap)",
+              inputs: {
+                taxpayerQualifiedIncome: details.marriagePenalty.taxpayerQualifiedIncome,
+                spouseQualifiedIncome: details.marriagePenalty.spouseQualifiedIncome,
+                jointTax: details.marriagePenalty.jointTax,
+                separateTax: details.marriagePenalty.separateTax,
+                maximumCredit: details.marriagePenalty.maximumCredit
+              },
+              outputs: {
+                marriagePenaltyCredit: details.marriagePenalty.credit
+              },
+              children: [],
+              transactionRefs: []
+            }
+          ]
+        : []),
+      ...(details.taxPaidToOtherState
+        ? [
+            {
+              nodeId: "tax-paid-to-other-state-credit",
+              label: "Credit for income tax paid to another state",
+              formula: "min(tax paid to the other state, ND tax before credits x other-state income / ND income)",
+              inputs: {
+                otherStateIncome: details.taxPaidToOtherState.otherStateIncome,
+                ndIncome: details.taxPaidToOtherState.ndIncome,
+                otherStateTaxPaid: details.taxPaidToOtherState.taxPaid,
+                taxPaidSource: details.taxPaidToOtherState.taxPaidSource
+              },
+              outputs: {
+                limitation: details.taxPaidToOtherState.limitation,
+                taxPaidToOtherStateCredit: details.taxPaidToOtherState.credit
+              },
+              children: [],
+              transactionRefs: []
+            }
+          ]
+        : [])
+    ],
+    transactionRefs: []
+  };
+}
+
+function buildNdPartYearExplanation(details: NdPartYearAllocationDetails): ExplanationNode {
+  return {
+    nodeId: "part-year-allocation",
+    label: "Schedule ND-1NR income allocation",
+    formula: "ND-source income / federal AGI, applied to tax on the full taxable income",
+    inputs: {
+      residencyStartDate: details.residencyStartDate,
+      residencyEndDate: details.residencyEndDate,
+      residentDays: details.residentDays,
+      wages: details.wages,
+      scheduleCNetProfit: details.scheduleCNetProfit,
+      otherIncome: details.otherIncome,
+      investmentIncome: details.investmentIncome,
+      selfEmploymentTaxDeduction: details.selfEmploymentTaxDeduction,
+      adjustedGrossIncome: details.adjustedGrossIncome,
+      fullYearTax: details.fullYearTax
+    },
+    outputs: {
+      ndSourceIncome: details.ndSourceIncome,
+      incomeRatio: details.incomeRatio,
+      stateTax: details.tax
+    },
+    children: [],
+    transactionRefs: []
+  };
+}
+
+function buildNdExplanation(
+  computation: StateTaxComputation | null,
+  stateStatus: string,
+  schedule: BracketScheduleAnalysis | null
+): ExplanationNode {
+  return {
+    nodeId: "state",
+    label: "North Dakota tax",
+    formula:
+      computation === null
+        ? "state computation blocked"
+        : computation.partYearAllocation === null
+          ? "state ruleset brackets on ND taxable income - ND credits"
+          : "state ruleset brackets on ND taxable income x Schedule ND-1NR income ratio - ND credits",
+    inputs: {
+      taxableIncomeState: computation?.taxableIncome ?? null,
+      stateStatus,
+      ndIncomeRatio: computation?.partYearAllocation?.incomeRatio ?? null
+    },
+    outputs: {
+      ndCredits: computation?.credits ?? 0,
+      stateTax: computation?.tax ?? null,
+      marginalRate: schedule?.marginalRate ?? null,
+      headroomToNextBracket: schedule?.headroomToNextBracket ?? null
+    },
+    children: [
+      ...(computation?.adjustments ? [buildNdAdjustmentExplanation(computation.adjustments)] : []),
+      ...buildBracketExplanation(schedule),
+      ...(computation?.partYearAllocation ? [buildNdPartYearExplanation(computation.partYearAllocation)] : []),
+      ...(computation?.creditDetails ? [buildNdCreditExplanation(computation.creditDetails)] : [])
+    ],
+    transactionRefs: []
+  };
+}
+
+export const northDakotaTaxModule: StateTaxModule = {
+  stateCode: "ND",
+  name: "North Dakota",
+  isStateDeduction: isNdDeduction,
+  evaluateScope: evaluateNdScope,
+  deriveTaxableIncome: (context) => {
+    const adjustments = computeNdAdjustments({
+      federalTaxableIncome: context.federalTaxableIncome,
+      income: context.income,
+      deductions: context.deductions,
+      ruleset: context.ruleset
+    });
+    return { taxableIncome: adjustments.taxableIncome, adjustments };
+  },
+  applyBrackets: (context, taxableIncome) => {
+    const brackets = context.ruleset.brackets?.[context.filingStatus];
+    if (!brackets) {
+      return null;
+    }
+
+    const fullYearTax = computeBracketTax(taxableIncome.taxableIncome, brackets);
+    const partYearAllocation = computeNdPartYearAllocation({
+      profile: context.profile,
+      incomes: context.incomes,
+      transactions: context.transactions,
+      expenseTransactions: context.expenseTransactions,
+      businessDeductions: context.businessDeductions,
+      capitalLossLimit: context.capitalLossLimit,
+      scheduleCNetProfit: context.income.scheduleCNetProfit,
+      selfEmploymentTaxDeduction: context.selfEmploymentTaxDeduction,
+      adjustedGrossIncome: context.adjustedGrossIncome,
+      fullYearTax
+    });
+    return {
+      brackets,
+      fullYearTax,
+      partYearAllocation,
+      taxBeforeCredits: partYearAllocation?.tax ?? fullYearTax
+    };
+  },
+  applyCredits: (context, taxableIncome, taxBeforeCredits) =>
+    computeNdCredits({
+      filingStatus: context.filingStatus,
+      taxBeforeCredits,
+      ndTaxableIncome: taxableIncome.taxableIncome,
+      ndIncome: toDollars(
+        subtractMoney(
+          addMoney(toMoney(context.adjustedGrossIncome), toMoney(taxableIncome.adjustments?.totalAdditions ?? 0)),
+          toMoney(taxableIncome.adjustments?.totalSubtractions ?? 0)
+        )
+      ),
+      incomes: context.incomes,
+      deductions: context.deductions,
+      ruleset: context.ruleset
+    }),
+  sumWithholding: sumNdWithholding,
+  buildAssumptions: buildNdAssumptions,
+  buildRiskFlags: buildNdRiskFlags,
+  buildExplanation: buildNdExplanation
+};
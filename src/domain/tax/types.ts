@@ -1,25 +1,40 @@
-import type { FilingStatusCode, FederalRuleset, StateRuleset } from "../rulesets/types.js";
+import type { FilingStatusCode, FederalRuleset, StateRuleset, TaxBracket } from "../rulesets/types.js";
 
-export type IncomeTypeCode = "W2" | "FORM_1099_MISC" | "FORM_1099_NEC" | "BUSINESS_GROSS" | "OTHER_TAXABLE";
+export type IncomeTypeCode =
+  | "W2"
+  | "FORM_1099_MISC"
+  | "FORM_1099_NEC"
+  | "FORM_1099_INT"
+  | "FORM_1099_DIV"
+  | "FORM_1099_B"
+  | "BUSINESS_GROSS"
+  | "OTHER_TAXABLE";
+export type CapitalGainTermCode = "SHORT_TERM" | "LONG_TERM";
 export type DirectionCode = "INCOME" | "EXPENSE";
 export type CategorySourceCode = "RULE" | "HEURISTIC" | "ML" | "USER" | "MANUAL";
 export type ImpactLevel = "low" | "medium" | "high";
 export type ScopeStatusCode = "IN_SCOPE" | "PARTIAL" | "OUT_OF_SCOPE";
 export type EstimateStatusCode = "FULL" | "PARTIAL" | "BLOCKED";
+export type SpouseOwnerCode = "TAXPAYER" | "SPOUSE" | "JOINT";
+export type AdjustmentTypeCode = "SEP_IRA" | "TRADITIONAL_IRA" | "HSA";
 
 export interface TaxProfileInput {
   userId: string;
   taxYear: number;
   filingStatus: FilingStatusCode | null;
   dependentsCount: number;
+  qualifyingChildrenCount?: number | null;
   residentState: string;
   residentCity?: string | null;
   residentZip?: string | null;
   county?: string | null;
   isFullYearResident: boolean;
+  ndResidencyStartDate?: string | null;
+  ndResidencyEndDate?: string | null;
   hasNdSalesTaxNexus?: boolean;
   salesTaxFilingFrequency?: "MONTHLY" | "QUARTERLY" | "ANNUAL" | null;
   standardDeductionForced?: boolean | null;
+  itemizedDeductionRequired?: boolean;
   itemizedDeductionAmount?: number | null;
   hasForeignIncome?: boolean;
   hasK1?: boolean;
@@ -32,21 +47,34 @@ export interface IncomeInput {
   type: IncomeTypeCode;
   label: string;
   amount: number;
+  qualifiedDividends?: number | null;
+  capitalGainTerm?: CapitalGainTermCode | null;
   payerName?: string | null;
   taxWithheldFederal?: number;
   taxWithheldState?: number;
   taxWithheldLocal?: number;
   taxWithheldMedicare?: number;
   taxWithheldSocialSecurity?: number;
+  ndSourceAmount?: number | null;
+  workState?: string | null;
+  owner?: SpouseOwnerCode;
   isConfirmed: boolean;
 }
 
+export interface PriorYearLiabilityInput {
+  adjustedGrossIncome: number;
+  totalTax: number;
+  source: "PROFILE" | "COMPUTATION_RUN";
+  runId?: string | null;
+}
+
 export interface EstimatedPaymentInput {
   id: string;
   kind: "ESTIMATED_QUARTERLY" | "EXTENSION" | "OTHER";
   quarter?: number | null;
   amount: number;
   paidAt: string;
+  owner?: SpouseOwnerCode;
 }
 
 export interface TransactionInput {
@@ -61,6 +89,10 @@ export interface TransactionInput {
   categoryReason?: string | null;
   categorySource?: CategorySourceCode;
   isReviewed?: boolean;
+  owner?: SpouseOwnerCode;
+  isTaxableSale?: boolean | null;
+  salesTaxZip?: string | null;
+  isUseTaxLiable?: boolean | null;
 }
 
 export interface DeductionInput {
@@ -69,6 +101,7 @@ export interface DeductionInput {
   label: string;
   amount: number;
   isConfirmed: boolean;
+  owner?: SpouseOwnerCode;
 }
 
 export interface CategoryRuleInput {
@@ -79,6 +112,9 @@ export interface CategoryRuleInput {
   amountMax?: number | null;
   confidenceBase: number;
   reason: string;
+  // Marks purchases from matching vendors as owing ND use tax because the
+  // vendor does not collect ND sales tax.
+  useTaxLiable?: boolean;
 }
 
 export interface UserOverrideInput {
@@ -128,6 +164,8 @@ export interface RiskFlagInput {
   evidence?: Record<string, unknown>;
 }
 
+// `nodeId` is the path of node keys from the root, for example
+// "estimate/balance-due/estimated-payments/payment:<id>".
 export interface ExplanationNode {
   nodeId: string;
   label: string;
@@ -136,8 +174,13 @@ export interface ExplanationNode {
   outputs: Record<string, unknown>;
   children: ExplanationNode[];
   transactionRefs: string[];
+  incomeSourceRefs?: string[];
+  estimatedPaymentRefs?: string[];
 }
 
+// "text" is the indented outline embedded in the tax pack PDF.
+export type ExplanationFormat = "mermaid" | "dot" | "html" | "text";
+
 export interface ScopeDecision {
   status: ScopeStatusCode;
   reasons: string[];
@@ -165,9 +208,20 @@ export interface FederalComputationStatus {
   effectiveRate?: number | null;
 }
 
+export type EstimatedPaymentPlanBasis = "CURRENT_YEAR_90" | "PRIOR_YEAR_SAFE_HARBOR" | "ANNUALIZED_INCOME";
+
 export interface EstimatedPaymentRecommendation {
   dueDate: string;
   amount: number;
+  basis: EstimatedPaymentPlanBasis;
+}
+
+export interface EstimatedPaymentPlanOption {
+  basis: EstimatedPaymentPlanBasis;
+  requiredAnnualPayment: number;
+  remainingAmount: number;
+  installments: EstimatedPaymentRecommendation[];
+  recommended: boolean;
 }
 
 export interface SelfEmploymentTaxDetails {
@@ -175,7 +229,303 @@ export interface SelfEmploymentTaxDetails {
   deductibleHalf: number;
   socialSecurityPortion: number;
   medicarePortion: number;
-  additionalMedicarePortion: number;
+}
+
+export interface AdditionalMedicareTaxDetails {
+  medicareWages: number;
+  selfEmploymentEarnings: number;
+  threshold: number;
+  wagesOverThreshold: number;
+  selfEmploymentThreshold: number;
+  selfEmploymentEarningsOverThreshold: number;
+  taxOnWages: number;
+  taxOnSelfEmploymentEarnings: number;
+  tax: number;
+  medicareTaxWithheld: number;
+  regularMedicareTaxWithholding: number;
+  additionalMedicareTaxWithheld: number;
+}
+
+export interface NetInvestmentIncomeTaxDetails {
+  interestIncome: number;
+  ordinaryDividends: number;
+  capitalGainOrLoss: number;
+  netInvestmentIncome: number;
+  modifiedAdjustedGrossIncome: number;
+  threshold: number;
+  incomeOverThreshold: number;
+  tax: number;
+}
+
+export interface ChildTaxCreditDetails {
+  qualifyingChildren: number;
+  otherDependents: number;
+  tentativeCredit: number;
+  phaseOutReduction: number;
+  allowedCredit: number;
+  nonrefundablePortion: number;
+  refundablePortion: number;
+}
+
+export interface EarnedIncomeCreditDetails {
+  qualifyingChildren: number;
+  earnedIncome: number;
+  adjustedGrossIncome: number;
+  investmentIncome: number;
+  phaseInCredit: number;
+  phaseOutReduction: number;
+  credit: number;
+  disqualificationReason: string | null;
+}
+
+export interface QualifiedBusinessIncomeDetails {
+  scheduleCNetProfit: number;
+  selfEmploymentTaxAdjustment: number;
+  qualifiedBusinessIncome: number;
+  tentativeDeduction: number;
+  taxableIncomeBeforeDeduction: number;
+  phaseInPercentage: number;
+  wageLimitationReduction: number;
+  taxableIncomeLimitation: number;
+  deduction: number;
+}
+
+export interface PreferentialRateTaxDetails {
+  taxableIncome: number;
+  qualifiedDividends: number;
+  netCapitalGain: number;
+  ordinaryIncome: number;
+  taxedAtZeroRate: number;
+  taxedAtFifteenRate: number;
+  taxedAtTwentyRate: number;
+  ordinaryIncomeTax: number;
+  preferentialTax: number;
+  regularTax: number;
+  tax: number;
+}
+
+export interface NdPartYearAllocationDetails {
+  residencyStartDate: string;
+  residencyEndDate: string;
+  residentDays: number;
+  daysInYear: number;
+  wages: number;
+  scheduleCNetProfit: number;
+  otherIncome: number;
+  investmentIncome: number;
+  selfEmploymentTaxDeduction: number;
+  ndSourceIncome: number;
+  adjustedGrossIncome: number;
+  incomeRatio: number;
+  proratedIncomeIds: string[];
+  fullYearTax: number;
+  tax: number;
+}
+
+export interface NdAdjustmentLine {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export interface NdAdjustmentDetails {
+  federalTaxableIncome: number;
+  additions: NdAdjustmentLine[];
+  subtractions: NdAdjustmentLine[];
+  totalAdditions: number;
+  totalSubtractions: number;
+  taxableIncome: number;
+}
+
+export interface NdCreditDetails {
+  taxBeforeCredits: number;
+  marriagePenalty: {
+    taxpayerQualifiedIncome: number;
+    spouseQualifiedIncome: number;
+    jointTax: number;
+    separateTax: number;
+    maximumCredit: number | null;
+    credit: number;
+  } | null;
+  taxPaidToOtherState: {
+    otherStateIncome: number;
+    ndIncome: number;
+    taxPaid: number;
+    taxPaidSource: "DEDUCTION_ITEM" | "WITHHOLDING";
+    limitation: number;
+    credit: number;
+  } | null;
+  total: number;
+}
+
+export interface StateTaxContext {
+  filingStatus: FilingStatusCode;
+  profile: TaxProfileInput;
+  incomes: IncomeInput[];
+  deductions: DeductionInput[];
+  transactions: TransactionInput[];
+  expenseTransactions: TransactionInput[];
+  businessDeductions: DeductionInput[];
+  income: IncomeAggregation;
+  capitalLossLimit: number;
+  adjustedGrossIncome: number;
+  federalTaxableIncome: number;
+  selfEmploymentTaxDeduction: number;
+  ruleset: StateRuleset;
+}
+
+export interface StateTaxableIncome {
+  taxableIncome: number;
+  adjustments: NdAdjustmentDetails | null;
+}
+
+export interface StateBracketTax {
+  brackets: TaxBracket[] | null;
+  fullYearTax: number;
+  partYearAllocation: NdPartYearAllocationDetails | null;
+  taxBeforeCredits: number;
+}
+
+export interface StateTaxComputation extends StateTaxableIncome, StateBracketTax {
+  creditDetails: NdCreditDetails | null;
+  credits: number;
+  tax: number;
+}
+
+export interface StateScopeDecision {
+  status: ScopeStatusCode;
+  reasons: string[];
+  reasonCodes: string[];
+  recommendedNextStep: string | null;
+  assumptions: ComputationAssumptionInput[];
+  flags: RiskFlagInput[];
+}
+
+// One state's income tax rules. The calculator owns federal tax and the
+// residency gate; a module takes over from federal taxable income and returns
+// null from applyBrackets when its ruleset cannot produce a tax.
+export interface StateTaxModule {
+  stateCode: string;
+  name: string;
+  isStateDeduction(deduction: DeductionInput): boolean;
+  evaluateScope(profile: TaxProfileInput, incomes: IncomeInput[], ruleset: StateRuleset): StateScopeDecision;
+  deriveTaxableIncome(context: StateTaxContext): StateTaxableIncome;
+  applyBrackets(context: StateTaxContext, taxableIncome: StateTaxableIncome): StateBracketTax | null;
+  applyCredits(
+    context: StateTaxContext,
+    taxableIncome: StateTaxableIncome,
+    taxBeforeCredits: number
+  ): NdCreditDetails | null;
+  sumWithholding(incomes: IncomeInput[], ruleset: StateRuleset): number;
+  buildAssumptions(
+    profile: TaxProfileInput,
+    incomes: IncomeInput[],
+    ruleset: StateRuleset,
+    computation: StateTaxComputation | null
+  ): ComputationAssumptionInput[];
+  buildRiskFlags(incomes: IncomeInput[], ruleset: StateRuleset): RiskFlagInput[];
+  buildExplanation(
+    computation: StateTaxComputation | null,
+    stateStatus: string,
+    schedule: BracketScheduleAnalysis | null
+  ): ExplanationNode;
+}
+
+export interface BracketPosition {
+  min: number;
+  max: number | null;
+  rate: number;
+  taxedAmount: number;
+  tax: number;
+}
+
+export interface BracketScheduleAnalysis {
+  taxableIncome: number;
+  brackets: BracketPosition[];
+  tax: number;
+  marginalRate: number;
+  headroomToNextBracket: number | null;
+  nextBracketRate: number | null;
+}
+
+export interface BracketAnalysis {
+  federal: BracketScheduleAnalysis | null;
+  state: BracketScheduleAnalysis | null;
+  selfEmploymentMarginalRate: number;
+  combinedMarginalRate: number;
+}
+
+export interface ItemizedDeductionDetails {
+  stateAndLocalTaxesPaid: number;
+  saltCap: number;
+  saltPhaseDownReduction: number;
+  stateAndLocalTaxes: number;
+  mortgageInterest: number;
+  medicalExpensesPaid: number;
+  medicalExpenseFloor: number;
+  medicalExpenses: number;
+  charitableCash: number;
+  charitableNonCash: number;
+  charitableAgiLimitReduction: number;
+  charitableFloor: number;
+  charitableContributions: number;
+  total: number;
+}
+
+export interface UnderpaymentInstallment {
+  dueDate: string;
+  requiredInstallment: number;
+  withholdingCredit: number;
+  paymentsApplied: number;
+  underpayment: number;
+  penalty: number;
+}
+
+export interface AnnualizedPeriodTax {
+  periodEnd: string;
+  annualizationFactor: number;
+  applicablePercentage: number;
+  annualizedIncome: number;
+  annualizedTax: number;
+}
+
+export interface AnnualizedInstallment extends AnnualizedPeriodTax {
+  annualizedInstallment: number;
+  regularInstallment: number;
+  requiredInstallment: number;
+}
+
+export interface UnderpaymentPenaltyDetails {
+  currentYearTax: number;
+  priorYearRequiredPayment: number | null;
+  requiredAnnualPayment: number;
+  withholding: number;
+  method: "REGULAR" | "ANNUALIZED_INCOME";
+  installments: UnderpaymentInstallment[];
+  annualizedInstallments: AnnualizedInstallment[];
+  penalty: number;
+  exemptionReason: string | null;
+}
+
+export interface IncomeAggregation {
+  wages: number;
+  scheduleCGrossReceipts: number;
+  scheduleCReceiptsFromIncomeSources: number;
+  scheduleCReceiptsFromTransactions: number;
+  scheduleCNetProfit: number;
+  otherIncome: number;
+  interestIncome: number;
+  ordinaryDividends: number;
+  qualifiedDividends: number;
+  shortTermCapitalGain: number;
+  longTermCapitalGain: number;
+  capitalGainOrLoss: number;
+  capitalLossCarryover: number;
+  netCapitalGain: number;
+  investmentIncome: number;
+  grossIncome: number;
+  hasScheduleC: boolean;
+  receiptTransactionRefs: string[];
 }
 
 export interface CompletenessResult {
@@ -196,13 +546,33 @@ export interface TaxBreakdown {
   totalTax: number | null;
   taxableIncomeFederal: number;
   taxableIncomeState: number | null;
+  ndAdjustmentDetails: NdAdjustmentDetails | null;
+  ndIncomeRatio: number | null;
+  ndPartYearAllocationDetails: NdPartYearAllocationDetails | null;
+  ndCredits: number;
+  ndCreditDetails: NdCreditDetails | null;
   grossIncome: number;
+  adjustedGrossIncome: number;
+  wages: number;
+  scheduleCGrossReceipts: number;
+  scheduleCNetProfit: number;
+  otherIncome: number;
+  interestIncome: number;
+  ordinaryDividends: number;
+  qualifiedDividends: number;
+  capitalGainOrLoss: number;
   businessExpenses: number;
+  adjustmentsToIncome: number;
+  standardDeduction: number;
+  itemizedDeductions: number;
+  itemizedDeductionDetails: ItemizedDeductionDetails | null;
   deductionUsed: number;
   federalWithholding: number;
   stateWithholding: number;
   estimatedPayments: number;
   federalBalanceDue: number;
+  underpaymentPenalty: number;
+  underpaymentPenaltyDetails: UnderpaymentPenaltyDetails | null;
   stateBalanceDue: number | null;
   totalBalanceDue: number | null;
   monthlySetAsideRecommendation: number;
@@ -210,10 +580,22 @@ export interface TaxBreakdown {
   selfEmploymentTax: number;
   selfEmploymentTaxDeduction: number;
   selfEmploymentTaxDetails: SelfEmploymentTaxDetails | null;
+  additionalMedicareTax: number;
+  additionalMedicareTaxDetails: AdditionalMedicareTaxDetails | null;
+  netInvestmentIncomeTax: number;
+  netInvestmentIncomeTaxDetails: NetInvestmentIncomeTaxDetails | null;
   selfEmploymentTaxEstimateRange: {
     low: number;
     high: number;
   } | null;
+  childTaxCredit: number;
+  additionalChildTaxCredit: number;
+  childTaxCreditDetails: ChildTaxCreditDetails | null;
+  earnedIncomeCredit: number;
+  earnedIncomeCreditDetails: EarnedIncomeCreditDetails | null;
+  qbiDeduction: number;
+  qbiDeductionDetails: QualifiedBusinessIncomeDetails | null;
+  preferentialRateTaxDetails: PreferentialRateTaxDetails | null;
 }
 
 export interface TaxComputationInput {
@@ -222,12 +604,215 @@ export interface TaxComputationInput {
   estimatedPayments: EstimatedPaymentInput[];
   transactions: TransactionInput[];
   deductions: DeductionInput[];
+  priorYear?: PriorYearLiabilityInput | null;
   mappingRules: CategoryRuleInput[];
   userOverrides: UserOverrideInput[];
   federalRuleset: FederalRuleset;
   stateRuleset: StateRuleset;
 }
 
+export type ScenarioDelta =
+  | {
+      type: "ADD_INCOME";
+      incomeType: IncomeTypeCode;
+      amount: number;
+      label?: string;
+      qualifiedDividends?: number;
+      capitalGainTerm?: CapitalGainTermCode;
+      taxWithheldFederal?: number;
+      taxWithheldState?: number;
+    }
+  | {
+      type: "ADD_EXPENSE";
+      amount: number;
+      code?: string;
+      label?: string;
+    }
+  | {
+      type: "ADD_ADJUSTMENT";
+      adjustmentType: AdjustmentTypeCode;
+      amount: number;
+      label?: string;
+    }
+  | {
+      type: "CHANGE_FILING_STATUS";
+      filingStatus: FilingStatusCode;
+    }
+  | {
+      type: "ADD_ESTIMATED_PAYMENT";
+      amount: number;
+      paidAt: string;
+      quarter?: number | null;
+    };
+
+export interface ScenarioFieldDelta {
+  field: string;
+  baseline: number | null;
+  scenario: number | null;
+  delta: number | null;
+}
+
+// Everything a run is computed from except the rulesets, which the run records
+// by version.
+export type TaxInputSnapshot = Omit<TaxComputationInput, "federalRuleset" | "stateRuleset">;
+
+export type RunInputCollection = "incomes" | "transactions" | "deductions" | "estimatedPayments";
+
+export interface RunFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RunInputItemChange {
+  collection: RunInputCollection;
+  id: string;
+  label: string;
+  change: "ADDED" | "REMOVED" | "CHANGED";
+  fields: RunFieldChange[];
+}
+
+export interface RunInputDiff {
+  profile: RunFieldChange[];
+  items: RunInputItemChange[];
+  // Prior-year liability, categorization rules or user overrides changed.
+  otherInputsChanged: boolean;
+}
+
+export interface RunTaxAttribution {
+  source: "RULESETS" | "PROFILE" | "TRANSACTIONS" | "ITEM" | "OTHER_INPUTS";
+  label: string;
+  collection?: RunInputCollection;
+  id?: string;
+  change?: RunInputItemChange["change"];
+  taxDelta: number;
+}
+
+export interface RunTaxComparison {
+  // State tax is unavailable in one of the results when this is `federalTax`.
+  metric: "totalTax" | "federalTax";
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface RunTaxChange extends RunTaxComparison {
+  attributions: RunTaxAttribution[];
+  unattributed: number;
+  // Item changes past the attribution cap; their effect is in `unattributed`.
+  unattributedItemCount: number;
+}
+
+export interface RunFindingChange {
+  code: string;
+  description: string;
+}
+
+// A stored run as the diff needs it; `input` is null for runs stored before
+// full input snapshots were kept.
+export interface ComputationRunRecord {
+  id: string;
+  breakdown: TaxBreakdown;
+  input: TaxComputationInput | null;
+  federalVersion: string;
+  stateVersion: string;
+  riskFlags: RunFindingChange[];
+  assumptions: RunFindingChange[];
+}
+
+export interface ComputationRunDiff {
+  baseRunId: string;
+  targetRunId: string;
+  rulesets: {
+    federal: { from: string; to: string };
+    state: { from: string; to: string };
+    changed: boolean;
+  };
+  // Null when either run was stored before full input snapshots were kept.
+  inputs: RunInputDiff | null;
+  totals: ScenarioFieldDelta[];
+  taxChange: RunTaxChange;
+  riskFlags: { appeared: RunFindingChange[]; resolved: RunFindingChange[] };
+  assumptions: { appeared: RunFindingChange[]; resolved: RunFindingChange[] };
+}
+
+export interface RulesetReplayResult {
+  runId: string;
+  rulesets: {
+    federal: { from: string; to: string };
+    state: { from: string; to: string };
+  };
+  estimateStatus: EstimateStatusCode;
+  breakdown: TaxBreakdown;
+  totals: ScenarioFieldDelta[];
+  taxChange: RunTaxComparison;
+}
+
+export interface RulesetImpactBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+// A null version means each run kept the ruleset it was computed with.
+export interface RulesetImpactReport {
+  taxYear: number;
+  federalVersion: string | null;
+  stateVersion: string | null;
+  runCount: number;
+  replayedCount: number;
+  // Runs stored before full input snapshots were kept cannot be replayed.
+  skippedRunIds: string[];
+  affectedCount: number;
+  increasedCount: number;
+  decreasedCount: number;
+  totalTaxDelta: number;
+  meanTaxDelta: number;
+  medianTaxDelta: number;
+  distribution: RulesetImpactBucket[];
+  biggestChanges: Array<{ runId: string } & RunTaxComparison>;
+}
+
+export interface FilingStatusComparisonReturn {
+  filingStatus: FilingStatusCode;
+  filer: "JOINT" | "TAXPAYER" | "SPOUSE";
+  estimateStatus: EstimateStatusCode;
+  adjustedGrossIncome: number;
+  deductionType: "STANDARD" | "ITEMIZED";
+  deductionUsed: number;
+  federalTax: number;
+  refundableCredits: number;
+  stateTax: number | null;
+  totalTax: number | null;
+}
+
+export interface FilingStatusComparisonTotals {
+  federalTax: number;
+  refundableCredits: number;
+  stateTax: number | null;
+  totalTax: number | null;
+}
+
+export interface FilingStatusRestriction {
+  code: string;
+  description: string;
+}
+
+export interface FilingStatusComparison {
+  jointly: FilingStatusComparisonReturn;
+  separately: {
+    deductionType: "STANDARD" | "ITEMIZED";
+    taxpayer: FilingStatusComparisonReturn;
+    spouse: FilingStatusComparisonReturn;
+    combined: FilingStatusComparisonTotals;
+  };
+  recommendedFilingStatus: "MARRIED_FILING_JOINTLY" | "MARRIED_FILING_SEPARATELY";
+  separateMinusJoint: number;
+  restrictions: FilingStatusRestriction[];
+  explanation: ExplanationNode;
+}
+
 export interface TaxComputationOutput {
   scope: ScopeDecision;
   outOfScopeReasons: string[];
@@ -242,6 +827,8 @@ export interface TaxComputationOutput {
   confidence: ConfidenceResult;
   riskFlags: RiskFlagInput[];
   estimatedPaymentPlan: EstimatedPaymentRecommendation[];
+  estimatedPaymentPlanOptions: EstimatedPaymentPlanOption[];
+  bracketAnalysis: BracketAnalysis;
   categorizedTransactions: Array<TransactionInput & { categorySuggestion?: CategorySuggestion }>;
   rulesets: {
     federalVersion: string;
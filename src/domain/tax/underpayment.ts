@@ -0,0 +1,244 @@
+import {
+  addMoney,
+  allocateMoney,
+  maxMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toDollars,
+  toMoney,
+  ZERO_MONEY
+} from "../../shared/money.js";
+import type { Money } from "../../shared/money.js";
+import type { FederalRuleset, FilingStatusCode } from "../rulesets/types.js";
+import type {
+  AnnualizedInstallment,
+  AnnualizedPeriodTax,
+  EstimatedPaymentInput,
+  PriorYearLiabilityInput,
+  RiskFlagInput,
+  UnderpaymentInstallment,
+  UnderpaymentPenaltyDetails
+} from "./types.js";
+
+const dayInMilliseconds = 24 * 60 * 60 * 1000;
+
+function toDay(value: string): number {
+  return Math.floor(Date.parse(value.slice(0, 10)) / dayInMilliseconds);
+}
+
+function accruePenalty(
+  amount: number,
+  fromDate: string,
+  toDate: string,
+  rules: NonNullable<FederalRuleset["underpaymentPenalty"]>
+): number {
+  const from = toDay(fromDate);
+  const to = toDay(toDate);
+  const rates = [...rules.rates].sort((left, right) => toDay(left.effectiveFrom) - toDay(right.effectiveFrom));
+
+  return rates.reduce((sum, period, index) => {
+    const next = rates[index + 1];
+    const start = Math.max(from, toDay(period.effectiveFrom));
+    const end = Math.min(to, next ? toDay(next.effectiveFrom) : to);
+    return end > start ? sum + (amount * period.rate * (end - start)) / rules.daysInYear : sum;
+  }, 0);
+}
+
+// 100% of the prior year's tax, or 110% when prior-year AGI was above the
+// high-income threshold.
+export function computePriorYearRequiredPayment(
+  priorYear: PriorYearLiabilityInput | null | undefined,
+  filingStatus: FilingStatusCode,
+  ruleset: FederalRuleset
+): number | null {
+  const safeHarbor = ruleset.underpaymentPenalty?.priorYearSafeHarbor;
+  if (!priorYear || !safeHarbor) {
+    return null;
+  }
+
+  const percentage =
+    priorYear.adjustedGrossIncome > safeHarbor.highIncomeAgiThreshold[filingStatus]
+      ? safeHarbor.highIncomePercentage
+      : safeHarbor.percentage;
+  return toDollars(multiplyMoney(maxMoney(ZERO_MONEY, toMoney(priorYear.totalTax)), percentage));
+}
+
+// Schedule AI: each period's installment is the applicable percentage of the
+// annualized tax less earlier required installments, but never more than the
+// regular installment plus whatever earlier periods saved against it.
+export function computeAnnualizedInstallments(
+  requiredAnnualPayment: number,
+  periods: AnnualizedPeriodTax[]
+): AnnualizedInstallment[] {
+  const regularShares = allocateMoney(toMoney(requiredAnnualPayment), periods.length);
+  let requiredSoFar = ZERO_MONEY;
+  let savedSoFar = ZERO_MONEY;
+
+  return periods.map((period, index) => {
+    const annualizedInstallment = maxMoney(
+      ZERO_MONEY,
+      subtractMoney(multiplyMoney(toMoney(period.annualizedTax), period.applicablePercentage), requiredSoFar)
+    );
+    const regularInstallment = addMoney(regularShares[index]!, savedSoFar);
+    const requiredInstallment = minMoney(annualizedInstallment, regularInstallment);
+    requiredSoFar = addMoney(requiredSoFar, requiredInstallment);
+    savedSoFar = subtractMoney(regularInstallment, requiredInstallment);
+
+    return {
+      ...period,
+      annualizedInstallment: toDollars(annualizedInstallment),
+      regularInstallment: toDollars(regularInstallment),
+      requiredInstallment: toDollars(requiredInstallment)
+    };
+  });
+}
+
+// Form 2210 regular method: each payment is applied to the earliest unpaid
+// required installment, and an underpayment accrues a penalty from its due
+// date until it is paid or the return due date, whichever comes first.
+export function computeUnderpaymentPenalty(input: {
+  filingStatus: FilingStatusCode;
+  currentYearTax: number;
+  withholding: number;
+  estimatedPayments: EstimatedPaymentInput[];
+  priorYear?: PriorYearLiabilityInput | null;
+  annualizedPeriods?: AnnualizedPeriodTax[] | null;
+  ruleset: FederalRuleset;
+}): UnderpaymentPenaltyDetails | null {
+  const rules = input.ruleset.underpaymentPenalty;
+  if (!rules || rules.installmentDueDates.length === 0) {
+    return null;
+  }
+
+  const currentYearTax = maxMoney(ZERO_MONEY, toMoney(input.currentYearTax));
+  const priorYearRequiredPayment = computePriorYearRequiredPayment(input.priorYear, input.filingStatus, input.ruleset);
+  const currentYearRequiredPayment = multiplyMoney(currentYearTax, rules.requiredCurrentYearPercentage);
+  const requiredAnnualPayment =
+    priorYearRequiredPayment === null
+      ? currentYearRequiredPayment
+      : minMoney(currentYearRequiredPayment, toMoney(priorYearRequiredPayment));
+  const withholding = toMoney(input.withholding);
+  const installmentCount = rules.installmentDueDates.length;
+  const annualizedInstallments =
+    input.annualizedPeriods && input.annualizedPeriods.length === installmentCount
+      ? computeAnnualizedInstallments(toDollars(requiredAnnualPayment), input.annualizedPeriods)
+      : [];
+  const base = {
+    currentYearTax: toDollars(currentYearTax),
+    priorYearRequiredPayment,
+    requiredAnnualPayment: toDollars(requiredAnnualPayment),
+    withholding: input.withholding,
+    method: annualizedInstallments.length > 0 ? ("ANNUALIZED_INCOME" as const) : ("REGULAR" as const),
+    annualizedInstallments
+  };
+
+  if (subtractMoney(currentYearTax, withholding) < toMoney(rules.minimumBalanceDue)) {
+    return {
+      ...base,
+      installments: [],
+      penalty: 0,
+      exemptionReason: "BALANCE_DUE_BELOW_MINIMUM"
+    };
+  }
+
+  // Required installments and withholding are split so their shares add up to
+  // the annual amounts exactly. The penalty accrues in fractions of a cent and
+  // is rounded once per installment.
+  const requiredShares = allocateMoney(requiredAnnualPayment, installmentCount);
+  const withholdingShares = allocateMoney(withholding, installmentCount);
+  const installments = rules.installmentDueDates.map((dueDate, index) => {
+    const annualized = annualizedInstallments[index];
+    return {
+      dueDate,
+      requiredInstallment: annualized ? toMoney(annualized.requiredInstallment) : requiredShares[index]!,
+      withholdingCredit: withholdingShares[index]!,
+      paymentsApplied: ZERO_MONEY,
+      underpayment: ZERO_MONEY,
+      accruedPenalty: 0
+    };
+  });
+  const payments = input.estimatedPayments
+    .filter((payment) => payment.amount > 0 && toDay(payment.paidAt) <= toDay(rules.penaltyEndDate))
+    .sort((left, right) => toDay(left.paidAt) - toDay(right.paidAt));
+  const openUnderpayments: Array<{ installment: (typeof installments)[number]; amount: Money; since: string }> = [];
+  let credit = ZERO_MONEY;
+  let paymentIndex = 0;
+
+  const applyPayment = (amount: Money, paidAt: string) => {
+    let remaining = amount;
+    while (remaining > 0 && openUnderpayments.length > 0) {
+      const open = openUnderpayments[0]!;
+      const paid = minMoney(open.amount, remaining);
+      open.installment.accruedPenalty += accruePenalty(toDollars(paid), open.since, paidAt, rules);
+      open.amount = subtractMoney(open.amount, paid);
+      remaining = subtractMoney(remaining, paid);
+      if (open.amount <= 0) {
+        openUnderpayments.shift();
+      }
+    }
+    credit = addMoney(credit, remaining);
+  };
+
+  for (const installment of installments) {
+    while (paymentIndex < payments.length && toDay(payments[paymentIndex]!.paidAt) <= toDay(installment.dueDate)) {
+      applyPayment(toMoney(payments[paymentIndex]!.amount), payments[paymentIndex]!.paidAt);
+      paymentIndex += 1;
+    }
+    applyPayment(installment.withholdingCredit, installment.dueDate);
+
+    const applied = minMoney(credit, installment.requiredInstallment);
+    credit = subtractMoney(credit, applied);
+    installment.paymentsApplied = applied;
+    installment.underpayment = subtractMoney(installment.requiredInstallment, applied);
+    if (installment.underpayment > 0) {
+      openUnderpayments.push({ installment, amount: installment.underpayment, since: installment.dueDate });
+    }
+  }
+
+  for (const payment of payments.slice(paymentIndex)) {
+    applyPayment(toMoney(payment.amount), payment.paidAt);
+  }
+  for (const open of openUnderpayments) {
+    open.installment.accruedPenalty += accruePenalty(toDollars(open.amount), open.since, rules.penaltyEndDate, rules);
+  }
+
+  const penalties = installments.map((installment) => toMoney(installment.accruedPenalty));
+  return {
+    ...base,
+    installments: installments.map(
+      (installment, index): UnderpaymentInstallment => ({
+        dueDate: installment.dueDate,
+        requiredInstallment: toDollars(installment.requiredInstallment),
+        withholdingCredit: toDollars(installment.withholdingCredit),
+        paymentsApplied: toDollars(installment.paymentsApplied),
+        underpayment: toDollars(installment.underpayment),
+        penalty: toDollars(penalties[index]!)
+      })
+    ),
+    penalty: toDollars(sumMoney(penalties)),
+    exemptionReason: null
+  };
+}
+
+export function buildUnderpaymentRiskFlag(details: UnderpaymentPenaltyDetails | null): RiskFlagInput | null {
+  if (!details || details.penalty <= 0) {
+    return null;
+  }
+
+  return {
+    code: "UNDERWITHHOLDING_RISK",
+    severity: details.penalty > 250 ? "high" : "medium",
+    explanation:
+      "Withholding and estimated payments do not cover the required installments, so a Form 2210 underpayment penalty is expected if nothing more is paid.",
+    suggestedFix: "Increase withholding or make estimated payments before the next due date.",
+    evidence: {
+      penalty: details.penalty,
+      requiredAnnualPayment: details.requiredAnnualPayment,
+      underpayments: details.installments
+        .filter((installment) => installment.underpayment > 0)
+        .map((installment) => ({ dueDate: installment.dueDate, underpayment: installment.underpayment }))
+    }
+  };
+}
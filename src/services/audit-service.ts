@@ -8,12 +8,15 @@ export const auditActions = {
   AUTH_REFRESH: "AUTH_REFRESH",
   TAX_PROFILE_UPSERT: "TAX_PROFILE_UPSERT",
   INCOME_CREATED: "INCOME_CREATED",
+  DEDUCTION_CREATED: "DEDUCTION_CREATED",
   DOCUMENT_UPLOAD_URL_CREATED: "DOCUMENT_UPLOAD_URL_CREATED",
   DOCUMENT_UPLOAD_CONFIRMED: "DOCUMENT_UPLOAD_CONFIRMED",
   IMPORT_BANK_CSV_STARTED: "IMPORT_BANK_CSV_STARTED",
   IMPORT_BANK_CSV_COMPLETED: "IMPORT_BANK_CSV_COMPLETED",
   TAX_COMPUTE: "TAX_COMPUTE",
-  EXPORT_REQUESTED: "EXPORT_REQUESTED"
+  TAX_SCENARIO_SAVED: "TAX_SCENARIO_SAVED",
+  EXPORT_REQUESTED: "EXPORT_REQUESTED",
+  RULESET_IMPACT_REPORT_REQUESTED: "RULESET_IMPACT_REPORT_REQUESTED"
 } as const;
 
 export type AuditAction = (typeof auditActions)[keyof typeof auditActions];
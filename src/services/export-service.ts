@@ -1,8 +1,10 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
 
+import { renderExplanation } from "../domain/tax/explanation.js";
 import { prisma } from "../infrastructure/prisma.js";
 import { getObjectBuffer, isObjectStorageConfigured, putObjectBuffer } from "../infrastructure/s3.js";
+import { getSalesTaxPeriodReport } from "./sales-tax-service.js";
 import { computeTaxYear } from "./tax-service.js";
 import { auditActions, writeAuditEvent } from "./audit-service.js";
 
@@ -12,8 +14,41 @@ function pdfEscape(value: string): string {
   return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
 }
 
-function buildPdf(lines: string[]): Buffer {
+// Helvetica at 12pt averages under 6.7pt per character, so 76 characters fit
+// between the 50pt margins of the 612pt page.
+const PDF_LINE_LENGTH = 76;
+
+// Wraps at spaces, hard-breaking words that are longer than a line, and
+// indents continuation lines past the line's own indent.
+function wrapPdfLine(line: string): string[] {
+  if (line.length <= PDF_LINE_LENGTH) {
+    return [line];
+  }
+
+  const leading = line.slice(0, line.length - line.trimStart().length);
+  const indent = " ".repeat(Math.min(leading.length + 4, PDF_LINE_LENGTH / 2));
+  const pieceLength = PDF_LINE_LENGTH - indent.length;
+  const wrapped: string[] = [];
+  let current = leading;
+  for (const word of line.trimStart().split(" ")) {
+    for (let index = 0; index < word.length || index === 0; index += pieceLength) {
+      const piece = word.slice(index, index + pieceLength);
+      const candidate = current.trim() === "" ? `${current}${piece}` : `${current} ${piece}`;
+      if (candidate.length <= PDF_LINE_LENGTH || current.trim() === "") {
+        current = candidate;
+      } else {
+        wrapped.push(current);
+        current = `${indent}${piece}`;
+      }
+    }
+  }
+  wrapped.push(current);
+  return wrapped;
+}
+
+function buildPdf(text: string[]): Buffer {
   const pageSize = 38;
+  const lines = text.flatMap(wrapPdfLine);
   const chunks: string[][] = [];
   for (let index = 0; index < lines.length; index += pageSize) {
     chunks.push(lines.slice(index, index + pageSize));
@@ -114,6 +149,7 @@ async function loadExportArtifact(artifactKey: string) {
 
 export async function createTaxPackExport(userId: string, taxYear: number, requestId?: string) {
   const computeResult = await computeTaxYear(userId, taxYear, requestId);
+  const salesTaxReport = await getSalesTaxPeriodReport(userId, taxYear);
   const exportJob = await prisma.exportJob.create({
     data: {
       userId,
@@ -162,10 +198,29 @@ export async function createTaxPackExport(userId: string, taxYear: number, reque
   if (computeResult.estimatedPaymentPlan.length > 0) {
     lines.push("", "Estimated payment schedule");
     for (const installment of computeResult.estimatedPaymentPlan) {
-      lines.push(`- ${installment.dueDate}: $${installment.amount.toFixed(2)}`);
+      lines.push(`- ${installment.dueDate}: $${installment.amount.toFixed(2)} (${installment.basis})`);
     }
   }
 
+  if (salesTaxReport) {
+    lines.push("", `ND sales and use tax (${salesTaxReport.filingFrequency.toLowerCase()}, rates ${salesTaxReport.rateTableVersion})`);
+    for (const period of salesTaxReport.periods) {
+      lines.push(
+        `- ${period.periodStart} to ${period.periodEnd}, due ${period.dueDate}: sales $${period.taxableSales.toFixed(2)}, use-tax purchases $${period.taxablePurchases.toFixed(2)}, use tax $${period.useTax.toFixed(2)}, total tax $${period.totalTax.toFixed(2)}`
+      );
+    }
+    lines.push(
+      `Accrued use tax: $${salesTaxReport.totals.useTax.toFixed(2)}`,
+      `Total sales and use tax: $${salesTaxReport.totals.totalTax.toFixed(2)}`
+    );
+  }
+
+  lines.push(
+    "",
+    "Calculation explanation",
+    ...renderExplanation(computeResult.explanation, "text").trimEnd().split("\n")
+  );
+
   const artifactKey = await persistExportArtifact({
     userId,
     exportId: exportJob.id,
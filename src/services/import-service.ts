@@ -1,11 +1,10 @@
 import { Prisma } from "@prisma/client";
 
 import { categorizeTransaction } from "../domain/categorization/engine.js";
-import { defaultCategoryRules } from "../domain/categorization/defaults.js";
 import { prisma } from "../infrastructure/prisma.js";
 import { sha256 } from "../shared/hash.js";
 import { createId } from "../shared/ids.js";
-import { computeTaxYear } from "./tax-service.js";
+import { computeTaxYear, loadCategoryRules } from "./tax-service.js";
 import { auditActions, writeAuditEvent } from "./audit-service.js";
 
 interface BankCsvImportInput {
@@ -165,6 +164,7 @@ export async function importBankCsv(
       userId
     }
   });
+  const mappingRules = await loadCategoryRules();
 
   const batch = await prisma.importBatch.create({
     data: {
@@ -238,7 +238,7 @@ export async function importBankCsv(
         description,
         direction
       },
-      defaultCategoryRules,
+      mappingRules,
       overrides.map((override) => ({
         vendorPattern: override.vendorPattern,
         keywordPattern: override.keywordPattern,
@@ -0,0 +1,315 @@
+import type { Prisma } from "@prisma/client";
+
+import { loadFederalRuleset, loadRulesetMeta, loadStateRuleset } from "../domain/rulesets/loader.js";
+import type { FederalRuleset, StateRuleset } from "../domain/rulesets/types.js";
+import { replayComputation, summarizeRulesetImpact } from "../domain/tax/replay.js";
+import { isInputSnapshot, restoreComputationInput } from "../domain/tax/snapshots.js";
+import type { RulesetImpactReport, RulesetReplayResult } from "../domain/tax/types.js";
+import { prisma } from "../infrastructure/prisma.js";
+import { createQueue, queueNames } from "../worker/queues.js";
+import { auditActions, writeAuditEvent } from "./audit-service.js";
+
+const IMPACT_BATCH_SIZE = 100;
+
+interface RulesetVersions {
+  federalVersion?: string;
+  stateVersion?: string;
+}
+
+function validationError(message: string, details?: Record<string, unknown>): Error & { statusCode: number; code: string; details?: Record<string, unknown> } {
+  const error = new Error(message) as Error & {
+    statusCode: number;
+    code: string;
+    details?: Record<string, unknown>;
+  };
+  error.statusCode = 400;
+  error.code = "VALIDATION_ERROR";
+  error.details = details;
+  return error;
+}
+
+// Any version registered in meta.json can be replayed, active or not, so a
+// revision can be tried before it is activated.
+function assertRegisteredVersion(version: string) {
+  if (!loadRulesetMeta().versions.some((entry) => entry.id === version)) {
+    throw validationError(`Ruleset ${version} is not registered in rulesets/meta.json.`, { version });
+  }
+}
+
+function loadReplayFederalRuleset(version: string): FederalRuleset {
+  assertRegisteredVersion(version);
+  const ruleset = loadFederalRuleset(version);
+  if (ruleset.jurisdiction !== "federal") {
+    throw validationError(`Ruleset ${version} is not a federal ruleset.`, { version });
+  }
+
+  return ruleset;
+}
+
+function loadReplayStateRuleset(version: string): StateRuleset {
+  assertRegisteredVersion(version);
+  const ruleset = loadStateRuleset(version);
+  if (ruleset.jurisdiction !== "state") {
+    throw validationError(`Ruleset ${version} is not a state ruleset.`, { version });
+  }
+
+  return ruleset;
+}
+
+function cached<T>(cache: Map<string, T>, version: string, load: (version: string) => T): T {
+  const existing = cache.get(version);
+  if (existing) {
+    return existing;
+  }
+
+  const loaded = load(version);
+  cache.set(version, loaded);
+  return loaded;
+}
+
+type StoredRun = {
+  id: string;
+  inputsSnapshotJson: unknown;
+  rulesetFederalVersion: string;
+  rulesetStateVersion: string;
+};
+
+// The run's inputs are restored with the rulesets it was computed with, which
+// give the baseline the replay is compared against.
+function replayStoredRun(
+  run: StoredRun,
+  original: { federal: FederalRuleset; state: StateRuleset },
+  federalRuleset: FederalRuleset,
+  stateRuleset: StateRuleset
+): RulesetReplayResult | null {
+  if (!isInputSnapshot(run.inputsSnapshotJson)) {
+    return null;
+  }
+
+  return replayComputation(
+    {
+      id: run.id,
+      input: restoreComputationInput(run.inputsSnapshotJson, original.federal, original.state),
+      federalVersion: run.rulesetFederalVersion,
+      stateVersion: run.rulesetStateVersion
+    },
+    federalRuleset,
+    stateRuleset
+  );
+}
+
+// Versions left out keep the ones the run was computed with. Returns null when
+// the run does not exist or belongs to another user.
+export async function replayComputationRun(userId: string, runId: string, versions: RulesetVersions) {
+  const run = await prisma.computationRun.findFirst({
+    where: {
+      id: runId,
+      userId
+    }
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  const replay = replayStoredRun(
+    run,
+    { federal: loadFederalRuleset(run.rulesetFederalVersion), state: loadStateRuleset(run.rulesetStateVersion) },
+    loadReplayFederalRuleset(versions.federalVersion ?? run.rulesetFederalVersion),
+    loadReplayStateRuleset(versions.stateVersion ?? run.rulesetStateVersion)
+  );
+  if (!replay) {
+    throw validationError("This run was stored before full input snapshots were kept and cannot be replayed.", {
+      runId
+    });
+  }
+
+  return replay;
+}
+
+// Replays each user's latest completed run for the tax year. A state version only
+// applies to runs computed with a ruleset for the same state; other runs keep
+// their own state ruleset.
+export async function buildRulesetImpactReport(taxYear: number, versions: RulesetVersions) {
+  const federalOverride = versions.federalVersion ? loadReplayFederalRuleset(versions.federalVersion) : null;
+  const stateOverride = versions.stateVersion ? loadReplayStateRuleset(versions.stateVersion) : null;
+  const federalRulesets = new Map<string, FederalRuleset>();
+  const stateRulesets = new Map<string, StateRuleset>();
+  const originalFederal = (version: string) => cached(federalRulesets, version, loadFederalRuleset);
+  const originalState = (version: string) => cached(stateRulesets, version, loadStateRuleset);
+  const stateFor = (version: string) => {
+    const original = originalState(version);
+    return stateOverride?.stateCode === original.stateCode ? stateOverride : original;
+  };
+
+  const latestRuns = await prisma.computationRun.findMany({
+    where: {
+      taxYear,
+      runStatus: "COMPLETED"
+    },
+    orderBy: {
+      createdAt: "desc"
+    },
+    distinct: ["userId"],
+    select: {
+      id: true
+    }
+  });
+
+  const replays: RulesetReplayResult[] = [];
+  const skippedRunIds: string[] = [];
+  for (let index = 0; index < latestRuns.length; index += IMPACT_BATCH_SIZE) {
+    const runs = await prisma.computationRun.findMany({
+      where: {
+        id: {
+          in: latestRuns.slice(index, index + IMPACT_BATCH_SIZE).map((run) => run.id)
+        }
+      },
+      select: {
+        id: true,
+        inputsSnapshotJson: true,
+        rulesetFederalVersion: true,
+        rulesetStateVersion: true
+      }
+    });
+
+    for (const run of runs) {
+      const replay = replayStoredRun(
+        run,
+        { federal: originalFederal(run.rulesetFederalVersion), state: originalState(run.rulesetStateVersion) },
+        federalOverride ?? originalFederal(run.rulesetFederalVersion),
+        stateFor(run.rulesetStateVersion)
+      );
+      if (replay) {
+        replays.push(replay);
+      } else {
+        skippedRunIds.push(run.id);
+      }
+    }
+  }
+
+  return summarizeRulesetImpact({
+    taxYear,
+    federalVersion: federalOverride?.id ?? null,
+    stateVersion: stateOverride?.id ?? null,
+    replays,
+    skippedRunIds
+  });
+}
+
+// Versions are checked before the job is queued so a typo fails the request
+// rather than the job.
+export async function queueRulesetImpactReport(
+  taxYear: number,
+  versions: RulesetVersions,
+  requestedBy: string,
+  requestId?: string
+) {
+  if (versions.federalVersion) {
+    loadReplayFederalRuleset(versions.federalVersion);
+  }
+  if (versions.stateVersion) {
+    loadReplayStateRuleset(versions.stateVersion);
+  }
+
+  const report = await prisma.rulesetImpactReport.create({
+    data: {
+      taxYear,
+      federalVersion: versions.federalVersion ?? null,
+      stateVersion: versions.stateVersion ?? null,
+      requestedBy
+    }
+  });
+
+  const queue = createQueue(queueNames.rulesetImpactReplay);
+  try {
+    await queue.add(queueNames.rulesetImpactReplay, { reportId: report.id });
+  } finally {
+    await queue.close();
+  }
+
+  await writeAuditEvent({
+    userId: requestedBy,
+    actorType: "USER",
+    actorId: requestedBy,
+    action: auditActions.RULESET_IMPACT_REPORT_REQUESTED,
+    entityType: "RulesetImpactReport",
+    entityId: report.id,
+    requestId,
+    payload: {
+      taxYear,
+      federalVersion: report.federalVersion,
+      stateVersion: report.stateVersion
+    }
+  });
+
+  return {
+    id: report.id,
+    status: report.status
+  };
+}
+
+export async function runRulesetImpactReport(reportId: string): Promise<RulesetImpactReport> {
+  const stored = await prisma.rulesetImpactReport.update({
+    where: {
+      id: reportId
+    },
+    data: {
+      status: "RUNNING"
+    }
+  });
+
+  try {
+    const report = await buildRulesetImpactReport(stored.taxYear, {
+      federalVersion: stored.federalVersion ?? undefined,
+      stateVersion: stored.stateVersion ?? undefined
+    });
+    await prisma.rulesetImpactReport.update({
+      where: {
+        id: reportId
+      },
+      data: {
+        status: "COMPLETED",
+        reportJson: report as unknown as Prisma.InputJsonValue
+      }
+    });
+    return report;
+  } catch (error) {
+    await prisma.rulesetImpactReport.update({
+      where: {
+        id: reportId
+      },
+      data: {
+        status: "FAILED",
+        errorMessage: error instanceof Error ? error.message : String(error)
+      }
+    });
+    throw error;
+  }
+}
+
+// The report is null until the job completes.
+export async function getRulesetImpactReport(reportId: string) {
+  const stored = await prisma.rulesetImpactReport.findUnique({
+    where: {
+      id: reportId
+    }
+  });
+
+  if (!stored) {
+    return null;
+  }
+
+  return {
+    id: stored.id,
+    taxYear: stored.taxYear,
+    federalVersion: stored.federalVersion,
+    stateVersion: stored.stateVersion,
+    status: stored.status,
+    requestedBy: stored.requestedBy,
+    createdAt: stored.createdAt.toISOString(),
+    updatedAt: stored.updatedAt.toISOString(),
+    error: stored.errorMessage,
+    report: stored.reportJson as RulesetImpactReport | null
+  };
+}
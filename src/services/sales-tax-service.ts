@@ -0,0 +1,31 @@
+import { loadLocalSalesTaxTable, resolveActiveRulesetsForTaxYear } from "../domain/rulesets/loader.js";
+import { buildSalesTaxPeriodReport } from "../domain/sales-tax/periods.js";
+import { findLocalSalesTaxRate } from "../domain/sales-tax/rates.js";
+import { loadTaxComputationInput } from "./tax-service.js";
+
+function loadActiveLocalSalesTaxTable(taxYear: number, residentState?: string | null) {
+  const { localSalesTax } = resolveActiveRulesetsForTaxYear(taxYear, residentState);
+  if (!localSalesTax) {
+    throw new Error(`No local sales tax ruleset is active for ${taxYear}.`);
+  }
+
+  return loadLocalSalesTaxTable(localSalesTax);
+}
+
+// Returns null when the profile has no ND sales tax nexus.
+export async function getSalesTaxPeriodReport(userId: string, taxYear: number) {
+  const input = await loadTaxComputationInput(userId, taxYear);
+  return buildSalesTaxPeriodReport({
+    profile: input.profile,
+    transactions: input.transactions,
+    mappingRules: input.mappingRules,
+    rateTable: loadActiveLocalSalesTaxTable(taxYear, input.profile.residentState)
+  });
+}
+
+// Returns null when the active table has no rate for the ZIP on that date.
+export function lookupSalesTaxRate(zip: string, date: string) {
+  const rateTable = loadActiveLocalSalesTaxTable(Number(date.slice(0, 4)));
+  const rate = findLocalSalesTaxRate(rateTable, { zip }, date);
+  return rate ? { ...rate, date, rateTableVersion: rateTable.id } : null;
+}
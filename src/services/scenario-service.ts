@@ -0,0 +1,129 @@
+import type { Prisma } from "@prisma/client";
+
+import { taxScenarioRunSchema } from "../api/schemas.js";
+import { computeTaxEstimate } from "../domain/tax/calculator.js";
+import { compareMarriedFilingStatuses } from "../domain/tax/filing-status-comparison.js";
+import { applyScenarioDeltas, diffBreakdowns } from "../domain/tax/scenarios.js";
+import type { ScenarioDelta } from "../domain/tax/types.js";
+import { prisma } from "../infrastructure/prisma.js";
+import { auditActions, writeAuditEvent } from "./audit-service.js";
+import { loadTaxComputationInput } from "./tax-service.js";
+
+function validationError(message: string, details?: Record<string, unknown>): Error & { statusCode: number; code: string; details?: Record<string, unknown> } {
+  const error = new Error(message) as Error & {
+    statusCode: number;
+    code: string;
+    details?: Record<string, unknown>;
+  };
+  error.statusCode = 400;
+  error.code = "VALIDATION_ERROR";
+  error.details = details;
+  return error;
+}
+
+// Scenarios run entirely in memory: no ComputationRun, report or audit event
+// is written, so planning questions do not show up in the run history.
+export async function runTaxScenario(userId: string, taxYear: number, deltas: ScenarioDelta[]) {
+  const input = await loadTaxComputationInput(userId, taxYear);
+  const baseline = computeTaxEstimate(input);
+  const scenario = computeTaxEstimate(applyScenarioDeltas(input, deltas));
+
+  return {
+    taxYear,
+    deltas,
+    baseline,
+    scenario,
+    delta: diffBreakdowns(baseline.breakdown, scenario.breakdown)
+  };
+}
+
+export async function saveTaxScenario(
+  userId: string,
+  scenario: { taxYear: number; name: string; deltas: ScenarioDelta[] },
+  requestId?: string
+) {
+  const saved = await prisma.taxScenario.upsert({
+    where: {
+      userId_taxYear_name: {
+        userId,
+        taxYear: scenario.taxYear,
+        name: scenario.name
+      }
+    },
+    update: {
+      deltasJson: scenario.deltas as Prisma.InputJsonValue
+    },
+    create: {
+      userId,
+      taxYear: scenario.taxYear,
+      name: scenario.name,
+      deltasJson: scenario.deltas as Prisma.InputJsonValue
+    }
+  });
+
+  await writeAuditEvent({
+    userId,
+    actorType: "USER",
+    actorId: userId,
+    action: auditActions.TAX_SCENARIO_SAVED,
+    entityType: "TaxScenario",
+    entityId: saved.id,
+    requestId,
+    payload: {
+      taxYear: saved.taxYear,
+      name: saved.name,
+      deltaCount: scenario.deltas.length
+    }
+  });
+
+  return saved;
+}
+
+export async function listTaxScenarios(userId: string, taxYear: number) {
+  return prisma.taxScenario.findMany({
+    where: {
+      userId,
+      taxYear
+    },
+    orderBy: {
+      name: "asc"
+    }
+  });
+}
+
+// Saved scenarios keep only the deltas, so re-running one picks up whatever
+// the stored inputs look like now. The deltas are checked against the same
+// schema as a new scenario, since one saved under an older schema may no
+// longer match it.
+export async function runSavedTaxScenario(userId: string, scenarioId: string) {
+  const saved = await prisma.taxScenario.findFirst({
+    where: {
+      id: scenarioId,
+      userId
+    }
+  });
+  if (!saved) {
+    return null;
+  }
+
+  const deltas = taxScenarioRunSchema.shape.deltas.safeParse(saved.deltasJson);
+  if (!deltas.success) {
+    throw validationError("The saved scenario no longer matches the scenario format and cannot be run.", {
+      scenarioId: saved.id,
+      issues: deltas.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    });
+  }
+
+  return {
+    scenarioId: saved.id,
+    name: saved.name,
+    ...(await runTaxScenario(userId, saved.taxYear, deltas.data))
+  };
+}
+
+// Returns null when the profile is not a married filing status.
+export async function compareFilingStatuses(userId: string, taxYear: number) {
+  const input = await loadTaxComputationInput(userId, taxYear);
+  const comparison = compareMarriedFilingStatuses(input);
+  return comparison === null ? null : { taxYear, ...comparison };
+}
@@ -2,15 +2,32 @@ import { Prisma } from "@prisma/client";
 
 import { defaultCategoryRules } from "../domain/categorization/defaults.js";
 import { computeTaxEstimate } from "../domain/tax/calculator.js";
+import { findExplanationNode, renderExplanation } from "../domain/tax/explanation.js";
+import { diffComputationRuns } from "../domain/tax/run-diff.js";
+import { createInputSnapshot, isInputSnapshot, restoreComputationInput } from "../domain/tax/snapshots.js";
+import type {
+  CategoryRuleInput,
+  ComputationRunRecord,
+  ExplanationFormat,
+  ExplanationNode,
+  PriorYearLiabilityInput,
+  TaxBreakdown,
+  TaxComputationInput
+} from "../domain/tax/types.js";
 import { loadFederalRuleset, loadStateRuleset, resolveActiveRulesetsForTaxYear } from "../domain/rulesets/loader.js";
 import { prisma } from "../infrastructure/prisma.js";
-import { asNumber } from "../shared/money.js";
+import { asNumber, parseMoney, toDollars } from "../shared/money.js";
 import { auditActions, writeAuditEvent } from "./audit-service.js";
 
 function toNumber(value: Prisma.Decimal | number | string | null | undefined): number {
   return value === null || value === undefined ? 0 : asNumber(value);
 }
 
+// Currency columns are read as exact cents before they become dollar amounts.
+function toAmount(value: Prisma.Decimal | number | string | null | undefined): number {
+  return toDollars(parseMoney(value));
+}
+
 function severityToPrisma(value: "low" | "medium" | "high"): "LOW" | "MEDIUM" | "HIGH" {
   if (value === "high") {
     return "HIGH";
@@ -29,8 +46,79 @@ function asJson(value: unknown): Prisma.InputJsonValue {
 
 const prismaUnsafe = prisma as any;
 
-export async function computeTaxYear(userId: string, taxYear: number, requestId?: string) {
-  const [profile, incomes, transactions, deductions, estimatedPayments, overrides] = await Promise.all([
+async function resolvePriorYearLiability(
+  userId: string,
+  taxYear: number,
+  profile: { priorYearAdjustedGrossIncome: Prisma.Decimal | null; priorYearTotalTax: Prisma.Decimal | null }
+): Promise<PriorYearLiabilityInput | null> {
+  if (profile.priorYearTotalTax !== null) {
+    return {
+      adjustedGrossIncome: toAmount(profile.priorYearAdjustedGrossIncome),
+      totalTax: toAmount(profile.priorYearTotalTax),
+      source: "PROFILE"
+    };
+  }
+
+  const priorRun = await prisma.computationRun.findFirst({
+    where: {
+      userId,
+      taxYear: taxYear - 1,
+      runStatus: "COMPLETED"
+    },
+    orderBy: {
+      createdAt: "desc"
+    }
+  });
+  if (!priorRun) {
+    return null;
+  }
+
+  // Runs stored before AGI and refundable credits were part of the breakdown
+  // fall back to the fields they do carry.
+  const totals = priorRun.totalsJson as Record<string, number | null | undefined>;
+  return {
+    adjustedGrossIncome:
+      totals.adjustedGrossIncome ??
+      Math.max(0, (totals.grossIncome ?? 0) - (totals.businessExpenses ?? 0) - (totals.selfEmploymentTaxDeduction ?? 0)),
+    totalTax: Math.max(
+      0,
+      (totals.federalTax ?? 0) - (totals.additionalChildTaxCredit ?? 0) - (totals.earnedIncomeCredit ?? 0)
+    ),
+    source: "COMPUTATION_RUN",
+    runId: priorRun.id
+  };
+}
+
+// Active rules from the database drive categorization and use-tax marking;
+// the built-in defaults only apply when none are configured.
+export async function loadCategoryRules(): Promise<CategoryRuleInput[]> {
+  const rules = await prisma.categoryMappingRule.findMany({
+    where: {
+      isActive: true
+    },
+    orderBy: {
+      createdAt: "asc"
+    }
+  });
+
+  if (rules.length === 0) {
+    return defaultCategoryRules;
+  }
+
+  return rules.map((rule) => ({
+    code: rule.code,
+    vendorPattern: rule.vendorPattern,
+    keywordPattern: rule.keywordPattern,
+    amountMin: rule.amountMin === null ? null : toAmount(rule.amountMin),
+    amountMax: rule.amountMax === null ? null : toAmount(rule.amountMax),
+    confidenceBase: toNumber(rule.confidenceBase),
+    reason: rule.reason,
+    useTaxLiable: rule.useTaxLiable
+  }));
+}
+
+export async function loadTaxComputationInput(userId: string, taxYear: number): Promise<TaxComputationInput> {
+  const [profile, incomes, transactions, deductions, estimatedPayments, overrides, mappingRules] = await Promise.all([
     prisma.taxYearProfile.findUnique({
       where: {
         userId_taxYear: {
@@ -76,32 +164,37 @@ export async function computeTaxYear(userId: string, taxYear: number, requestId?
       where: {
         userId
       }
-    })
+    }),
+    loadCategoryRules()
   ]);
 
   if (!profile) {
     throw new Error(`Tax profile missing for year ${taxYear}.`);
   }
 
-  const activeRulesets = resolveActiveRulesetsForTaxYear(taxYear);
+  const priorYear = await resolvePriorYearLiability(userId, taxYear, profile);
+  const activeRulesets = resolveActiveRulesetsForTaxYear(taxYear, profile.residentState);
   const federalRuleset = loadFederalRuleset(activeRulesets.federal);
   const stateRuleset = loadStateRuleset(activeRulesets.state);
 
-  const result = computeTaxEstimate({
+  return {
     profile: {
       userId,
       taxYear,
       filingStatus: profile.filingStatus,
       dependentsCount: profile.dependentsCount,
+      qualifyingChildrenCount: profile.qualifyingChildrenCount,
       residentState: profile.residentState,
       residentCity: profile.residentCity,
       residentZip: profile.residentZip,
       county: profile.county,
       isFullYearResident: profile.isFullYearResident,
+      ndResidencyStartDate: profile.ndResidencyStartDate?.toISOString() ?? null,
+      ndResidencyEndDate: profile.ndResidencyEndDate?.toISOString() ?? null,
       hasNdSalesTaxNexus: profile.hasNdSalesTaxNexus,
       salesTaxFilingFrequency: profile.salesTaxFilingFrequency,
       standardDeductionForced: profile.standardDeductionForced,
-      itemizedDeductionAmount: profile.itemizedDeductionAmount ? toNumber(profile.itemizedDeductionAmount) : null,
+      itemizedDeductionAmount: profile.itemizedDeductionAmount ? toAmount(profile.itemizedDeductionAmount) : null,
       hasForeignIncome: profile.hasForeignIncome,
       hasK1: profile.hasK1,
       hasAdvancedInvestments: profile.hasAdvancedInvestments,
@@ -111,26 +204,32 @@ export async function computeTaxYear(userId: string, taxYear: number, requestId?
       id: income.id,
       type: income.type,
       label: income.label,
-      amount: toNumber(income.amount),
+      amount: toAmount(income.amount),
+      qualifiedDividends: toAmount(income.qualifiedDividends),
+      capitalGainTerm: income.capitalGainTerm,
       payerName: income.payerName,
-      taxWithheldFederal: toNumber(income.taxWithheldFederal),
-      taxWithheldState: toNumber(income.taxWithheldState),
-      taxWithheldLocal: toNumber(income.taxWithheldLocal),
-      taxWithheldMedicare: toNumber(income.taxWithheldMedicare),
-      taxWithheldSocialSecurity: toNumber(income.taxWithheldSocialSecurity),
+      taxWithheldFederal: toAmount(income.taxWithheldFederal),
+      taxWithheldState: toAmount(income.taxWithheldState),
+      taxWithheldLocal: toAmount(income.taxWithheldLocal),
+      taxWithheldMedicare: toAmount(income.taxWithheldMedicare),
+      taxWithheldSocialSecurity: toAmount(income.taxWithheldSocialSecurity),
+      ndSourceAmount: income.ndSourceAmount === null ? null : toAmount(income.ndSourceAmount),
+      workState: income.workState,
+      owner: income.owner,
       isConfirmed: income.isConfirmed
     })),
     estimatedPayments: estimatedPayments.map((payment: any) => ({
       id: payment.id,
       kind: payment.kind,
       quarter: payment.quarter,
-      amount: toNumber(payment.amount),
-      paidAt: payment.paidAt.toISOString()
+      amount: toAmount(payment.amount),
+      paidAt: payment.paidAt.toISOString(),
+      owner: payment.owner
     })),
     transactions: transactions.map((transaction: any) => ({
       id: transaction.id,
       date: transaction.date.toISOString(),
-      amount: toNumber(transaction.amount),
+      amount: toAmount(transaction.amount),
       merchant: transaction.merchant,
       description: transaction.description,
       direction: transaction.direction,
@@ -138,16 +237,22 @@ export async function computeTaxYear(userId: string, taxYear: number, requestId?
       categoryConfidence: transaction.categoryConfidence ? toNumber(transaction.categoryConfidence) : null,
       categoryReason: transaction.categoryReason,
       categorySource: transaction.categorySource,
-      isReviewed: transaction.isReviewed
+      isReviewed: transaction.isReviewed,
+      owner: transaction.owner,
+      isTaxableSale: transaction.isTaxableSale,
+      salesTaxZip: transaction.salesTaxZip,
+      isUseTaxLiable: transaction.isUseTaxLiable
     })),
     deductions: deductions.map((deduction: any) => ({
       id: deduction.id,
       code: deduction.code,
       label: deduction.label,
-      amount: toNumber(deduction.amount),
-      isConfirmed: deduction.isConfirmed
+      amount: toAmount(deduction.amount),
+      isConfirmed: deduction.isConfirmed,
+      owner: deduction.owner
     })),
-    mappingRules: defaultCategoryRules,
+    priorYear,
+    mappingRules,
     userOverrides: overrides.map((override: any) => ({
       vendorPattern: override.vendorPattern,
       keywordPattern: override.keywordPattern,
@@ -155,7 +260,12 @@ export async function computeTaxYear(userId: string, taxYear: number, requestId?
     })),
     federalRuleset,
     stateRuleset
-  });
+  };
+}
+
+export async function computeTaxYear(userId: string, taxYear: number, requestId?: string) {
+  const input = await loadTaxComputationInput(userId, taxYear);
+  const result = computeTaxEstimate(input);
 
   const run = await prisma.computationRun.create({
     data: {
@@ -167,11 +277,7 @@ export async function computeTaxYear(userId: string, taxYear: number, requestId?
       rulesetStateVersion: result.rulesets.stateVersion,
       totalsJson: asJson(result.breakdown),
       explanationJson: asJson(result.explanation),
-      inputsSnapshotJson: asJson({
-        incomeCount: incomes.length,
-        transactionCount: transactions.length,
-        deductionCount: deductions.length
-      }),
+      inputsSnapshotJson: asJson(createInputSnapshot(input)),
       completenessScore: result.completeness.score,
       confidenceScore: result.confidence.score
     }
@@ -266,8 +372,10 @@ export async function getTaxSummary(userId: string, taxYear: number) {
   });
 }
 
-export async function getTaxExplain(runId: string, userId: string) {
-  return prisma.computationRun.findFirst({
+// With a node id only that node and its children are returned, or null when
+// the run's explanation has no such node.
+export async function getTaxExplain(runId: string, userId: string, nodeId?: string) {
+  const run = await prisma.computationRun.findFirst({
     where: {
       id: runId,
       userId
@@ -277,6 +385,83 @@ export async function getTaxExplain(runId: string, userId: string) {
       explanationJson: true
     }
   });
+
+  if (!run || nodeId === undefined) {
+    return run;
+  }
+
+  const node = findExplanationNode(run.explanationJson as unknown as ExplanationNode, nodeId);
+  return node ? { ...run, explanationJson: node } : null;
+}
+
+const explanationContentTypes: Record<Exclude<ExplanationFormat, "text">, string> = {
+  mermaid: "text/plain; charset=utf-8",
+  dot: "text/vnd.graphviz; charset=utf-8",
+  html: "text/html; charset=utf-8"
+};
+
+export async function renderTaxExplain(
+  runId: string,
+  userId: string,
+  format: Exclude<ExplanationFormat, "text">,
+  nodeId?: string
+) {
+  const explain = await getTaxExplain(runId, userId, nodeId);
+  if (!explain) {
+    return null;
+  }
+
+  return {
+    contentType: explanationContentTypes[format],
+    body: renderExplanation(
+      explain.explanationJson as unknown as ExplanationNode,
+      format,
+      `Tax explanation for run ${explain.id}`
+    )
+  };
+}
+
+async function loadComputationRunRecord(runId: string, userId: string): Promise<ComputationRunRecord | null> {
+  const run = await prisma.computationRun.findFirst({
+    where: {
+      id: runId,
+      userId
+    },
+    include: {
+      assumptions: true,
+      riskFlags: true
+    }
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  return {
+    id: run.id,
+    breakdown: run.totalsJson as unknown as TaxBreakdown,
+    input: isInputSnapshot(run.inputsSnapshotJson)
+      ? restoreComputationInput(
+          run.inputsSnapshotJson,
+          loadFederalRuleset(run.rulesetFederalVersion),
+          loadStateRuleset(run.rulesetStateVersion)
+        )
+      : null,
+    federalVersion: run.rulesetFederalVersion,
+    stateVersion: run.rulesetStateVersion,
+    riskFlags: run.riskFlags.map((flag) => ({ code: flag.code, description: flag.explanation })),
+    assumptions: run.assumptions.map((assumption) => ({ code: assumption.code, description: assumption.description }))
+  };
+}
+
+// Returns null when either run does not exist or belongs to another user.
+export async function getComputationRunDiff(userId: string, baseRunId: string, targetRunId: string) {
+  const [base, target] = await Promise.all([
+    loadComputationRunRecord(baseRunId, userId),
+    loadComputationRunRecord(targetRunId, userId)
+  ]);
+
+  return base && target ? diffComputationRuns(base, target) : null;
 }
 
 export async function getCompleteness(userId: string, taxYear: number) {
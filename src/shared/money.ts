@@ -26,3 +26,87 @@ export function asNumber(value: unknown): number {
 
   return 0;
 }
+
+// A whole number of cents. Adding and subtracting Money is exact integer
+// arithmetic, so totals built from it reconcile to the penny; only
+// multiplyMoney and roundToWholeDollars ever round. Domain modules compute in
+// Money; their inputs and results, the breakdown and stored totals stay in
+// dollars, each an exact number of cents.
+export type Money = number & { readonly __unit: "cents" };
+
+export const ZERO_MONEY = 0 as Money;
+
+// Half a cent rounds away from zero. Going through 15 significant digits
+// first drops binary noise such as 100.49999999999999 for 1.005 x 100.
+function roundHalfAwayFromZero(value: number): number {
+  const magnitude = Math.round(Number(Math.abs(value).toPrecision(15)));
+  return value < 0 && magnitude !== 0 ? -magnitude : magnitude;
+}
+
+export function toMoney(dollars: number): Money {
+  return roundHalfAwayFromZero(dollars * 100) as Money;
+}
+
+// Decimal strings, including Prisma Decimal values, are read digit by digit so
+// no float conversion happens before the amount is in cents.
+export function parseMoney(value: unknown): Money {
+  const match = /^(-)?(\d+)(?:\.(\d*))?$/.exec(String(value ?? "").trim());
+  if (!match) {
+    return toMoney(value === null || value === undefined ? 0 : asNumber(value));
+  }
+
+  const [, sign, whole = "0", fraction = ""] = match;
+  const digits = fraction.padEnd(3, "0");
+  const cents = Number(whole) * 100 + Number(digits.slice(0, 2)) + (Number(digits[2]) >= 5 ? 1 : 0);
+  return (sign && cents !== 0 ? -cents : cents) as Money;
+}
+
+export function toDollars(amount: Money): number {
+  return amount / 100;
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+}
+
+export function addMoney(...amounts: Money[]): Money {
+  return sumMoney(amounts);
+}
+
+export function subtractMoney(amount: Money, subtrahend: Money): Money {
+  return (amount - subtrahend) as Money;
+}
+
+export function minMoney(...amounts: Money[]): Money {
+  return Math.min(...amounts) as Money;
+}
+
+export function maxMoney(...amounts: Money[]): Money {
+  return Math.max(...amounts) as Money;
+}
+
+export function multiplyMoney(amount: Money, rate: number): Money {
+  return roundHalfAwayFromZero(amount * rate) as Money;
+}
+
+// Splits an amount into `parts` shares that differ by at most a cent and add
+// up to it exactly; the leftover cents go to the earliest shares.
+export function allocateMoney(amount: Money, parts: number): Money[] {
+  const share = Math.trunc(amount / parts);
+  const remainder = amount - share * parts;
+  return Array.from(
+    { length: parts },
+    (_, index) => (share + (index < Math.abs(remainder) ? Math.sign(remainder) : 0)) as Money
+  );
+}
+
+// IRS whole-dollar rounding: drop amounts under 50 cents and raise amounts
+// from 50 to 99 cents to the next dollar.
+export function roundToWholeDollars(amount: Money): Money {
+  return (roundHalfAwayFromZero(amount / 100) * 100) as Money;
+}
+
+// For form lines computed in dollars: the amount as it is entered on the line.
+export function wholeDollars(dollars: number): number {
+  return toDollars(roundToWholeDollars(toMoney(dollars)));
+}
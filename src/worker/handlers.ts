@@ -5,6 +5,7 @@ import { loadRulesetMeta } from "../domain/rulesets/loader.js";
 import { logger } from "../infrastructure/logger.js";
 import { prisma } from "../infrastructure/prisma.js";
 import { createTaxPackExport } from "../services/export-service.js";
+import { runRulesetImpactReport } from "../services/replay-service.js";
 import { computeTaxYear } from "../services/tax-service.js";
 
 export async function handleExtractDocument(data: { documentId: string }) {
@@ -59,6 +60,29 @@ export async function handleRulesetUpdateCheck() {
   };
 }
 
+export async function handleRulesetImpactReplay(data: { reportId: string }) {
+  const report = await runRulesetImpactReport(data.reportId);
+
+  logger.info(
+    {
+      reportId: data.reportId,
+      taxYear: report.taxYear,
+      federalVersion: report.federalVersion,
+      stateVersion: report.stateVersion,
+      replayedCount: report.replayedCount,
+      skippedCount: report.skippedRunIds.length,
+      affectedCount: report.affectedCount,
+      totalTaxDelta: report.totalTaxDelta
+    },
+    "ruleset_impact_replay completed"
+  );
+
+  return {
+    reportId: data.reportId,
+    affectedCount: report.affectedCount
+  };
+}
+
 export async function handleRebuildCategoryIndex() {
   logger.info("rebuild_category_index handler invoked");
 }
@@ -7,6 +7,7 @@ import {
   handlePurgeExpiredUploadUrls,
   handleRebuildCategoryIndex,
   handleRecomputeTaxYear,
+  handleRulesetImpactReplay,
   handleRulesetUpdateCheck
 } from "./handlers.js";
 import { createWorker, queueNames } from "./queues.js";
@@ -16,6 +17,7 @@ createWorker(queueNames.importBankCsv, async (job) => handleImportBankCsv(job.da
 createWorker(queueNames.recomputeTaxYear, async (job) => handleRecomputeTaxYear(job.data));
 createWorker(queueNames.generateTaxPackPdf, async (job) => handleGenerateTaxPackPdf(job.data));
 createWorker(queueNames.rulesetUpdateCheck, async () => handleRulesetUpdateCheck());
+createWorker(queueNames.rulesetImpactReplay, async (job) => handleRulesetImpactReplay(job.data));
 createWorker(queueNames.rebuildCategoryIndex, async () => handleRebuildCategoryIndex());
 createWorker(queueNames.purgeExpiredUploadUrls, async () => handlePurgeExpiredUploadUrls());
 createWorker(queueNames.deadLetterReprocess, async () => handleDeadLetterReprocess());
@@ -9,6 +9,7 @@ export const queueNames = {
   recomputeTaxYear: "recompute_tax_year",
   generateTaxPackPdf: "generate_tax_pack_pdf",
   rulesetUpdateCheck: "ruleset_update_check",
+  rulesetImpactReplay: "ruleset_impact_replay",
   rebuildCategoryIndex: "rebuild_category_index",
   purgeExpiredUploadUrls: "purge_expired_upload_urls",
   deadLetterReprocess: "dead_letter_reprocess"
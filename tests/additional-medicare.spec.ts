@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset } from "../src/domain/rulesets/loader.js";
+import { computeAdditionalMedicareTax } from "../src/domain/tax/additional-medicare.js";
+import type { IncomeInput } from "../src/domain/tax/types.js";
+
+describe("additional Medicare tax", () => {
+  const federalRuleset = loadFederalRuleset();
+
+  function w2(amount: number, taxWithheldMedicare?: number): IncomeInput {
+    return { id: "income-1", type: "W2", label: "Employer W-2", amount, taxWithheldMedicare, isConfirmed: true };
+  }
+
+  it("uses the $125,000 married filing separately threshold for wages", () => {
+    expect(
+      computeAdditionalMedicareTax({
+        filingStatus: "MARRIED_FILING_SEPARATELY",
+        incomes: [w2(125000)],
+        selfEmploymentEarnings: 0,
+        ruleset: federalRuleset
+      })
+    ).toMatchObject({ threshold: 125000, wagesOverThreshold: 0, tax: 0 });
+    expect(
+      computeAdditionalMedicareTax({
+        filingStatus: "MARRIED_FILING_SEPARATELY",
+        incomes: [w2(130000)],
+        selfEmploymentEarnings: 0,
+        ruleset: federalRuleset
+      })
+    ).toMatchObject({ wagesOverThreshold: 5000, taxOnWages: 45, tax: 45 });
+  });
+
+  it("reduces the self-employment threshold by wages", () => {
+    expect(
+      computeAdditionalMedicareTax({
+        filingStatus: "MARRIED_FILING_SEPARATELY",
+        incomes: [w2(100000)],
+        selfEmploymentEarnings: 40000,
+        ruleset: federalRuleset
+      })
+    ).toMatchObject({
+      selfEmploymentThreshold: 25000,
+      selfEmploymentEarningsOverThreshold: 15000,
+      taxOnWages: 0,
+      taxOnSelfEmploymentEarnings: 135,
+      tax: 135
+    });
+  });
+
+  it("credits only the withholding employers take over $200,000, whatever the filing status", () => {
+    // 1.45% on all wages plus 0.9% on the $10,000 over $200,000.
+    const details = computeAdditionalMedicareTax({
+      filingStatus: "MARRIED_FILING_SEPARATELY",
+      incomes: [w2(210000, 3135)],
+      selfEmploymentEarnings: 0,
+      ruleset: federalRuleset
+    });
+
+    expect(details).toMatchObject({
+      wagesOverThreshold: 85000,
+      tax: 765,
+      regularMedicareTaxWithholding: 3045,
+      additionalMedicareTaxWithheld: 90
+    });
+  });
+});
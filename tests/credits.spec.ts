@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { computeChildTaxCredit, computeEarnedIncomeCredit } from "../src/domain/tax/credits.js";
+import type { IncomeInput } from "../src/domain/tax/types.js";
+
+describe("credits", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  function childTaxCredit(overrides: Partial<Parameters<typeof computeChildTaxCredit>[0]>) {
+    return computeChildTaxCredit({
+      filingStatus: "SINGLE",
+      qualifyingChildren: 2,
+      otherDependents: 0,
+      modifiedAdjustedGrossIncome: 150000,
+      incomeTaxBeforeCredits: 20000,
+      earnedIncome: 150000,
+      ruleset: federalRuleset,
+      ...overrides
+    });
+  }
+
+  it("phases the child tax credit out by $50 for each started $1,000 over the threshold", () => {
+    const reductionAt = (modifiedAdjustedGrossIncome: number, filingStatus: "SINGLE" | "MARRIED_FILING_JOINTLY") =>
+      childTaxCredit({ modifiedAdjustedGrossIncome, filingStatus })?.phaseOutReduction;
+
+    expect(reductionAt(200000, "SINGLE")).toBe(0);
+    expect(reductionAt(200000.01, "SINGLE")).toBe(50);
+    expect(reductionAt(201000, "SINGLE")).toBe(50);
+    expect(reductionAt(201000.01, "SINGLE")).toBe(100);
+    expect(reductionAt(400000, "MARRIED_FILING_JOINTLY")).toBe(0);
+    expect(reductionAt(410500, "MARRIED_FILING_JOINTLY")).toBe(550);
+
+    expect(childTaxCredit({ modifiedAdjustedGrossIncome: 287000.01 })).toMatchObject({
+      tentativeCredit: 4400,
+      phaseOutReduction: 4400,
+      allowedCredit: 0,
+      nonrefundablePortion: 0,
+      refundablePortion: 0
+    });
+    expect(childTaxCredit({ modifiedAdjustedGrossIncome: 300000 })?.allowedCredit).toBe(0);
+  });
+
+  it("caps the refundable portion per qualifying child and by the earned income formula", () => {
+    expect(childTaxCredit({ qualifyingChildren: 3, incomeTaxBeforeCredits: 1000, earnedIncome: 60000 })).toMatchObject({
+      allowedCredit: 6600,
+      nonrefundablePortion: 1000,
+      refundablePortion: 5100
+    });
+    // 15% of earned income over $2,500 is less than the unused credit.
+    expect(
+      childTaxCredit({ qualifyingChildren: 3, incomeTaxBeforeCredits: 0, earnedIncome: 10000 })?.refundablePortion
+    ).toBe(1125);
+    expect(childTaxCredit({ incomeTaxBeforeCredits: 0, earnedIncome: 2500 })?.refundablePortion).toBe(0);
+    // Only the credit left after income tax is refundable.
+    expect(childTaxCredit({ incomeTaxBeforeCredits: 4000, earnedIncome: 60000 })).toMatchObject({
+      nonrefundablePortion: 4000,
+      refundablePortion: 400
+    });
+  });
+
+  it("does not refund the credit for other dependents", () => {
+    expect(
+      childTaxCredit({ qualifyingChildren: 0, otherDependents: 2, incomeTaxBeforeCredits: 300, earnedIncome: 40000 })
+    ).toMatchObject({
+      allowedCredit: 1000,
+      nonrefundablePortion: 300,
+      refundablePortion: 0
+    });
+    expect(childTaxCredit({ qualifyingChildren: 0, otherDependents: 0 })).toBeNull();
+  });
+
+  it("disqualifies the earned income credit only once investment income passes the limit", () => {
+    const earnedIncomeCredit = (investmentIncome: number) =>
+      computeEarnedIncomeCredit({
+        filingStatus: "SINGLE",
+        qualifyingChildren: 1,
+        earnedIncome: 15000,
+        adjustedGrossIncome: 15000 + investmentIncome,
+        investmentIncome,
+        ruleset: federalRuleset
+      });
+
+    expect(earnedIncomeCredit(12200)).toMatchObject({ disqualificationReason: null });
+    expect(earnedIncomeCredit(12200)?.credit).toBeGreaterThan(0);
+    expect(earnedIncomeCredit(12200.01)).toMatchObject({
+      investmentIncome: 12200.01,
+      phaseInCredit: 0,
+      phaseOutReduction: 0,
+      credit: 0,
+      disqualificationReason: "INVESTMENT_INCOME_LIMIT"
+    });
+  });
+
+  it("counts interest, dividends, and capital gains toward the investment income limit", () => {
+    const estimate = (incomes: IncomeInput[]) =>
+      computeTaxEstimate({
+        profile: {
+          userId: "user-1",
+          taxYear: 2026,
+          filingStatus: "SINGLE",
+          dependentsCount: 1,
+          qualifyingChildrenCount: 1,
+          residentState: "ND",
+          residentCity: "Grand Forks",
+          county: "Grand Forks",
+          isFullYearResident: true
+        },
+        incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 15000, isConfirmed: true }, ...incomes],
+        estimatedPayments: [],
+        transactions: [],
+        deductions: [],
+        mappingRules: [],
+        userOverrides: [],
+        federalRuleset,
+        stateRuleset
+      }).breakdown;
+
+    const underLimit = estimate([
+      { id: "income-2", type: "FORM_1099_INT", label: "Bank", amount: 6000, isConfirmed: true },
+      { id: "income-3", type: "FORM_1099_DIV", label: "Brokerage", amount: 6000, isConfirmed: true }
+    ]);
+    expect(underLimit.earnedIncomeCreditDetails?.investmentIncome).toBe(12000);
+    expect(underLimit.earnedIncomeCredit).toBeGreaterThan(0);
+
+    const overLimit = estimate([
+      { id: "income-2", type: "FORM_1099_INT", label: "Bank", amount: 6000, isConfirmed: true },
+      { id: "income-3", type: "FORM_1099_DIV", label: "Brokerage", amount: 6000, isConfirmed: true },
+      { id: "income-4", type: "FORM_1099_B", label: "Stock sale", amount: 500, isConfirmed: true }
+    ]);
+    expect(overLimit.earnedIncomeCreditDetails).toMatchObject({
+      investmentIncome: 12500,
+      disqualificationReason: "INVESTMENT_INCOME_LIMIT"
+    });
+    expect(overLimit.earnedIncomeCredit).toBe(0);
+  });
+});
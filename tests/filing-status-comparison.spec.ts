@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { compareMarriedFilingStatuses } from "../src/domain/tax/filing-status-comparison.js";
+import type { EstimatedPaymentInput, TaxComputationInput } from "../src/domain/tax/types.js";
+import { buildTaxInput } from "./fixtures/tax-input.js";
+
+// The separate-return inputs are read back from the calculator spy.
+vi.mock("../src/domain/tax/calculator.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../src/domain/tax/calculator.js")>();
+  return { ...original, computeTaxEstimate: vi.fn(original.computeTaxEstimate) };
+});
+
+describe("filing status comparison", () => {
+  function jointInput(
+    estimatedPayments: EstimatedPaymentInput[],
+    itemizedDeductionAmount: number | null
+  ): TaxComputationInput {
+    return buildTaxInput({
+      profile: { filingStatus: "MARRIED_FILING_JOINTLY", itemizedDeductionAmount },
+      incomes: [
+        { id: "income-1", type: "W2", label: "Taxpayer W-2", amount: 70000, owner: "TAXPAYER", isConfirmed: true },
+        { id: "income-2", type: "W2", label: "Spouse W-2", amount: 50000, owner: "SPOUSE", isConfirmed: true },
+        {
+          id: "income-3",
+          type: "FORM_1099_INT",
+          label: "Joint savings interest",
+          amount: 2000.01,
+          ndSourceAmount: 1000.01,
+          owner: "JOINT",
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments
+    });
+  }
+
+  function separateInputs(): { taxpayer: TaxComputationInput; spouse: TaxComputationInput } {
+    const inputs = vi
+      .mocked(computeTaxEstimate)
+      .mock.calls.map(([input]) => input)
+      .filter((input) => input.profile.filingStatus === "MARRIED_FILING_SEPARATELY");
+    // The taxpayer's return is computed before the spouse's.
+    return { taxpayer: inputs[0]!, spouse: inputs[1]! };
+  }
+
+  it("splits estimated payments by owner and only splits joint payments evenly", () => {
+    const payment = (id: string, amount: number, owner?: EstimatedPaymentInput["owner"]): EstimatedPaymentInput => ({
+      id,
+      kind: "ESTIMATED_QUARTERLY",
+      quarter: 1,
+      amount,
+      paidAt: "2026-04-15T00:00:00.000Z",
+      owner
+    });
+    vi.mocked(computeTaxEstimate).mockClear();
+
+    const comparison = compareMarriedFilingStatuses(
+      jointInput([payment("payment-1", 4000, "TAXPAYER"), payment("payment-2", 1000, "SPOUSE")], null)
+    );
+
+    const { taxpayer, spouse } = separateInputs();
+    expect(taxpayer.estimatedPayments.map((item) => [item.id, item.amount])).toEqual([["payment-1", 4000]]);
+    expect(spouse.estimatedPayments.map((item) => [item.id, item.amount])).toEqual([["payment-2", 1000]]);
+    expect(comparison?.restrictions.map((restriction) => restriction.code)).not.toContain(
+      "MFS_ESTIMATED_PAYMENTS_SPLIT_EVENLY"
+    );
+
+    vi.mocked(computeTaxEstimate).mockClear();
+    const withJointPayment = compareMarriedFilingStatuses(
+      jointInput([payment("payment-1", 4000, "TAXPAYER"), payment("payment-3", 2500.01, "JOINT")], null)
+    );
+
+    const split = separateInputs();
+    expect(split.taxpayer.estimatedPayments.map((item) => item.amount)).toEqual([4000, 1250.01]);
+    expect(split.spouse.estimatedPayments.map((item) => item.amount)).toEqual([1250]);
+    expect(withJointPayment?.restrictions.map((restriction) => restriction.code)).toContain(
+      "MFS_ESTIMATED_PAYMENTS_SPLIT_EVENLY"
+    );
+  });
+
+  it("leaves the profile itemized amount off the separate returns and says so", () => {
+    vi.mocked(computeTaxEstimate).mockClear();
+
+    const comparison = compareMarriedFilingStatuses(jointInput([], 36000));
+
+    const { taxpayer, spouse } = separateInputs();
+    expect(taxpayer.profile.itemizedDeductionAmount).toBeNull();
+    expect(spouse.profile.itemizedDeductionAmount).toBeNull();
+    expect(comparison?.jointly.deductionType).toBe("ITEMIZED");
+    expect(comparison?.separately.deductionType).toBe("STANDARD");
+    expect(comparison?.restrictions).toContainEqual(
+      expect.objectContaining({ code: "MFS_PROFILE_ITEMIZED_AMOUNT_NOT_SPLIT" })
+    );
+  });
+
+  it("splits the North Dakota source amount of joint income with the income", () => {
+    vi.mocked(computeTaxEstimate).mockClear();
+
+    compareMarriedFilingStatuses(jointInput([], null));
+
+    const { taxpayer, spouse } = separateInputs();
+    const jointIncome = (input: TaxComputationInput) => input.incomes.find((income) => income.id === "income-3");
+    expect(jointIncome(taxpayer)).toMatchObject({ amount: 1000.01, ndSourceAmount: 500.01 });
+    expect(jointIncome(spouse)).toMatchObject({ amount: 1000, ndSourceAmount: 500 });
+  });
+});
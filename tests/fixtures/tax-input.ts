@@ -0,0 +1,31 @@
+import { loadFederalRuleset, loadStateRuleset } from "../../src/domain/rulesets/loader.js";
+import type { TaxComputationInput, TaxProfileInput } from "../../src/domain/tax/types.js";
+
+type TaxInputOverrides = Partial<Omit<TaxComputationInput, "profile">> & { profile?: Partial<TaxProfileInput> };
+
+// A single, full-year Grand Forks resident on the active rulesets with nothing
+// entered; specs pass only the parts they exercise.
+export function buildTaxInput({ profile, ...overrides }: TaxInputOverrides = {}): TaxComputationInput {
+  return {
+    profile: {
+      userId: "user-1",
+      taxYear: 2026,
+      filingStatus: "SINGLE",
+      dependentsCount: 0,
+      residentState: "ND",
+      residentCity: "Grand Forks",
+      county: "Grand Forks",
+      isFullYearResident: true,
+      ...profile
+    },
+    incomes: [],
+    estimatedPayments: [],
+    transactions: [],
+    deductions: [],
+    mappingRules: [],
+    userOverrides: [],
+    federalRuleset: loadFederalRuleset(),
+    stateRuleset: loadStateRuleset(),
+    ...overrides
+  };
+}
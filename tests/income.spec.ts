@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { aggregateIncome } from "../src/domain/tax/income.js";
+import type { IncomeInput, TaxComputationInput, TransactionInput } from "../src/domain/tax/types.js";
+
+const w2: IncomeInput = { id: "income-1", type: "W2", label: "Employer W-2", amount: 60000, isConfirmed: true };
+
+const expenseTransactions: TransactionInput[] = [
+  {
+    id: "txn-meals",
+    date: "2026-03-12T00:00:00.000Z",
+    amount: -240.5,
+    merchant: "Downtown Bistro",
+    description: "Team lunch",
+    direction: "EXPENSE",
+    categoryCode: "MEALS",
+    categorySource: "USER"
+  },
+  {
+    id: "txn-software",
+    date: "2026-05-02T00:00:00.000Z",
+    amount: -1199.99,
+    merchant: "Design Suite",
+    description: "Annual license",
+    direction: "EXPENSE",
+    categoryCode: "SOFTWARE",
+    categorySource: "USER"
+  }
+];
+
+describe("income aggregation", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  function w2Input(transactions: TransactionInput[]): TaxComputationInput {
+    return {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [w2],
+      estimatedPayments: [],
+      transactions,
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+  }
+
+  it("leaves Schedule C net profit at zero when there are expenses but no receipts", () => {
+    const income = aggregateIncome([w2], expenseTransactions, 1440.49, 3000);
+
+    expect(income.hasScheduleC).toBe(false);
+    expect(income.scheduleCNetProfit).toBe(0);
+    expect(income.grossIncome).toBe(60000);
+  });
+
+  it("does not deduct MEALS and SOFTWARE expenses from a W-2-only filer's AGI", () => {
+    const withExpenses = computeTaxEstimate(w2Input(expenseTransactions));
+    const withoutExpenses = computeTaxEstimate(w2Input([]));
+
+    expect(withExpenses.breakdown).toMatchObject({
+      scheduleCNetProfit: 0,
+      businessExpenses: 0,
+      adjustedGrossIncome: 60000,
+      selfEmploymentTax: 0,
+      federalTax: withoutExpenses.breakdown.federalTax,
+      stateTax: withoutExpenses.breakdown.stateTax
+    });
+    expect(withExpenses.assumptions).toContainEqual(
+      expect.objectContaining({ code: "BUSINESS_EXPENSES_WITHOUT_SCHEDULE_C", userActionNeeded: true })
+    );
+    expect(withoutExpenses.assumptions.some((item) => item.code === "BUSINESS_EXPENSES_WITHOUT_SCHEDULE_C")).toBe(
+      false
+    );
+  });
+
+  it("limits a net capital loss and carries the rest over", () => {
+    const sale = (id: string, amount: number, capitalGainTerm: "SHORT_TERM" | "LONG_TERM"): IncomeInput => ({
+      id,
+      type: "FORM_1099_B",
+      label: "Brokerage",
+      amount,
+      capitalGainTerm,
+      isConfirmed: true
+    });
+
+    expect(
+      aggregateIncome([w2, sale("sale-1", -8000, "SHORT_TERM"), sale("sale-2", 2000, "LONG_TERM")], [], 0, 3000)
+    ).toMatchObject({
+      capitalGainOrLoss: -3000,
+      capitalLossCarryover: 3000,
+      netCapitalGain: 0,
+      grossIncome: 57000
+    });
+    expect(aggregateIncome([w2, sale("sale-1", -3000, "SHORT_TERM")], [], 0, 3000)).toMatchObject({
+      capitalGainOrLoss: -3000,
+      capitalLossCarryover: 0
+    });
+    // Short-term losses absorb long-term gains before any gain gets preferential rates.
+    expect(
+      aggregateIncome([w2, sale("sale-1", -1000, "SHORT_TERM"), sale("sale-2", 5000, "LONG_TERM")], [], 0, 3000)
+    ).toMatchObject({
+      capitalGainOrLoss: 4000,
+      capitalLossCarryover: 0,
+      netCapitalGain: 4000
+    });
+  });
+
+  it("applies the married filing separately capital loss limit and notes the carryover", () => {
+    const estimate = (filingStatus: "SINGLE" | "MARRIED_FILING_SEPARATELY") => {
+      const input = w2Input([]);
+      return computeTaxEstimate({
+        ...input,
+        profile: { ...input.profile, filingStatus },
+        incomes: [
+          w2,
+          {
+            id: "sale-1",
+            type: "FORM_1099_B",
+            label: "Brokerage",
+            amount: -2500,
+            capitalGainTerm: "SHORT_TERM",
+            isConfirmed: true
+          }
+        ]
+      });
+    };
+
+    const single = estimate("SINGLE");
+    expect(single.breakdown.capitalGainOrLoss).toBe(-2500);
+    expect(single.breakdown.adjustedGrossIncome).toBe(57500);
+    expect(single.assumptions.some((item) => item.code === "CAPITAL_LOSS_CARRYOVER")).toBe(false);
+
+    const separate = estimate("MARRIED_FILING_SEPARATELY");
+    expect(separate.breakdown.capitalGainOrLoss).toBe(-1500);
+    expect(separate.breakdown.adjustedGrossIncome).toBe(58500);
+    expect(separate.assumptions).toContainEqual(
+      expect.objectContaining({ code: "CAPITAL_LOSS_CARRYOVER", description: expect.stringContaining("(1000)") })
+    );
+  });
+});
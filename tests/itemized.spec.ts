@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import type { FederalRuleset } from "../src/domain/rulesets/types.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { SCHEDULE_A_CODES } from "../src/domain/tax/itemized.js";
+import type { TaxComputationOutput } from "../src/domain/tax/types.js";
+
+describe("itemized deductions", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  function computeItemized(ruleset: FederalRuleset): TaxComputationOutput {
+    return computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 100000, isConfirmed: true }],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [
+        {
+          id: "deduction-1",
+          code: SCHEDULE_A_CODES.MORTGAGE_INTEREST,
+          label: "Form 1098",
+          amount: 18000,
+          isConfirmed: true
+        },
+        { id: "deduction-2", code: SCHEDULE_A_CODES.MEDICAL, label: "Surgery", amount: 12000, isConfirmed: true }
+      ],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset: ruleset,
+      stateRuleset
+    });
+  }
+
+  function formulaOf(result: TaxComputationOutput, label: string): string | undefined {
+    const choice = result.explanation.children.find((node) => node.label === "Deduction choice");
+    return choice?.children.find((node) => node.label === label)?.formula;
+  }
+
+  it("states the SALT phase-down rate and the medical expense floor from the ruleset", () => {
+    const result = computeItemized(federalRuleset);
+
+    expect(formulaOf(result, "State and local taxes")).toBe(
+      "min(taxes paid, SALT cap - 30% x (AGI - phase-down threshold), never below the floor)"
+    );
+    expect(formulaOf(result, "Medical and dental expenses")).toBe("medical expenses - 7.5% x AGI");
+  });
+
+  it("follows a ruleset that changes the rates", () => {
+    const result = computeItemized({
+      ...federalRuleset,
+      itemizedDeductions: {
+        ...federalRuleset.itemizedDeductions!,
+        saltPhaseDownRate: 0.25,
+        medicalExpenseAgiFloor: 0.1
+      }
+    });
+
+    expect(result.breakdown.itemizedDeductionDetails?.medicalExpenseFloor).toBe(10000);
+    expect(formulaOf(result, "State and local taxes")).toContain("SALT cap - 25% x");
+    expect(formulaOf(result, "Medical and dental expenses")).toBe("medical expenses - 10% x AGI");
+  });
+});
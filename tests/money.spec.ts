@@ -0,0 +1,294 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  loadFederalRuleset,
+  loadLocalSalesTaxTable,
+  loadStateRuleset,
+  resolveActiveRulesetsForTaxYear
+} from "../src/domain/rulesets/loader.js";
+import { buildSalesTaxPeriodReport } from "../src/domain/sales-tax/periods.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { computeChildTaxCredit, computeEarnedIncomeCredit } from "../src/domain/tax/credits.js";
+import { buildEstimatedPaymentPlans } from "../src/domain/tax/estimated-payments.js";
+import { computeItemizedDeductions, SCHEDULE_A_CODES } from "../src/domain/tax/itemized.js";
+import { computeNdPartYearAllocation } from "../src/domain/tax/nd-part-year.js";
+import type { DeductionInput, TransactionInput } from "../src/domain/tax/types.js";
+import { computeUnderpaymentPenalty } from "../src/domain/tax/underpayment.js";
+import { allocateMoney, subtractMoney, sumMoney, toDollars, toMoney } from "../src/shared/money.js";
+
+function total(amounts: number[]): number {
+  return toDollars(sumMoney(amounts.map(toMoney)));
+}
+
+function expectWholeCents(amounts: number[]) {
+  for (const amount of amounts) {
+    expect(toDollars(toMoney(amount))).toBe(amount);
+  }
+}
+
+function scheduleAItem(code: string, amount: number): DeductionInput {
+  return { id: code, code, label: code, amount, isConfirmed: true };
+}
+
+describe("money reconciliation", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  it("splits amounts into shares that differ by at most a cent and add up exactly", () => {
+    expect(allocateMoney(toMoney(100.03), 4).map(toDollars)).toEqual([25.01, 25.01, 25.01, 25]);
+    expect(allocateMoney(toMoney(-0.05), 2).map(toDollars)).toEqual([-0.03, -0.02]);
+    expect(sumMoney(allocateMoney(toMoney(1234.57), 12))).toBe(toMoney(1234.57));
+  });
+
+  it("spreads estimated payment installments so every plan adds up to its remaining amount", () => {
+    const options = buildEstimatedPaymentPlans({
+      taxYear: 2026,
+      filingStatus: "SINGLE",
+      currentYearTax: 10000.03,
+      withholding: 1234.57,
+      estimatedPayments: 100.01,
+      stateBalanceDue: 777.79,
+      priorYear: { adjustedGrossIncome: 80000, totalTax: 7000.01, source: "PROFILE" },
+      ruleset: federalRuleset
+    });
+
+    expect(options.map((option) => option.basis)).toEqual(["CURRENT_YEAR_90", "PRIOR_YEAR_SAFE_HARBOR"]);
+    for (const option of options) {
+      expect(option.installments).toHaveLength(4);
+      expect(total(option.installments.map((installment) => installment.amount))).toBe(option.remainingAmount);
+      expect(option.remainingAmount).toBe(
+        toDollars(
+          subtractMoney(
+            sumMoney([toMoney(option.requiredAnnualPayment), toMoney(777.79)]),
+            sumMoney([toMoney(1234.57), toMoney(100.01)])
+          )
+        )
+      );
+    }
+  });
+
+  it("splits Form 2210 installments and withholding to the cent and totals the penalty per installment", () => {
+    const details = computeUnderpaymentPenalty({
+      filingStatus: "SINGLE",
+      currentYearTax: 12345.67,
+      withholding: 3000.01,
+      estimatedPayments: [{ id: "payment-1", kind: "ESTIMATED_QUARTERLY", amount: 2000.03, paidAt: "2026-10-01" }],
+      ruleset: federalRuleset
+    });
+
+    expect(details?.penalty).toBeGreaterThan(0);
+    const installments = details!.installments;
+    expect(total(installments.map((installment) => installment.requiredInstallment))).toBe(
+      details!.requiredAnnualPayment
+    );
+    expect(total(installments.map((installment) => installment.withholdingCredit))).toBe(3000.01);
+    expect(total(installments.map((installment) => installment.penalty))).toBe(details!.penalty);
+    for (const installment of installments) {
+      expect(
+        toDollars(subtractMoney(toMoney(installment.requiredInstallment), toMoney(installment.paymentsApplied)))
+      ).toBe(installment.underpayment);
+    }
+  });
+
+  it("adds the itemized deduction lines up to the Schedule A total", () => {
+    const details = computeItemizedDeductions({
+      filingStatus: "SINGLE",
+      adjustedGrossIncome: 86543.21,
+      deductions: [
+        scheduleAItem(SCHEDULE_A_CODES.STATE_LOCAL_INCOME_TAX, 2100.33),
+        scheduleAItem(SCHEDULE_A_CODES.REAL_ESTATE_TAX, 3300.34),
+        scheduleAItem(SCHEDULE_A_CODES.MORTGAGE_INTEREST, 9876.55),
+        scheduleAItem(SCHEDULE_A_CODES.MEDICAL, 7777.77),
+        scheduleAItem(SCHEDULE_A_CODES.CHARITABLE_CASH, 1500.05),
+        scheduleAItem(SCHEDULE_A_CODES.CHARITABLE_NONCASH, 250.25)
+      ],
+      incomes: [],
+      ruleset: federalRuleset
+    });
+
+    expect(details).not.toBeNull();
+    expect(
+      total([
+        details!.stateAndLocalTaxes,
+        details!.mortgageInterest,
+        details!.medicalExpenses,
+        details!.charitableContributions
+      ])
+    ).toBe(details!.total);
+    expect(details!.medicalExpenses).toBe(
+      toDollars(subtractMoney(toMoney(details!.medicalExpensesPaid), toMoney(details!.medicalExpenseFloor)))
+    );
+    expectWholeCents(Object.values(details!));
+  });
+
+  it("keeps the child tax credit and earned income credit parts reconciled to the cent", () => {
+    const childTaxCredit = computeChildTaxCredit({
+      filingStatus: "MARRIED_FILING_JOINTLY",
+      qualifyingChildren: 2,
+      otherDependents: 1,
+      modifiedAdjustedGrossIncome: 412345.67,
+      incomeTaxBeforeCredits: 1234.56,
+      earnedIncome: 23456.78,
+      ruleset: federalRuleset
+    });
+    expect(childTaxCredit!.phaseOutReduction).toBeGreaterThan(0);
+    expect(
+      toDollars(subtractMoney(toMoney(childTaxCredit!.tentativeCredit), toMoney(childTaxCredit!.phaseOutReduction)))
+    ).toBe(childTaxCredit!.allowedCredit);
+    expect(childTaxCredit!.nonrefundablePortion).toBe(1234.56);
+    expect(childTaxCredit!.refundablePortion).toBeLessThanOrEqual(
+      toDollars(subtractMoney(toMoney(childTaxCredit!.allowedCredit), toMoney(childTaxCredit!.nonrefundablePortion)))
+    );
+
+    const earnedIncomeCredit = computeEarnedIncomeCredit({
+      filingStatus: "SINGLE",
+      qualifyingChildren: 1,
+      earnedIncome: 31234.57,
+      adjustedGrossIncome: 31234.57,
+      investmentIncome: 0,
+      ruleset: federalRuleset
+    });
+    expect(earnedIncomeCredit!.phaseOutReduction).toBeGreaterThan(0);
+    expect(
+      toDollars(
+        subtractMoney(toMoney(earnedIncomeCredit!.phaseInCredit), toMoney(earnedIncomeCredit!.phaseOutReduction))
+      )
+    ).toBe(earnedIncomeCredit!.credit);
+  });
+
+  it("passes the penalty and the payment plans the tax after refundable credits, exact to the cent", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        { id: "income-1", type: "W2", label: "Employer W-2", amount: 15333.33, isConfirmed: true },
+        { id: "income-2", type: "FORM_1099_NEC", label: "Side work", amount: 4321.09, isConfirmed: true }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+    const breakdown = result.breakdown;
+
+    expect(breakdown.earnedIncomeCredit).toBeGreaterThan(0);
+    expect(breakdown.underpaymentPenaltyDetails?.currentYearTax).toBe(
+      Math.max(
+        0,
+        toDollars(
+          subtractMoney(
+            toMoney(breakdown.federalTax),
+            sumMoney([toMoney(breakdown.additionalChildTaxCredit), toMoney(breakdown.earnedIncomeCredit)])
+          )
+        )
+      )
+    );
+    expect(result.estimatedPaymentPlanOptions[0]?.installments).toHaveLength(4);
+    for (const option of result.estimatedPaymentPlanOptions) {
+      expect(total(option.installments.map((installment) => installment.amount))).toBe(option.remainingAmount);
+    }
+    expectWholeCents([
+      breakdown.adjustedGrossIncome,
+      breakdown.federalBalanceDue,
+      breakdown.monthlySetAsideRecommendation
+    ]);
+  });
+
+  it("adds the sales and use tax periods up to the report totals", () => {
+    const sales: Array<[string, number]> = [
+      ["2026-01-03", 19.99],
+      ["2026-01-17", 0.07],
+      ["2026-04-09", 333.33],
+      ["2026-04-10", 0.01],
+      ["2026-08-21", 1234.56],
+      ["2026-12-31", 99.95]
+    ];
+    const report = buildSalesTaxPeriodReport({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        residentZip: "58201",
+        county: "Grand Forks",
+        isFullYearResident: true,
+        hasNdSalesTaxNexus: true,
+        salesTaxFilingFrequency: "MONTHLY"
+      },
+      transactions: [
+        ...sales.map(
+          ([date, amount], index): TransactionInput => ({
+            id: `txn-${index + 1}`,
+            date: `${date}T00:00:00.000Z`,
+            amount,
+            description: "Sale",
+            direction: "INCOME",
+            isTaxableSale: true
+          })
+        ),
+        {
+          id: "txn-purchase",
+          date: "2026-04-15T00:00:00.000Z",
+          amount: 123.45,
+          description: "Out-of-state equipment",
+          direction: "EXPENSE",
+          isUseTaxLiable: true
+        }
+      ],
+      mappingRules: [],
+      rateTable: loadLocalSalesTaxTable(resolveActiveRulesetsForTaxYear(2026).localSalesTax!)
+    });
+
+    expect(report?.periods).toHaveLength(12);
+    for (const field of ["taxableSales", "taxablePurchases", "stateTax", "localTax", "useTax", "totalTax"] as const) {
+      expect(total(report!.periods.map((period) => period[field]))).toBe(report!.totals[field]);
+    }
+    for (const period of report!.periods) {
+      expect(total([period.stateTax, period.localTax])).toBe(period.totalTax);
+      expectWholeCents([period.stateTax, period.localTax, period.useTax]);
+    }
+  });
+
+  it("keeps part-year North Dakota amounts in whole cents", () => {
+    const allocation = computeNdPartYearAllocation({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        isFullYearResident: false,
+        ndResidencyStartDate: "2026-04-17"
+      },
+      incomes: [
+        { id: "income-1", type: "W2", label: "Employer W-2", amount: 61234.57, isConfirmed: true },
+        { id: "income-2", type: "FORM_1099_INT", label: "Bank", amount: 101.01, isConfirmed: true }
+      ],
+      transactions: [],
+      expenseTransactions: [],
+      businessDeductions: [],
+      capitalLossLimit: 3000,
+      scheduleCNetProfit: 0,
+      selfEmploymentTaxDeduction: 0,
+      adjustedGrossIncome: 61335.58,
+      fullYearTax: 711.11
+    });
+
+    expect(allocation).not.toBeNull();
+    expect(allocation!.ndSourceIncome).toBe(total([allocation!.wages, allocation!.investmentIncome]));
+    expectWholeCents([allocation!.wages, allocation!.investmentIncome, allocation!.ndSourceIncome, allocation!.tax]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { aggregateIncome } from "../src/domain/tax/income.js";
+import { computeNdAdjustments, computeNdCredits, ND_ITEM_CODES } from "../src/domain/tax/nd-adjustments.js";
+import type { DeductionInput, IncomeInput } from "../src/domain/tax/types.js";
+
+function item(id: string, code: string, amount: number, isConfirmed = true): DeductionInput {
+  return { id, code, label: code, amount, isConfirmed };
+}
+
+describe("North Dakota adjustments and credits", () => {
+  const stateRuleset = loadStateRuleset();
+
+  it("limits subtractions to the income they come from, sharing the wage limit", () => {
+    const income = aggregateIncome(
+      [
+        { id: "income-1", type: "W2", label: "Base pay", amount: 30000, isConfirmed: true },
+        { id: "income-2", type: "FORM_1099_INT", label: "Treasury bills", amount: 500, isConfirmed: true }
+      ],
+      [],
+      0,
+      3000
+    );
+
+    const details = computeNdAdjustments({
+      federalTaxableIncome: 14400,
+      income,
+      deductions: [
+        item("item-1", ND_ITEM_CODES.MILITARY_PAY, 20000),
+        item("item-2", ND_ITEM_CODES.NATIONAL_GUARD_RESERVE_PAY, 15000),
+        item("item-3", ND_ITEM_CODES.US_OBLIGATION_INTEREST, 800),
+        item("item-4", ND_ITEM_CODES.LUMP_SUM_DISTRIBUTION, 2500),
+        item("item-5", ND_ITEM_CODES.SOCIAL_SECURITY_BENEFITS, 4000, false)
+      ],
+      ruleset: stateRuleset
+    });
+
+    expect(details.additions).toEqual([{ code: "LUMP_SUM_DISTRIBUTION", label: expect.any(String), amount: 2500 }]);
+    expect(details.subtractions.map((line) => [line.code, line.amount])).toEqual([
+      ["US_OBLIGATION_INTEREST", 500],
+      ["MILITARY_PAY", 20000],
+      ["NATIONAL_GUARD_RESERVE_PAY", 10000]
+    ]);
+    expect(details.totalSubtractions).toBe(30500);
+    // 14,400 + 2,500 - 30,500 is negative, so ND taxable income stops at zero.
+    expect(details.taxableIncome).toBe(0);
+  });
+
+  it("gives the marriage penalty credit only when both spouses have wages or business income", () => {
+    const credits = (incomes: IncomeInput[]) =>
+      computeNdCredits({
+        filingStatus: "MARRIED_FILING_JOINTLY",
+        taxBeforeCredits: 1310.4,
+        ndTaxableIncome: 150000,
+        ndIncome: 180000,
+        incomes,
+        deductions: [],
+        ruleset: stateRuleset
+      });
+    const w2 = (id: string, amount: number, owner: IncomeInput["owner"]): IncomeInput => ({
+      id,
+      type: "W2",
+      label: "W-2",
+      amount,
+      owner,
+      isConfirmed: true
+    });
+
+    const bothEarning = credits([w2("income-1", 90000, "TAXPAYER"), w2("income-2", 90000, "SPOUSE")]);
+    // Two single returns on $75,000 each owe 2 x 495.79, against 1,310.40 joint.
+    expect(bothEarning?.marriagePenalty).toMatchObject({
+      taxpayerQualifiedIncome: 90000,
+      spouseQualifiedIncome: 90000,
+      jointTax: 1310.4,
+      separateTax: 991.58,
+      credit: 318.82
+    });
+
+    expect(credits([w2("income-1", 180000, "TAXPAYER")])).toBeNull();
+  });
+
+  it("limits the credit for tax paid to another state to the ND tax on that income", () => {
+    const incomes: IncomeInput[] = [
+      { id: "income-1", type: "W2", label: "Fargo employer", amount: 60000, isConfirmed: true },
+      {
+        id: "income-2",
+        type: "W2",
+        label: "Montana project",
+        amount: 20000,
+        workState: "MT",
+        taxWithheldState: 900,
+        isConfirmed: true
+      }
+    ];
+    const credits = (deductions: DeductionInput[]) =>
+      computeNdCredits({
+        filingStatus: "SINGLE",
+        taxBeforeCredits: 800,
+        ndTaxableIncome: 65000,
+        ndIncome: 80000,
+        incomes,
+        deductions,
+        ruleset: stateRuleset
+      })?.taxPaidToOtherState;
+
+    expect(credits([])).toMatchObject({
+      otherStateIncome: 20000,
+      taxPaid: 900,
+      taxPaidSource: "WITHHOLDING",
+      limitation: 200,
+      credit: 200
+    });
+    expect(credits([item("item-1", ND_ITEM_CODES.TAX_PAID_TO_OTHER_STATE, 150)])).toMatchObject({
+      taxPaid: 150,
+      taxPaidSource: "DEDUCTION_ITEM",
+      credit: 150
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset } from "../src/domain/rulesets/loader.js";
+import type { FilingStatusCode } from "../src/domain/rulesets/types.js";
+import { aggregateIncome } from "../src/domain/tax/income.js";
+import { computeNetInvestmentIncomeTax } from "../src/domain/tax/niit.js";
+
+describe("net investment income tax", () => {
+  const federalRuleset = loadFederalRuleset();
+
+  function niit(filingStatus: FilingStatusCode, wages: number, interest: number) {
+    const income = aggregateIncome(
+      [
+        { id: "income-1", type: "W2", label: "Employer W-2", amount: wages, isConfirmed: true },
+        { id: "income-2", type: "FORM_1099_INT", label: "Bank", amount: interest, isConfirmed: true }
+      ],
+      [],
+      0,
+      3000
+    );
+    return computeNetInvestmentIncomeTax({
+      filingStatus,
+      income,
+      adjustedGrossIncome: wages + interest,
+      ruleset: federalRuleset
+    });
+  }
+
+  it("uses the $125,000 married filing separately threshold", () => {
+    expect(niit("MARRIED_FILING_SEPARATELY", 115000, 10000)).toMatchObject({
+      threshold: 125000,
+      incomeOverThreshold: 0,
+      tax: 0
+    });
+    expect(niit("MARRIED_FILING_SEPARATELY", 120000, 10000)).toMatchObject({
+      threshold: 125000,
+      incomeOverThreshold: 5000,
+      tax: 190
+    });
+    expect(niit("SINGLE", 120000, 10000)).toMatchObject({ threshold: 200000, tax: 0 });
+  });
+
+  it("taxes the smaller of net investment income and MAGI over the threshold", () => {
+    expect(niit("MARRIED_FILING_SEPARATELY", 190000, 10000)).toMatchObject({
+      netInvestmentIncome: 10000,
+      incomeOverThreshold: 75000,
+      tax: 380
+    });
+    expect(niit("MARRIED_FILING_SEPARATELY", 125000, 0)).toBeNull();
+  });
+});
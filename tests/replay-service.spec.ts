@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { createInputSnapshot } from "../src/domain/tax/snapshots.js";
+import type { TaxComputationInput } from "../src/domain/tax/types.js";
+import {
+  getRulesetImpactReport,
+  queueRulesetImpactReport,
+  runRulesetImpactReport
+} from "../src/services/replay-service.js";
+
+// The database and the job queue are replaced with in-memory fakes so the
+// report lifecycle runs without Postgres or Redis.
+const db = vi.hoisted(() => ({
+  reports: new Map<string, Record<string, unknown>>(),
+  runs: [] as Array<Record<string, unknown>>,
+  jobs: [] as Array<{ name: string; data: unknown }>
+}));
+
+vi.mock("../src/infrastructure/prisma.js", () => ({
+  prisma: {
+    rulesetImpactReport: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const report = {
+          id: `report-${db.reports.size + 1}`,
+          status: "PENDING",
+          reportJson: null,
+          errorMessage: null,
+          createdAt: new Date("2026-10-19T00:00:00.000Z"),
+          updatedAt: new Date("2026-10-19T00:00:00.000Z"),
+          ...data
+        };
+        db.reports.set(report.id, report);
+        return report;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const report = { ...db.reports.get(where.id), ...data };
+        db.reports.set(where.id, report);
+        return report;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => db.reports.get(where.id) ?? null
+    },
+    computationRun: {
+      findMany: async ({ where }: { where: { id?: { in: string[] }; runStatus?: string } }) =>
+        where.id
+          ? db.runs.filter((run) => where.id!.in.includes(run.id as string))
+          : db.runs.filter((run) => run.runStatus === where.runStatus).map(({ id }) => ({ id }))
+    },
+    auditEvent: {
+      create: async () => ({})
+    }
+  }
+}));
+
+vi.mock("../src/worker/queues.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/worker/queues.js")>()),
+  createQueue: (name: string) => ({
+    add: async (_jobName: string, data: unknown) => {
+      db.jobs.push({ name, data });
+    },
+    close: async () => undefined
+  })
+}));
+
+describe("ruleset impact reports", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  beforeEach(() => {
+    db.reports.clear();
+    db.runs = [];
+    db.jobs = [];
+  });
+
+  it("queues a report, stores the replayed impact and serves it back", async () => {
+    const input: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 90000, isConfirmed: true }],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+    const breakdown = computeTaxEstimate(input).breakdown;
+    db.runs = [
+      {
+        id: "run-1",
+        runStatus: "COMPLETED",
+        // Totals stored by an older calculator must not read as ruleset impact.
+        totalsJson: { ...breakdown, federalTax: breakdown.federalTax + 500 },
+        inputsSnapshotJson: createInputSnapshot(input),
+        rulesetFederalVersion: federalRuleset.id,
+        rulesetStateVersion: stateRuleset.id
+      },
+      {
+        id: "run-legacy",
+        runStatus: "COMPLETED",
+        totalsJson: breakdown,
+        inputsSnapshotJson: null,
+        rulesetFederalVersion: federalRuleset.id,
+        rulesetStateVersion: stateRuleset.id
+      },
+      {
+        id: "run-failed",
+        runStatus: "FAILED",
+        totalsJson: breakdown,
+        inputsSnapshotJson: createInputSnapshot(input),
+        rulesetFederalVersion: federalRuleset.id,
+        rulesetStateVersion: stateRuleset.id
+      }
+    ];
+
+    await expect(queueRulesetImpactReport(2026, { federalVersion: "IRS-1999.1" }, "admin-1")).rejects.toMatchObject({
+      statusCode: 400
+    });
+    expect(db.reports.size).toBe(0);
+
+    const queued = await queueRulesetImpactReport(2026, { federalVersion: federalRuleset.id }, "admin-1");
+    expect(queued).toEqual({ id: "report-1", status: "PENDING" });
+    expect(db.jobs).toEqual([{ name: "ruleset_impact_replay", data: { reportId: "report-1" } }]);
+    expect((await getRulesetImpactReport("report-1"))?.report).toBeNull();
+
+    await runRulesetImpactReport("report-1");
+    const stored = await getRulesetImpactReport("report-1");
+    expect(stored).toMatchObject({ status: "COMPLETED", requestedBy: "admin-1", error: null });
+    expect(stored?.report).toMatchObject({
+      taxYear: 2026,
+      federalVersion: federalRuleset.id,
+      runCount: 2,
+      replayedCount: 1,
+      skippedRunIds: ["run-legacy"],
+      affectedCount: 0
+    });
+    expect(stored?.report?.distribution.find((bucket) => bucket.label === "No change")?.count).toBe(1);
+    expect(await getRulesetImpactReport("missing")).toBeNull();
+  });
+});
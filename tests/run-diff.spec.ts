@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { diffComputationRuns } from "../src/domain/tax/run-diff.js";
+import type { TaxComputationInput, TransactionInput } from "../src/domain/tax/types.js";
+import { sumMoney, toMoney } from "../src/shared/money.js";
+
+// Every estimate goes through the spy so the test can count them.
+vi.mock("../src/domain/tax/calculator.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../src/domain/tax/calculator.js")>();
+  return { ...original, computeTaxEstimate: vi.fn(original.computeTaxEstimate) };
+});
+
+describe("run diff", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+
+  it("groups transaction changes into one step and caps the item steps, leaving the rest unattributed", () => {
+    const baseInput: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [{ id: "income-1", type: "BUSINESS_GROSS", label: "Consulting", amount: 40000, isConfirmed: true }],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+    const transactions = Array.from(
+      { length: 30 },
+      (_, index): TransactionInput => ({
+        id: `txn-${index + 1}`,
+        date: `2026-${String((index % 12) + 1).padStart(2, "0")}-10T00:00:00.000Z`,
+        amount: -100,
+        merchant: `Vendor ${index + 1}`,
+        description: "Software subscription",
+        direction: "EXPENSE",
+        categoryCode: "SOFTWARE",
+        categorySource: "USER"
+      })
+    );
+    const targetInput: TaxComputationInput = {
+      ...baseInput,
+      incomes: [
+        ...baseInput.incomes,
+        ...Array.from({ length: 12 }, (_, index) => ({
+          id: `income-${index + 2}`,
+          type: "FORM_1099_INT" as const,
+          label: `Bank ${index + 2}`,
+          amount: 1000,
+          isConfirmed: true
+        }))
+      ],
+      transactions
+    };
+    const run = (id: string, input: TaxComputationInput) => ({
+      id,
+      breakdown: computeTaxEstimate(input).breakdown,
+      input,
+      federalVersion: federalRuleset.id,
+      stateVersion: stateRuleset.id,
+      riskFlags: [],
+      assumptions: []
+    });
+    const baseRun = run("run-a", baseInput);
+    const targetRun = run("run-b", targetInput);
+    vi.mocked(computeTaxEstimate).mockClear();
+
+    const diff = diffComputationRuns(baseRun, targetRun);
+
+    expect(diff.inputs?.items).toHaveLength(42);
+    const attributions = diff.taxChange.attributions;
+    expect(attributions.filter((item) => item.source === "TRANSACTIONS")).toEqual([
+      {
+        source: "TRANSACTIONS",
+        label: "30 transaction changes",
+        collection: "transactions",
+        taxDelta: expect.any(Number)
+      }
+    ]);
+    expect(attributions.find((item) => item.source === "TRANSACTIONS")?.taxDelta).toBeLessThan(0);
+    expect(attributions.filter((item) => item.source === "ITEM")).toHaveLength(8);
+    expect(diff.taxChange.unattributedItemCount).toBe(4);
+    // The four bank interest records that were not applied account for the rest.
+    expect(diff.taxChange.unattributed).toBeGreaterThan(0);
+    expect(
+      sumMoney([...attributions.map((item) => toMoney(item.taxDelta)), toMoney(diff.taxChange.unattributed)])
+    ).toBe(toMoney(diff.taxChange.delta));
+
+    // One estimate for the base inputs and one per step, none with Schedule AI periods.
+    expect(vi.mocked(computeTaxEstimate)).toHaveBeenCalledTimes(10);
+    for (const [, options] of vi.mocked(computeTaxEstimate).mock.calls) {
+      expect(options).toEqual({ annualize: false });
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { buildSalesTaxPeriods } from "../src/domain/sales-tax/periods.js";
+
+describe("sales tax periods", () => {
+  it("rolls the due date of the last period into January of the next year", () => {
+    expect(buildSalesTaxPeriods(2026, "MONTHLY").slice(-2)).toEqual([
+      { periodStart: "2026-11-01", periodEnd: "2026-11-30", dueDate: "2026-12-31" },
+      { periodStart: "2026-12-01", periodEnd: "2026-12-31", dueDate: "2027-01-31" }
+    ]);
+    expect(buildSalesTaxPeriods(2026, "QUARTERLY").at(-1)).toEqual({
+      periodStart: "2026-10-01",
+      periodEnd: "2026-12-31",
+      dueDate: "2027-01-31"
+    });
+    expect(buildSalesTaxPeriods(2026, "ANNUAL")).toEqual([
+      { periodStart: "2026-01-01", periodEnd: "2026-12-31", dueDate: "2027-01-31" }
+    ]);
+  });
+
+  it("ends periods and due dates on the last day of short months", () => {
+    const monthly = buildSalesTaxPeriods(2026, "MONTHLY");
+    expect(monthly[0]).toEqual({ periodStart: "2026-01-01", periodEnd: "2026-01-31", dueDate: "2026-02-28" });
+    expect(monthly[1]?.periodEnd).toBe("2026-02-28");
+    expect(buildSalesTaxPeriods(2028, "MONTHLY")[0]?.dueDate).toBe("2028-02-29");
+    expect(buildSalesTaxPeriods(2026, "QUARTERLY").map((period) => period.dueDate)).toEqual([
+      "2026-04-30",
+      "2026-07-31",
+      "2026-10-31",
+      "2027-01-31"
+    ]);
+  });
+});
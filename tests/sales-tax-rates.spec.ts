@@ -0,0 +1,53 @@
+import { readFileSync } from "node:fs";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { loadLocalSalesTaxTable, resolveActiveRulesetsForTaxYear } from "../src/domain/rulesets/loader.js";
+import { findLocalSalesTaxRate } from "../src/domain/sales-tax/rates.js";
+
+// Reads pass through unless a test swaps in tampered file contents.
+vi.mock("node:fs", async (importOriginal) => {
+  const original = await importOriginal<typeof import("node:fs")>();
+  return { ...original, readFileSync: vi.fn(original.readFileSync) };
+});
+
+describe("local sales tax rates", () => {
+  const version = resolveActiveRulesetsForTaxYear(2026).localSalesTax!;
+
+  afterEach(() => {
+    vi.mocked(readFileSync).mockReset();
+  });
+
+  it("looks up city and county-only ZIPs in the signed table", () => {
+    const table = loadLocalSalesTaxTable(version);
+
+    expect(findLocalSalesTaxRate(table, { zip: "58203" }, "2026-05-01")).toMatchObject({
+      jurisdictionType: "CITY",
+      jurisdictionCode: "GRAND_FORKS",
+      totalRate: 0.0725
+    });
+    expect(findLocalSalesTaxRate(table, { zip: "58005" }, "2026-05-01")).toMatchObject({
+      jurisdictionType: "COUNTY",
+      jurisdictionCode: "CASS_COUNTY",
+      localRate: 0.005,
+      totalRate: 0.055
+    });
+    expect(findLocalSalesTaxRate(table, { zip: "58999", county: "Cass" }, "2026-05-01")?.jurisdictionCode).toBe(
+      "CASS_COUNTY"
+    );
+    expect(findLocalSalesTaxRate(table, { zip: "58999" }, "2026-05-01")).toBeNull();
+    expect(findLocalSalesTaxRate(table, { zip: "58005" }, "2025-12-31")).toBeNull();
+  });
+
+  it("rejects a CSV whose contents do not match the signature", () => {
+    const original = vi.mocked(readFileSync).getMockImplementation()!;
+    vi.mocked(readFileSync).mockImplementation(((file: string, options?: unknown) => {
+      const contents = original(file, options as BufferEncoding);
+      return String(file).endsWith(".csv") ? String(contents).replace("0.0225,0.0725", "0.0125,0.0625") : contents;
+    }) as typeof readFileSync);
+
+    expect(() => loadLocalSalesTaxTable(version)).toThrow(
+      expect.objectContaining({ code: "RULESET_SIGNATURE_INVALID" })
+    );
+  });
+});
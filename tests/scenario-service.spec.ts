@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { runSavedTaxScenario } from "../src/services/scenario-service.js";
+import { loadTaxComputationInput } from "../src/services/tax-service.js";
+import { buildTaxInput } from "./fixtures/tax-input.js";
+
+// The saved scenario row and the user's inputs are replaced with fixed values
+// so the service runs without Postgres.
+const db = vi.hoisted(() => ({
+  deltasJson: null as unknown
+}));
+
+vi.mock("../src/infrastructure/prisma.js", () => ({
+  prisma: {
+    taxScenario: {
+      findFirst: async () => ({ id: "scenario-1", name: "Side job", taxYear: 2026, deltasJson: db.deltasJson })
+    }
+  }
+}));
+
+vi.mock("../src/services/tax-service.js", () => ({
+  loadTaxComputationInput: vi.fn(async () =>
+    buildTaxInput({
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 60000, isConfirmed: true }]
+    })
+  )
+}));
+
+describe("saved tax scenarios", () => {
+  beforeEach(() => {
+    vi.mocked(loadTaxComputationInput).mockClear();
+  });
+
+  it("runs saved deltas that still match the scenario schema", async () => {
+    db.deltasJson = [{ type: "ADD_INCOME", incomeType: "FORM_1099_NEC", amount: 10000 }];
+
+    const result = await runSavedTaxScenario("user-1", "scenario-1");
+
+    expect(result).toMatchObject({ scenarioId: "scenario-1", name: "Side job", taxYear: 2026 });
+    expect(result?.scenario.breakdown.grossIncome).toBe(70000);
+  });
+
+  it("rejects stale or malformed saved deltas before computing anything", async () => {
+    for (const deltasJson of [[{ type: "RENAMED_DELTA", amount: 10000 }], [{ type: "ADD_INCOME" }], [], null]) {
+      db.deltasJson = deltasJson;
+
+      await expect(runSavedTaxScenario("user-1", "scenario-1")).rejects.toMatchObject({
+        statusCode: 400,
+        code: "VALIDATION_ERROR",
+        details: expect.objectContaining({ scenarioId: "scenario-1" })
+      });
+    }
+    expect(loadTaxComputationInput).not.toHaveBeenCalled();
+  });
+});
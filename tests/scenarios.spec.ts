@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { applyScenarioDeltas } from "../src/domain/tax/scenarios.js";
+import type { ScenarioDelta, TaxComputationInput } from "../src/domain/tax/types.js";
+
+describe("scenarios", () => {
+  const federalRuleset = loadFederalRuleset();
+  const stateRuleset = loadStateRuleset();
+  const baseInput: TaxComputationInput = {
+    profile: {
+      userId: "user-1",
+      taxYear: 2026,
+      filingStatus: "SINGLE",
+      dependentsCount: 0,
+      residentState: "ND",
+      residentCity: "Grand Forks",
+      county: "Grand Forks",
+      isFullYearResident: true
+    },
+    incomes: [{ id: "income-1", type: "FORM_1099_NEC", label: "Consulting", amount: 80000, isConfirmed: true }],
+    estimatedPayments: [],
+    transactions: [],
+    deductions: [],
+    mappingRules: [],
+    userOverrides: [],
+    federalRuleset,
+    stateRuleset
+  };
+  const baseline = computeTaxEstimate(baseInput).breakdown;
+
+  it("reduces only AGI for a SEP contribution, leaving Schedule C profit and SE tax unchanged", () => {
+    const scenario = computeTaxEstimate(
+      applyScenarioDeltas(baseInput, [{ type: "ADD_ADJUSTMENT", adjustmentType: "SEP_IRA", amount: 5000 }])
+    );
+
+    expect(scenario.breakdown).toMatchObject({
+      adjustmentsToIncome: 5000,
+      adjustedGrossIncome: baseline.adjustedGrossIncome - 5000,
+      scheduleCNetProfit: baseline.scheduleCNetProfit,
+      selfEmploymentTax: baseline.selfEmploymentTax,
+      businessExpenses: 0
+    });
+    expect(scenario.breakdown.federalTax).toBeLessThan(baseline.federalTax);
+    expect(scenario.assumptions.some((item) => item.code === "ADJUSTMENT_LIMITS_NOT_CHECKED")).toBe(true);
+
+    const expense = computeTaxEstimate(applyScenarioDeltas(baseInput, [{ type: "ADD_EXPENSE", amount: 5000 }]));
+    expect(expense.breakdown.selfEmploymentTax).toBeLessThan(baseline.selfEmploymentTax);
+  });
+
+  it("adds long-term gains and qualified dividends that are taxed at preferential rates", () => {
+    const w2Input: TaxComputationInput = {
+      ...baseInput,
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 80000, isConfirmed: true }]
+    };
+    const taxOf = (delta: ScenarioDelta) => computeTaxEstimate(applyScenarioDeltas(w2Input, [delta])).breakdown;
+
+    const shortTerm = taxOf({ type: "ADD_INCOME", incomeType: "FORM_1099_B", amount: 10000 });
+    const longTerm = taxOf({
+      type: "ADD_INCOME",
+      incomeType: "FORM_1099_B",
+      amount: 10000,
+      capitalGainTerm: "LONG_TERM"
+    });
+    expect(shortTerm.preferentialRateTaxDetails).toBeNull();
+    expect(longTerm.preferentialRateTaxDetails?.netCapitalGain).toBe(10000);
+    expect(longTerm.federalTax).toBeLessThan(shortTerm.federalTax);
+
+    const ordinary = taxOf({ type: "ADD_INCOME", incomeType: "FORM_1099_DIV", amount: 4000 });
+    const qualified = taxOf({
+      type: "ADD_INCOME",
+      incomeType: "FORM_1099_DIV",
+      amount: 4000,
+      qualifiedDividends: 4000
+    });
+    expect(qualified.qualifiedDividends).toBe(4000);
+    expect(qualified.federalTax).toBeLessThan(ordinary.federalTax);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import { resolveStateTaxModule } from "../src/domain/tax/states/index.js";
+
+describe("state tax modules", () => {
+  it("resolves registered states by ruleset state code", () => {
+    expect(resolveStateTaxModule("ND").stateCode).toBe("ND");
+    expect(resolveStateTaxModule("SD").stateCode).toBe("SD");
+  });
+
+  it("throws for a state without a module, including from the calculator", () => {
+    expect(() => resolveStateTaxModule("MN")).toThrow("No state tax module for MN");
+    expect(() => resolveStateTaxModule("nd")).toThrow("No state tax module for nd");
+
+    const stateRuleset = loadStateRuleset();
+    expect(() =>
+      computeTaxEstimate({
+        profile: {
+          userId: "user-1",
+          taxYear: 2026,
+          filingStatus: "SINGLE",
+          dependentsCount: 0,
+          residentState: "MN",
+          isFullYearResident: true
+        },
+        incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 50000, isConfirmed: true }],
+        estimatedPayments: [],
+        transactions: [],
+        deductions: [],
+        mappingRules: [],
+        userOverrides: [],
+        federalRuleset: loadFederalRuleset(),
+        stateRuleset: { ...stateRuleset, stateCode: "MN" }
+      })
+    ).toThrow("No state tax module for MN");
+  });
+});
@@ -1,7 +1,22 @@
 import { describe, expect, it } from "vitest";
 
 import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
-import { loadFederalRuleset, loadStateRuleset } from "../src/domain/rulesets/loader.js";
+import { findExplanationNode, renderExplanation } from "../src/domain/tax/explanation.js";
+import { compareMarriedFilingStatuses } from "../src/domain/tax/filing-status-comparison.js";
+import { replayComputation, summarizeRulesetImpact } from "../src/domain/tax/replay.js";
+import { diffComputationRuns } from "../src/domain/tax/run-diff.js";
+import { applyScenarioDeltas, diffBreakdowns } from "../src/domain/tax/scenarios.js";
+import { createInputSnapshot, isInputSnapshot, restoreComputationInput } from "../src/domain/tax/snapshots.js";
+import type { ExplanationNode, TaxComputationInput } from "../src/domain/tax/types.js";
+import {
+  loadFederalRuleset,
+  loadLocalSalesTaxTable,
+  loadStateRuleset,
+  resolveActiveRulesetsForTaxYear
+} from "../src/domain/rulesets/loader.js";
+import { buildSalesTaxPeriodReport } from "../src/domain/sales-tax/periods.js";
+import { findLocalSalesTaxRate } from "../src/domain/sales-tax/rates.js";
+import { parseMoney, roundToWholeDollars, sumMoney, toDollars, toMoney } from "../src/shared/money.js";
 
 describe("tax engine", () => {
   const federalRuleset = loadFederalRuleset();
@@ -40,7 +55,7 @@ describe("tax engine", () => {
     expect(result.breakdown.taxableIncomeFederal).toBe(73450);
     expect(result.breakdown.federalTax).toBe(10509);
     expect(result.breakdown.federalBalanceDue).toBe(10509);
-    expect(result.breakdown.stateTax).toBe(465.56);
+    expect(result.breakdown.stateTax).toBe(466);
     expect(result.estimateStatus).toBe("FULL");
     expect(result.federal.status).toBe("COMPUTED");
     expect(result.state.status).toBe("COMPUTED");
@@ -96,13 +111,1604 @@ describe("tax engine", () => {
 
     expect(result.breakdown.businessExpenses).toBe(2000);
     expect(result.breakdown.selfEmploymentTaxEstimateRange?.low).toBeGreaterThan(0);
-    expect(result.breakdown.selfEmploymentTax).toBe(16672.87);
-    expect(result.breakdown.selfEmploymentTaxDeduction).toBe(8336.44);
+    expect(result.breakdown.selfEmploymentTax).toBe(16673);
+    expect(result.breakdown.selfEmploymentTaxDeduction).toBe(8337);
     expect(result.assumptions.some((item) => item.code === "SELF_EMPLOYMENT_TAX_NOT_APPLIED")).toBe(false);
     expect(result.riskFlags.some((item) => item.code === "ESTIMATED_PAYMENTS_RECOMMENDED")).toBe(true);
     expect(result.state.status).toBe("COMPUTED");
   });
 
+  it("charges self-employment tax only on Schedule C net profit when W-2 wages are present", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 100000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "FORM_1099_NEC",
+          label: "Side gig 1099-NEC",
+          amount: 10000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [
+        {
+          id: "tx-1",
+          date: "2026-05-02T00:00:00.000Z",
+          amount: 2000,
+          description: "Client invoice 12",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "USER",
+          isReviewed: true
+        },
+        {
+          id: "tx-2",
+          date: "2026-06-10T00:00:00.000Z",
+          amount: 3100,
+          description: "Payroll deposit",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "HEURISTIC",
+          isReviewed: false
+        },
+        {
+          id: "tx-3",
+          date: "2026-06-12T00:00:00.000Z",
+          amount: 500,
+          description: "Printer paper",
+          direction: "EXPENSE",
+          categoryCode: "OFFICE_SUPPLIES",
+          categorySource: "USER",
+          isReviewed: true
+        }
+      ],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.wages).toBe(100000);
+    expect(result.breakdown.scheduleCGrossReceipts).toBe(12000);
+    expect(result.breakdown.scheduleCNetProfit).toBe(11500);
+    expect(result.breakdown.grossIncome).toBe(112000);
+    expect(result.breakdown.selfEmploymentTax).toBe(1625);
+    expect(result.riskFlags.some((item) => item.code === "SCHEDULE_C_RECEIPTS_OVERLAP")).toBe(true);
+  });
+
+  it("applies the QBI deduction limited to 20% of taxable income for a Schedule C filer", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "BUSINESS_GROSS",
+          label: "Consulting receipts",
+          amount: 80000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.selfEmploymentTaxDeduction).toBe(5652);
+    expect(result.breakdown.qbiDeductionDetails?.tentativeDeduction).toBe(14869.6);
+    expect(result.breakdown.qbiDeductionDetails?.taxableIncomeLimitation).toBe(11559.6);
+    expect(result.breakdown.qbiDeduction).toBe(11559.6);
+    expect(result.breakdown.taxableIncomeFederal).toBe(46238);
+    expect(result.riskFlags.some((item) => item.code === "QBI_SSTB_REVIEW")).toBe(false);
+  });
+
+  it("applies the child tax credit with its refundable portion for a married W-2 family", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "MARRIED_FILING_JOINTLY",
+        dependentsCount: 3,
+        qualifyingChildrenCount: 2,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 40000,
+          taxWithheldFederal: 500,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.taxableIncomeFederal).toBe(6900);
+    expect(result.breakdown.childTaxCreditDetails?.tentativeCredit).toBe(4900);
+    expect(result.breakdown.childTaxCredit).toBe(690);
+    expect(result.breakdown.additionalChildTaxCredit).toBe(3400);
+    expect(result.breakdown.federalTax).toBe(0);
+    expect(result.breakdown.earnedIncomeCredit).toBe(5454.3);
+    expect(result.breakdown.federalBalanceDue).toBe(-9354.3);
+    expect(result.explanation.children.some((node) => node.outputs.additionalChildTaxCredit === 3400)).toBe(true);
+  });
+
+  it("computes the earned income credit and flags unverified qualifying child tests", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "HEAD_OF_HOUSEHOLD",
+        dependentsCount: 1,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 25000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.earnedIncomeCreditDetails?.phaseInCredit).toBe(4427);
+    expect(result.breakdown.earnedIncomeCreditDetails?.phaseOutReduction).toBe(177.38);
+    expect(result.breakdown.earnedIncomeCredit).toBe(4249.62);
+    expect(result.breakdown.additionalChildTaxCredit).toBe(1700);
+    expect(result.breakdown.federalBalanceDue).toBe(-5949.62);
+    const flag = result.riskFlags.find((item) => item.code === "EITC_ELIGIBILITY_UNVERIFIED");
+    expect(flag?.evidence?.unverifiedTests).toContain("QUALIFYING_CHILD_RESIDENCY");
+    expect(result.assumptions.some((item) => item.code === "DEPENDENTS_ASSUMED_QUALIFYING_CHILDREN")).toBe(true);
+  });
+
+  it("taxes qualified dividends and net long-term gains with the preferential rate worksheet", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 60000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "FORM_1099_INT",
+          label: "Savings interest",
+          amount: 1000,
+          isConfirmed: true
+        },
+        {
+          id: "income-3",
+          type: "FORM_1099_DIV",
+          label: "Brokerage dividends",
+          amount: 3000,
+          qualifiedDividends: 2500,
+          isConfirmed: true
+        },
+        {
+          id: "income-4",
+          type: "FORM_1099_B",
+          label: "Brokerage long-term sales",
+          amount: 10000,
+          capitalGainTerm: "LONG_TERM",
+          isConfirmed: true
+        },
+        {
+          id: "income-5",
+          type: "FORM_1099_B",
+          label: "Brokerage short-term sales",
+          amount: -2000,
+          capitalGainTerm: "SHORT_TERM",
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.scope.status).toBe("IN_SCOPE");
+    expect(result.breakdown.grossIncome).toBe(72000);
+    expect(result.breakdown.capitalGainOrLoss).toBe(8000);
+    expect(result.breakdown.preferentialRateTaxDetails?.netCapitalGain).toBe(8000);
+    expect(result.breakdown.preferentialRateTaxDetails?.taxedAtZeroRate).toBe(4500);
+    expect(result.breakdown.preferentialRateTaxDetails?.taxedAtFifteenRate).toBe(6000);
+    expect(result.breakdown.federalTax).toBe(6029);
+  });
+
+  it("builds Schedule A itemized deductions and picks them over the standard deduction", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "MARRIED_FILING_JOINTLY",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 150000,
+          taxWithheldState: 5000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [
+        {
+          id: "deduction-1",
+          code: "SCHEDULE_A_REAL_ESTATE_TAX",
+          label: "Property tax",
+          amount: 6000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-2",
+          code: "SCHEDULE_A_MORTGAGE_INTEREST",
+          label: "Form 1098",
+          amount: 18000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-3",
+          code: "SCHEDULE_A_CHARITABLE_CASH",
+          label: "Church",
+          amount: 4000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-4",
+          code: "SCHEDULE_A_CHARITABLE_NONCASH",
+          label: "Clothing",
+          amount: 1000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-5",
+          code: "SCHEDULE_A_MEDICAL",
+          label: "Dental",
+          amount: 8000,
+          isConfirmed: true
+        }
+      ],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.businessExpenses).toBe(0);
+    expect(result.breakdown.itemizedDeductionDetails?.stateAndLocalTaxes).toBe(11000);
+    expect(result.breakdown.itemizedDeductionDetails?.medicalExpenses).toBe(0);
+    expect(result.breakdown.itemizedDeductionDetails?.charitableContributions).toBe(4250);
+    expect(result.breakdown.itemizedDeductions).toBe(33250);
+    expect(result.breakdown.deductionUsed).toBe(33250);
+    expect(result.breakdown.taxableIncomeFederal).toBe(116750);
+    const choice = result.explanation.children.find((node) => node.label === "Deduction choice");
+    expect(choice?.children.map((node) => node.label)).toContain("Medical and dental expenses");
+  });
+
+  it("estimates the Form 2210 penalty from installment timing and a late estimated payment", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 40000,
+          taxWithheldFederal: 2000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "BUSINESS_GROSS",
+          label: "Consulting",
+          amount: 60000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [
+        {
+          id: "payment-1",
+          kind: "ESTIMATED_QUARTERLY",
+          quarter: 1,
+          amount: 4000,
+          paidAt: "2026-06-15T00:00:00.000Z"
+        }
+      ],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    const installments = result.breakdown.underpaymentPenaltyDetails?.installments ?? [];
+    expect(installments).toHaveLength(4);
+    expect(installments[0]?.underpayment).toBe(3505.23);
+    expect(installments[0]?.penalty).toBe(41.01);
+    expect(installments[1]?.paymentsApplied).toBe(994.77);
+    expect(result.breakdown.underpaymentPenalty).toBe(419.54);
+    const flag = result.riskFlags.find((item) => item.code === "UNDERWITHHOLDING_RISK");
+    expect(flag?.evidence?.penalty).toBe(419.54);
+  });
+
+  it("recommends the prior-year safe harbor plan when it is lower than 90% of current-year tax", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 40000,
+          taxWithheldFederal: 2000,
+          taxWithheldState: 2000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "BUSINESS_GROSS",
+          label: "Consulting",
+          amount: 60000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      priorYear: {
+        adjustedGrossIncome: 80000,
+        totalTax: 9000,
+        source: "PROFILE"
+      },
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.estimatedPaymentPlanOptions.map((option) => option.basis)).toEqual([
+      "CURRENT_YEAR_90",
+      "PRIOR_YEAR_SAFE_HARBOR"
+    ]);
+    expect(result.estimatedPaymentPlanOptions[0]?.requiredAnnualPayment).toBe(16020.9);
+    expect(result.estimatedPaymentPlanOptions[1]?.remainingAmount).toBe(7000);
+    expect(result.estimatedPaymentPlan).toHaveLength(4);
+    expect(result.estimatedPaymentPlan[0]).toEqual({ dueDate: "2026-04-15", amount: 1750, basis: "PRIOR_YEAR_SAFE_HARBOR" });
+    expect(result.breakdown.underpaymentPenaltyDetails?.requiredAnnualPayment).toBe(9000);
+    expect(result.assumptions.some((item) => item.code === "PRIOR_YEAR_SAFE_HARBOR_PLAN_RECOMMENDED")).toBe(true);
+  });
+
+  it("uses Schedule AI installments for seasonal self-employment income earned late in the year", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [],
+      estimatedPayments: [],
+      transactions: [
+        {
+          id: "tx-1",
+          date: "2026-09-20T00:00:00.000Z",
+          amount: 30000,
+          description: "Harvest hauling contract",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "USER",
+          isReviewed: true
+        },
+        {
+          id: "tx-2",
+          date: "2026-10-15T00:00:00.000Z",
+          amount: 30000,
+          description: "Harvest hauling contract",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "USER",
+          isReviewed: true
+        }
+      ],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    const details = result.breakdown.underpaymentPenaltyDetails;
+    expect(details?.method).toBe("ANNUALIZED_INCOME");
+    expect(details?.annualizedInstallments.map((installment) => installment.requiredInstallment)).toEqual([
+      0, 0, 0, 10779.3
+    ]);
+    expect(details?.installments[0]?.underpayment).toBe(0);
+    expect(result.breakdown.underpaymentPenalty).toBe(186.05);
+    expect(result.estimatedPaymentPlan.map((installment) => installment.amount)).toEqual([0, 0, 0, 10779.3]);
+    expect(result.estimatedPaymentPlan[0]?.basis).toBe("ANNUALIZED_INCOME");
+    expect(result.assumptions.some((item) => item.code === "ANNUALIZED_INCOME_PLAN_RECOMMENDED")).toBe(true);
+  });
+
+  it("adds Form 8959 Additional Medicare Tax on wages and SE earnings and Form 8960 NIIT", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 230000,
+          taxWithheldFederal: 45000,
+          taxWithheldMedicare: 3605,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "BUSINESS_GROSS",
+          label: "Consulting",
+          amount: 20000,
+          isConfirmed: true
+        },
+        {
+          id: "income-3",
+          type: "FORM_1099_INT",
+          label: "Savings interest",
+          amount: 15000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.breakdown.selfEmploymentTax).toBe(536);
+    expect(result.breakdown.additionalMedicareTaxDetails?.taxOnWages).toBe(270);
+    expect(result.breakdown.additionalMedicareTaxDetails?.taxOnSelfEmploymentEarnings).toBe(166);
+    expect(result.breakdown.additionalMedicareTax).toBe(436);
+    expect(result.breakdown.additionalMedicareTaxDetails?.additionalMedicareTaxWithheld).toBe(270);
+    expect(result.breakdown.federalWithholding).toBe(45270);
+    expect(result.breakdown.netInvestmentIncomeTax).toBe(570);
+    const labels = result.explanation.children.map((node) => node.label);
+    expect(labels).toContain("Additional Medicare Tax (Form 8959)");
+    expect(labels).toContain("Net Investment Income Tax (Form 8960)");
+  });
+
+  it("applies scenario deltas in memory and reports the field-by-field change", () => {
+    const input: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "BUSINESS_GROSS",
+          label: "Consulting",
+          amount: 60000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+
+    const scenarioInput = applyScenarioDeltas(input, [
+      { type: "ADD_EXPENSE", amount: 3000, label: "Laptop" },
+      { type: "ADD_ESTIMATED_PAYMENT", amount: 1500, paidAt: "2026-04-15T00:00:00.000Z", quarter: 1 }
+    ]);
+    expect(input.deductions).toHaveLength(0);
+    expect(scenarioInput.deductions[0]).toMatchObject({ id: "scenario-1", code: "SCENARIO_EXPENSE", amount: 3000 });
+
+    const baseline = computeTaxEstimate(input);
+    const scenario = computeTaxEstimate(scenarioInput);
+    const delta = diffBreakdowns(baseline.breakdown, scenario.breakdown);
+    expect(delta.find((item) => item.field === "businessExpenses")?.delta).toBe(3000);
+    expect(delta.find((item) => item.field === "estimatedPayments")?.delta).toBe(1500);
+    expect(delta.find((item) => item.field === "federalTax")?.delta).toBeLessThan(0);
+    expect(delta.some((item) => item.field === "wages")).toBe(false);
+  });
+
+  it("diffs two runs and attributes the tax change to the input changes", () => {
+    const baseInput: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 90000, isConfirmed: true }],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+    const storedSnapshot = JSON.parse(JSON.stringify(createInputSnapshot(baseInput))) as unknown;
+    expect(isInputSnapshot(storedSnapshot)).toBe(true);
+    expect(isInputSnapshot({ incomeCount: 1, transactionCount: 0, deductionCount: 0 })).toBe(false);
+
+    const restoredBase = restoreComputationInput(
+      storedSnapshot as Parameters<typeof restoreComputationInput>[0],
+      federalRuleset,
+      stateRuleset
+    );
+    const targetInput: TaxComputationInput = {
+      ...baseInput,
+      incomes: [
+        { id: "income-1", type: "W2", label: "Employer W-2", amount: 95000, isConfirmed: true },
+        { id: "income-2", type: "W2", label: "Second W-2", amount: 2000, isConfirmed: true }
+      ]
+    };
+    const baseRun = {
+      id: "run-a",
+      breakdown: computeTaxEstimate(restoredBase).breakdown,
+      input: restoredBase,
+      federalVersion: federalRuleset.id,
+      stateVersion: stateRuleset.id,
+      riskFlags: [{ code: "OLD_FLAG", description: "Resolved since." }],
+      assumptions: []
+    };
+    const targetRun = {
+      ...baseRun,
+      id: "run-b",
+      breakdown: computeTaxEstimate(targetInput).breakdown,
+      input: targetInput,
+      riskFlags: [],
+      assumptions: [{ code: "NEW_ASSUMPTION", description: "Appeared since." }]
+    };
+
+    const diff = diffComputationRuns(baseRun, targetRun);
+    expect(diff.rulesets.changed).toBe(false);
+    expect(diff.inputs?.items).toEqual([
+      {
+        collection: "incomes",
+        id: "income-1",
+        label: "Employer W-2",
+        change: "CHANGED",
+        fields: [{ field: "amount", from: 90000, to: 95000 }]
+      },
+      { collection: "incomes", id: "income-2", label: "Second W-2", change: "ADDED", fields: [] }
+    ]);
+    expect(diff.taxChange.metric).toBe("totalTax");
+    expect(diff.taxChange.delta).toBeGreaterThan(0);
+    expect(diff.taxChange.attributions.map((item) => item.id)).toEqual(["income-1", "income-2"]);
+    expect(diff.taxChange.unattributed).toBe(0);
+    expect(diff.totals.find((item) => item.field === "wages")?.delta).toBe(7000);
+    expect(diff.riskFlags.resolved.map((item) => item.code)).toEqual(["OLD_FLAG"]);
+    expect(diff.assumptions.appeared.map((item) => item.code)).toEqual(["NEW_ASSUMPTION"]);
+
+    const legacyDiff = diffComputationRuns({ ...baseRun, input: null }, targetRun);
+    expect(legacyDiff.inputs).toBeNull();
+    expect(legacyDiff.taxChange.unattributed).toBe(diff.taxChange.delta);
+  });
+
+  it("replays a stored run against another ruleset and summarizes the impact", () => {
+    const input: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 90000, isConfirmed: true }],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+    const run = {
+      id: "run-a",
+      breakdown: computeTaxEstimate(input).breakdown,
+      input,
+      federalVersion: federalRuleset.id,
+      stateVersion: stateRuleset.id,
+      riskFlags: [],
+      assumptions: []
+    };
+    const revisedFederal = {
+      ...federalRuleset,
+      id: "IRS-REVISED",
+      standardDeduction: { ...federalRuleset.standardDeduction, SINGLE: federalRuleset.standardDeduction.SINGLE + 1000 }
+    };
+
+    const unchanged = replayComputation(run, federalRuleset, stateRuleset);
+    const revised = replayComputation(run, revisedFederal, stateRuleset);
+    expect(unchanged.taxChange.delta).toBe(0);
+    expect(unchanged.totals).toEqual([]);
+    expect(revised.rulesets.federal).toEqual({ from: federalRuleset.id, to: "IRS-REVISED" });
+    expect(revised.totals.find((item) => item.field === "taxableIncomeFederal")?.delta).toBe(-1000);
+    expect(revised.taxChange.delta).toBeLessThan(0);
+
+    const report = summarizeRulesetImpact({
+      taxYear: 2026,
+      federalVersion: "IRS-REVISED",
+      stateVersion: null,
+      replays: [unchanged, { ...revised, runId: "run-b" }],
+      skippedRunIds: ["run-legacy"]
+    });
+    expect(report).toMatchObject({
+      runCount: 3,
+      replayedCount: 2,
+      affectedCount: 1,
+      decreasedCount: 1,
+      totalTaxDelta: revised.taxChange.delta
+    });
+    expect(report.distribution.find((bucket) => bucket.label === "No change")?.count).toBe(1);
+    expect(report.biggestChanges.map((change) => change.runId)).toEqual(["run-b"]);
+  });
+
+  it("compares MFJ with MFS and makes both spouses itemize on separate returns", () => {
+    const comparison = compareMarriedFilingStatuses({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "MARRIED_FILING_JOINTLY",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Taxpayer W-2",
+          amount: 60000,
+          taxWithheldFederal: 6000,
+          owner: "TAXPAYER",
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "W2",
+          label: "Spouse W-2",
+          amount: 60000,
+          taxWithheldFederal: 6000,
+          owner: "SPOUSE",
+          isConfirmed: true
+        },
+        {
+          id: "income-3",
+          type: "FORM_1099_INT",
+          label: "Joint savings interest",
+          amount: 2000,
+          owner: "JOINT",
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [
+        {
+          id: "deduction-1",
+          code: "SCHEDULE_A_MEDICAL",
+          label: "Spouse surgery",
+          amount: 40000,
+          owner: "SPOUSE",
+          isConfirmed: true
+        },
+        {
+          id: "deduction-2",
+          code: "SCHEDULE_A_MORTGAGE_INTEREST",
+          label: "Form 1098",
+          amount: 9000,
+          owner: "JOINT",
+          isConfirmed: true
+        }
+      ],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(comparison?.jointly.totalTax).toBe(9328);
+    expect(comparison?.separately.deductionType).toBe("ITEMIZED");
+    expect(comparison?.separately.taxpayer.deductionUsed).toBe(4500);
+    expect(comparison?.separately.spouse.deductionUsed).toBe(39925);
+    expect(comparison?.separately.combined.totalTax).toBe(9338);
+    expect(comparison?.separateMinusJoint).toBe(10);
+    expect(comparison?.recommendedFilingStatus).toBe("MARRIED_FILING_JOINTLY");
+    expect(comparison?.restrictions.map((restriction) => restriction.code)).toContain("MFS_BOTH_SPOUSES_ITEMIZE");
+    const differences = comparison?.explanation.children.find((node) => node.label === "Differences");
+    expect(differences?.outputs.federalTax).toBe(-284);
+    expect(differences?.outputs.stateTax).toBe(294);
+  });
+
+  it("reports per-bracket detail and the combined marginal rate for a W-2 and Schedule C filer", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 60000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "FORM_1099_NEC",
+          label: "Consulting 1099-NEC",
+          amount: 20000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    const federal = result.bracketAnalysis.federal!;
+    const federalNode = result.explanation.children.find((node) => node.label === "Federal taxable income");
+    const stateNode = result.explanation.children.find((node) => node.label === "North Dakota tax");
+
+    expect(federal.taxableIncome).toBe(58320);
+    expect(federal.brackets.map((bracket) => bracket.taxedAmount)).toEqual([13250, 40600, 4470]);
+    expect(federal.tax).toBe(7180.4);
+    expect(federal.marginalRate).toBe(0.22);
+    expect(federal.headroomToNextBracket).toBe(56430);
+    expect(federal.nextBracketRate).toBe(0.24);
+    expect(result.bracketAnalysis.state?.marginalRate).toBe(0.0195);
+    expect(result.bracketAnalysis.state?.brackets.map((bracket) => bracket.tax)).toEqual([0, 170.53]);
+    expect(result.bracketAnalysis.selfEmploymentMarginalRate).toBe(0.1413);
+    expect(result.bracketAnalysis.combinedMarginalRate).toBe(0.3808);
+    expect(federalNode?.children.map((node) => node.label)).toEqual(["10% bracket", "12% bracket", "22% bracket"]);
+    expect(federalNode?.outputs.headroomToNextBracket).toBe(56430);
+    expect(
+      stateNode?.children.filter((node) => node.label.endsWith("bracket")).map((node) => node.outputs.taxedAmount)
+    ).toEqual([49575, 8745]);
+  });
+
+  it("allocates North Dakota tax for a part-year resident with the ND-1NR income ratio", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: false,
+        ndResidencyStartDate: "2026-07-01T00:00:00.000Z"
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 90000,
+          ndSourceAmount: 45000,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "FORM_1099_INT",
+          label: "Savings interest",
+          amount: 1000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [
+        {
+          id: "tx-1",
+          date: "2026-03-10T00:00:00.000Z",
+          amount: 4000,
+          description: "Client invoice 3",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "USER",
+          isReviewed: true
+        },
+        {
+          id: "tx-2",
+          date: "2026-09-15T00:00:00.000Z",
+          amount: 6000,
+          description: "Client invoice 9",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "USER",
+          isReviewed: true
+        }
+      ],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    const details = result.breakdown.ndPartYearAllocationDetails!;
+    expect(result.scope.status).toBe("IN_SCOPE");
+    expect(details.residentDays).toBe(184);
+    expect(details.wages).toBe(45000);
+    expect(details.scheduleCNetProfit).toBe(6000);
+    expect(details.investmentIncome).toBe(504.11);
+    expect(details.selfEmploymentTaxDeduction).toBe(424.2);
+    expect(details.ndSourceIncome).toBe(51079.91);
+    expect(details.incomeRatio).toBe(0.5093);
+    expect(details.fullYearTax).toBe(630.03);
+    expect(result.breakdown.stateTax).toBe(321);
+    expect(result.breakdown.ndIncomeRatio).toBe(0.5093);
+    expect(result.assumptions.map((assumption) => assumption.code)).toEqual(
+      expect.arrayContaining(["ND_PART_YEAR_INCOME_RATIO_APPLIED", "ND_SOURCE_INCOME_PRORATED_BY_DAYS"])
+    );
+    expect(result.assumptions.some((assumption) => assumption.code === "FULL_YEAR_ND_ASSUMED_FALSE")).toBe(false);
+  });
+
+  it("taxes Minnesota wages of a North Dakota resident under reciprocity and explains the Minnesota resident case", () => {
+    const input: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "East Grand Forks employer W-2",
+          amount: 55000,
+          workState: "MN",
+          taxWithheldState: 1800,
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "W2",
+          label: "Grand Forks employer W-2",
+          amount: 15000,
+          workState: "ND",
+          taxWithheldState: 120,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+
+    const resident = computeTaxEstimate(input);
+    const withoutWorkState = computeTaxEstimate({
+      ...input,
+      incomes: input.incomes.map((income) => ({ ...income, workState: null }))
+    });
+    const minnesotaResident = computeTaxEstimate({
+      ...input,
+      profile: { ...input.profile, residentState: "MN", residentCity: "East Grand Forks", county: "Polk" }
+    });
+
+    expect(resident.scope.status).toBe("IN_SCOPE");
+    expect(resident.breakdown.stateTax).toBe(withoutWorkState.breakdown.stateTax);
+    expect(resident.breakdown.stateWithholding).toBe(120);
+    expect(resident.riskFlags.find((flag) => flag.code === "RECIPROCITY_STATE_WITHHOLDING")?.evidence).toEqual({
+      incomeIds: ["income-1"],
+      taxWithheld: 1800
+    });
+    expect(resident.assumptions.some((assumption) => assumption.code === "STATE_RECIPROCITY_APPLIED")).toBe(true);
+    expect(minnesotaResident.scope.reasonCodes).toEqual(["ND_RECIPROCITY_NONRESIDENT"]);
+    expect(minnesotaResident.scope.recommendedNextStep).toContain("NDW-R");
+    expect(minnesotaResident.state.status).toBe("OUT_OF_SCOPE");
+    expect(minnesotaResident.breakdown.stateTax).toBeNull();
+  });
+
+  it("derives North Dakota taxable income from ND-1 adjustments and applies ND credits", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "MARRIED_FILING_JOINTLY",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        county: "Grand Forks",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Taxpayer W-2",
+          amount: 120000,
+          owner: "TAXPAYER",
+          isConfirmed: true
+        },
+        {
+          id: "income-2",
+          type: "W2",
+          label: "Spouse Montana W-2",
+          amount: 80000,
+          workState: "MT",
+          taxWithheldState: 2600,
+          owner: "SPOUSE",
+          isConfirmed: true
+        },
+        {
+          id: "income-3",
+          type: "FORM_1099_INT",
+          label: "Treasury bills",
+          amount: 1500,
+          owner: "JOINT",
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [
+        {
+          id: "deduction-1",
+          code: "ND_ADDITION_LUMP_SUM_DISTRIBUTION",
+          label: "Form 4972 distribution",
+          amount: 4000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-2",
+          code: "ND_SUBTRACTION_US_OBLIGATION_INTEREST",
+          label: "Treasury interest",
+          amount: 2500,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-3",
+          code: "ND_SUBTRACTION_NATIONAL_GUARD_RESERVE_PAY",
+          label: "Guard drill pay",
+          amount: 6000,
+          isConfirmed: true
+        },
+        {
+          id: "deduction-4",
+          code: "ND_CREDIT_TAX_PAID_TO_OTHER_STATE",
+          label: "Montana nonresident return",
+          amount: 2400,
+          isConfirmed: true
+        }
+      ],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    expect(result.scope.status).toBe("IN_SCOPE");
+    expect(result.breakdown.businessExpenses).toBe(0);
+    expect(result.breakdown.taxableIncomeFederal).toBe(168400);
+    expect(result.breakdown.ndAdjustmentDetails?.subtractions).toEqual([
+      { code: "US_OBLIGATION_INTEREST", label: "Interest from U.S. obligations", amount: 1500 },
+      { code: "NATIONAL_GUARD_RESERVE_PAY", label: "National Guard or Reserve member pay", amount: 6000 }
+    ]);
+    expect(result.breakdown.taxableIncomeState).toBe(164900);
+    expect(result.breakdown.ndCreditDetails?.taxBeforeCredits).toBe(1600.95);
+    expect(result.breakdown.ndCreditDetails?.marriagePenalty?.separateTax).toBe(1282.13);
+    expect(result.breakdown.ndCreditDetails?.marriagePenalty?.credit).toBe(318.82);
+    expect(result.breakdown.ndCreditDetails?.taxPaidToOtherState?.limitation).toBe(646.85);
+    expect(result.breakdown.ndCredits).toBe(965.67);
+    expect(result.breakdown.stateTax).toBe(635);
+  });
+
+  it("selects the South Dakota module for an SD resident and computes no state income tax", () => {
+    const southDakotaRuleset = loadStateRuleset(resolveActiveRulesetsForTaxYear(2026, "SD").state);
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "SD",
+        residentCity: "Sioux Falls",
+        county: "Minnehaha",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 70000,
+          taxWithheldFederal: 7000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset: southDakotaRuleset
+    });
+
+    expect(southDakotaRuleset.id).toBe("SD-2026.1");
+    expect(resolveActiveRulesetsForTaxYear(2026, "MT").state).toBe(stateRuleset.id);
+    expect(result.scope.status).toBe("IN_SCOPE");
+    expect(result.state.status).toBe("COMPUTED");
+    expect(result.breakdown.stateTax).toBe(0);
+    expect(result.breakdown.totalTax).toBe(result.breakdown.federalTax);
+    expect(result.breakdown.stateBalanceDue).toBe(0);
+    expect(result.bracketAnalysis.state).toBeNull();
+    expect(result.assumptions.some((assumption) => assumption.code === "STATE_HAS_NO_INCOME_TAX")).toBe(true);
+    expect(result.assumptions.some((assumption) => assumption.code === "ND_2026_RATE_SCHEDULE_APPLIED")).toBe(false);
+    expect(result.explanation.children.some((node) => node.label === "South Dakota tax")).toBe(true);
+    expect(result.rulesets.stateVersion).toBe("SD-2026.1");
+  });
+
+  it("groups taxable sales into quarterly ND sales tax periods by jurisdiction", () => {
+    const report = buildSalesTaxPeriodReport({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        residentZip: "58201",
+        county: "Grand Forks",
+        isFullYearResident: true,
+        hasNdSalesTaxNexus: true,
+        salesTaxFilingFrequency: "QUARTERLY"
+      },
+      transactions: [
+        {
+          id: "txn-1",
+          date: "2026-02-10T00:00:00.000Z",
+          amount: 10000,
+          description: "Client payment",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "RULE"
+        },
+        {
+          id: "txn-2",
+          date: "2026-05-01T00:00:00.000Z",
+          amount: 5000,
+          description: "Delivered order",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "RULE",
+          salesTaxZip: "58103"
+        },
+        {
+          id: "txn-3",
+          date: "2026-05-20T00:00:00.000Z",
+          amount: 2000,
+          description: "Exempt wholesale order",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "RULE",
+          isTaxableSale: false
+        },
+        {
+          id: "txn-4",
+          date: "2026-11-15T00:00:00.000Z",
+          amount: 1000,
+          description: "Market stall cash",
+          direction: "INCOME",
+          isTaxableSale: true
+        }
+      ],
+      mappingRules: [],
+      rateTable: loadLocalSalesTaxTable(resolveActiveRulesetsForTaxYear(2026).localSalesTax!)
+    });
+
+    expect(report?.periods.map((period) => [period.periodEnd, period.dueDate, period.totalTax])).toEqual([
+      ["2026-03-31", "2026-04-30", 725],
+      ["2026-06-30", "2026-07-31", 250],
+      ["2026-09-30", "2026-10-31", 0],
+      ["2026-12-31", "2027-01-31", 72.5]
+    ]);
+    expect(report?.periods[0]?.jurisdictions[0]).toMatchObject({
+      jurisdictionCode: "GRAND_FORKS",
+      taxableSales: 10000,
+      stateTax: 500,
+      localTax: 225
+    });
+    expect(report?.periods[1]?.jurisdictions).toEqual([
+      expect.objectContaining({ jurisdictionCode: "UNKNOWN", rateFound: false, stateTax: 250, localTax: 0 })
+    ]);
+    expect(report?.totals).toEqual({
+      taxableSales: 16000,
+      taxablePurchases: 0,
+      stateTax: 800,
+      localTax: 247.5,
+      useTax: 0,
+      totalTax: 1047.5
+    });
+    expect(report?.assumptions.some((assumption) => assumption.code === "LOCAL_SALES_TAX_RATE_NOT_FOUND")).toBe(true);
+  });
+
+  it("accrues use tax on flagged and rule-matched out-of-state purchases in the sales tax periods", () => {
+    const report = buildSalesTaxPeriodReport({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Grand Forks",
+        residentZip: "58201",
+        county: "Grand Forks",
+        isFullYearResident: true,
+        hasNdSalesTaxNexus: true,
+        salesTaxFilingFrequency: "QUARTERLY"
+      },
+      transactions: [
+        {
+          id: "txn-1",
+          date: "2026-02-10T00:00:00.000Z",
+          amount: 2000,
+          description: "Client payment",
+          direction: "INCOME",
+          categoryCode: "GROSS_RECEIPTS",
+          categorySource: "RULE"
+        },
+        {
+          id: "txn-2",
+          date: "2026-03-05T00:00:00.000Z",
+          amount: 1000,
+          merchant: "Acme Online Tools",
+          description: "Equipment order",
+          direction: "EXPENSE"
+        },
+        {
+          id: "txn-3",
+          date: "2026-03-20T00:00:00.000Z",
+          amount: 500,
+          merchant: "Acme Online Tools",
+          description: "Order with ND tax collected",
+          direction: "EXPENSE",
+          isUseTaxLiable: false
+        },
+        {
+          id: "txn-4",
+          date: "2026-08-10T00:00:00.000Z",
+          amount: 200,
+          merchant: "Supply catalog",
+          description: "Shop supplies",
+          direction: "EXPENSE",
+          isUseTaxLiable: true
+        }
+      ],
+      mappingRules: [
+        {
+          code: "OFFICE_SUPPLIES",
+          vendorPattern: "acme online",
+          confidenceBase: 80,
+          reason: "Out-of-state vendor that does not collect ND sales tax.",
+          useTaxLiable: true
+        }
+      ],
+      rateTable: loadLocalSalesTaxTable(resolveActiveRulesetsForTaxYear(2026).localSalesTax!)
+    });
+
+    expect(report?.periods[0]?.jurisdictions[0]).toMatchObject({
+      jurisdictionCode: "GRAND_FORKS",
+      taxableSales: 2000,
+      taxablePurchases: 1000,
+      stateTax: 150,
+      localTax: 67.5,
+      useTax: 72.5,
+      totalTax: 217.5,
+      transactionIds: ["txn-1", "txn-2"]
+    });
+    expect(report?.periods[2]).toMatchObject({ taxablePurchases: 200, useTax: 14.5, totalTax: 14.5 });
+    expect(report?.totals).toMatchObject({ taxablePurchases: 1200, useTax: 87, totalTax: 232 });
+  });
+
+  it("looks up local sales tax rates with city precedence over county and effective dates", () => {
+    const loaded = loadLocalSalesTaxTable(resolveActiveRulesetsForTaxYear(2026).localSalesTax!);
+    const grandForks = loaded.rates[0]!;
+    const table = {
+      id: loaded.id,
+      rates: [
+        grandForks,
+        { ...grandForks, localRate: 0.025, totalRate: 0.075, effectiveFrom: "2026-07-01" },
+        {
+          ...grandForks,
+          jurisdictionType: "COUNTY" as const,
+          jurisdictionCode: "GRAND_FORKS_COUNTY",
+          city: "",
+          localRate: 0.005,
+          totalRate: 0.055
+        }
+      ]
+    };
+
+    expect(findLocalSalesTaxRate(table, { zip: "58201" }, "2026-03-15")).toMatchObject({
+      jurisdictionType: "CITY",
+      localRate: 0.0225
+    });
+    expect(findLocalSalesTaxRate(table, { zip: "58201" }, "2026-08-01")?.localRate).toBe(0.025);
+    expect(findLocalSalesTaxRate(table, { zip: "58228", county: "grand forks" }, "2026-03-15")).toMatchObject({
+      jurisdictionCode: "GRAND_FORKS_COUNTY",
+      totalRate: 0.055
+    });
+    expect(findLocalSalesTaxRate(table, { zip: "58201" }, "2025-12-31")).toBeNull();
+  });
+
+  it("keeps form lines in whole dollars and reconciles totals and balances to the cent", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Fargo",
+        county: "Cass",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 61234.57,
+          taxWithheldFederal: 6123.45,
+          taxWithheldState: 987.65,
+          isConfirmed: true
+        },
+        { id: "income-2", type: "FORM_1099_NEC", label: "Consulting", amount: 23456.78, isConfirmed: true },
+        { id: "income-3", type: "FORM_1099_INT", label: "Savings interest", amount: 123.45, isConfirmed: true }
+      ],
+      estimatedPayments: [1, 2, 3].map((quarter) => ({
+        id: `payment-${quarter}`,
+        kind: "ESTIMATED_QUARTERLY" as const,
+        quarter,
+        amount: 1000.1,
+        paidAt: "2026-06-15T00:00:00.000Z"
+      })),
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+
+    const breakdown = result.breakdown;
+    const cents = (value: number | null) => toMoney(value ?? 0);
+    const sePortions = breakdown.selfEmploymentTaxDetails!;
+    expect(Number.isInteger(breakdown.taxableIncomeFederal)).toBe(true);
+    expect(Number.isInteger(breakdown.federalTax)).toBe(true);
+    expect(Number.isInteger(breakdown.stateTax)).toBe(true);
+    expect(sePortions.socialSecurityPortion + sePortions.medicarePortion).toBe(breakdown.selfEmploymentTax);
+    expect(breakdown.selfEmploymentTaxDeduction).toBe(Math.round(breakdown.selfEmploymentTax / 2));
+    expect(breakdown.federalWithholding).toBe(6123);
+    expect(breakdown.estimatedPayments).toBe(3000);
+    expect(breakdown.stateWithholding).toBe(987.65);
+
+    expect(breakdown.totalTax).toBe(breakdown.federalTax + breakdown.stateTax!);
+    expect(cents(breakdown.federalBalanceDue)).toBe(
+      cents(breakdown.federalTax) -
+        cents(breakdown.earnedIncomeCredit) -
+        cents(breakdown.additionalChildTaxCredit) -
+        cents(breakdown.federalWithholding) -
+        cents(breakdown.estimatedPayments)
+    );
+    expect(cents(breakdown.stateBalanceDue)).toBe(cents(breakdown.stateTax) - cents(breakdown.stateWithholding));
+    expect(cents(breakdown.totalBalanceDue)).toBe(cents(breakdown.federalBalanceDue) + cents(breakdown.stateBalanceDue));
+    expect(toDollars(cents(breakdown.totalBalanceDue))).toBe(breakdown.totalBalanceDue);
+
+    const federalBrackets = result.bracketAnalysis.federal!;
+    expect(sumMoney(federalBrackets.brackets.map((bracket) => toMoney(bracket.tax)))).toBe(toMoney(federalBrackets.tax));
+    expect(result.explanation.outputs).toEqual({
+      federalTax: breakdown.federalTax,
+      stateTax: breakdown.stateTax,
+      totalTax: breakdown.totalTax
+    });
+    expect(parseMoney("1.005")).toBe(101);
+    expect(toMoney(1.005)).toBe(101);
+    expect(roundToWholeDollars(parseMoney("-12.50"))).toBe(-1300);
+  });
+
+  it("builds the explanation graph with path node ids and a balance-due node that references its sources", () => {
+    const input: TaxComputationInput = {
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        residentCity: "Fargo",
+        county: "Cass",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: "Employer W-2",
+          amount: 60000,
+          taxWithheldFederal: 4000,
+          taxWithheldState: 600,
+          isConfirmed: true
+        },
+        { id: "income-2", type: "FORM_1099_NEC", label: "Consulting", amount: 20000, isConfirmed: true }
+      ],
+      estimatedPayments: [
+        { id: "payment-1", kind: "ESTIMATED_QUARTERLY", quarter: 1, amount: 1500, paidAt: "2026-04-15T00:00:00.000Z" }
+      ],
+      transactions: [
+        {
+          id: "tx-1",
+          date: "2026-05-02T00:00:00.000Z",
+          amount: -250,
+          description: "Printer paper",
+          direction: "EXPENSE",
+          categoryCode: "OFFICE_SUPPLIES",
+          categorySource: "USER",
+          isReviewed: true
+        }
+      ],
+      deductions: [{ id: "deduction-1", code: "HOME_OFFICE", label: "Home office", amount: 1200, isConfirmed: true }],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    };
+    const result = computeTaxEstimate(input);
+    const node = (nodeId: string) => findExplanationNode(result.explanation, nodeId);
+    const ids: string[] = [];
+    const collect = (current: ExplanationNode) => {
+      ids.push(current.nodeId);
+      current.children.forEach(collect);
+    };
+    collect(result.explanation);
+
+    expect(computeTaxEstimate(input).explanation).toEqual(result.explanation);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(result.explanation.nodeId).toBe("estimate");
+    expect(node("estimate/income/income:income-1")?.outputs).toEqual({ wages: 60000 });
+    expect(node("estimate/income/income:income-2")?.outputs).toEqual({ scheduleCGrossReceipts: 20000 });
+    expect(node("estimate/business-deductions/deduction:deduction-1")?.outputs).toEqual({ amount: 1200 });
+    expect(node("estimate/federal-taxable-income")?.children.map((child) => child.nodeId)).toEqual([
+      "estimate/federal-taxable-income/bracket-1",
+      "estimate/federal-taxable-income/bracket-2",
+      "estimate/federal-taxable-income/bracket-3"
+    ]);
+    expect(node("estimate/state/bracket-1")).not.toBeNull();
+    expect(node("estimate/self-employment-tax")?.outputs.selfEmploymentTax).toBe(result.breakdown.selfEmploymentTax);
+
+    const balanceDue = node("estimate/balance-due")!;
+    expect(balanceDue.outputs).toEqual({
+      federalBalanceDue: result.breakdown.federalBalanceDue,
+      stateBalanceDue: result.breakdown.stateBalanceDue,
+      totalBalanceDue: result.breakdown.totalBalanceDue
+    });
+    expect(balanceDue.incomeSourceRefs).toEqual(["income-1"]);
+    expect(balanceDue.estimatedPaymentRefs).toEqual(["payment-1"]);
+    expect(balanceDue.transactionRefs).toEqual(["tx-1"]);
+    expect(node("estimate/balance-due/federal-withholding/income:income-1")?.outputs.taxWithheld).toBe(4000);
+    expect(node("estimate/balance-due/state-withholding/income:income-1")?.outputs.taxWithheld).toBe(600);
+    expect(node("estimate/balance-due/estimated-payments/payment:payment-1")?.estimatedPaymentRefs).toEqual([
+      "payment-1"
+    ]);
+  });
+
+  it("renders the explanation graph as Mermaid, Graphviz DOT, standalone HTML and a text outline", () => {
+    const result = computeTaxEstimate({
+      profile: {
+        userId: "user-1",
+        taxYear: 2026,
+        filingStatus: "SINGLE",
+        dependentsCount: 0,
+        residentState: "ND",
+        isFullYearResident: true
+      },
+      incomes: [
+        {
+          id: "income-1",
+          type: "W2",
+          label: 'Employer "A" <script>alert(1)</script>',
+          amount: 90000,
+          taxWithheldFederal: 9000,
+          isConfirmed: true
+        }
+      ],
+      estimatedPayments: [],
+      transactions: [],
+      deductions: [],
+      mappingRules: [],
+      userOverrides: [],
+      federalRuleset,
+      stateRuleset
+    });
+    let nodeCount = 0;
+    const count = (node: ExplanationNode) => {
+      nodeCount += 1;
+      node.children.forEach(count);
+    };
+    count(result.explanation);
+
+    const mermaid = renderExplanation(result.explanation, "mermaid");
+    expect(mermaid.startsWith("flowchart TD\n")).toBe(true);
+    expect(mermaid.match(/ --> /g)).toHaveLength(nodeCount - 1);
+    expect(mermaid).toContain("Employer #quot;A#quot; #lt;script#gt;");
+    expect(mermaid).toContain(`out: federalTax = ${result.breakdown.federalTax}`);
+
+    const dot = renderExplanation(result.explanation, "dot");
+    expect(dot).toContain('"estimate" -> "estimate/income";');
+    expect(dot).toContain('"estimate/income/income:income-1" [label="Employer \\"A\\" <script>alert(1)</script>\\lW-2 box 1 wages\\l');
+    expect(dot.trimEnd().endsWith("}")).toBe(true);
+
+    const html = renderExplanation(result.explanation, "html", "Run run-1");
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).toContain("<title>Run run-1</title>");
+    expect(html).toContain('<details id="estimate/balance-due" open>');
+    expect(html).toContain('<details id="estimate/balance-due/federal-withholding">');
+    expect(html).toContain("Employer &quot;A&quot; &lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<script>alert(1)");
+    expect(html).not.toMatch(/(src|href)="http/);
+
+    const outline = renderExplanation(result.explanation, "text").split("\n");
+    expect(outline[0]).toBe("Tax estimate");
+    expect(outline).toContain("  Balance due");
+    expect(outline).toContain("    Federal withholding");
+  });
+
   it("blocks compute when filing status is missing even if the ND ruleset is validated", () => {
     const result = computeTaxEstimate({
       profile: {
@@ -0,0 +1,118 @@
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getSalesTaxPeriodReport } from "../src/services/sales-tax-service.js";
+import { loadTaxComputationInput } from "../src/services/tax-service.js";
+
+// The database is replaced with fixed rows so the service mapping runs without
+// Postgres.
+const db = vi.hoisted(() => ({
+  categoryMappingRules: [] as unknown[]
+}));
+
+vi.mock("../src/infrastructure/prisma.js", () => {
+  const rows = (values: () => unknown[]) => ({ findMany: async () => values() });
+  return {
+    prisma: {
+      taxYearProfile: {
+        findUnique: async () => ({
+          filingStatus: "SINGLE",
+          dependentsCount: 0,
+          qualifyingChildrenCount: null,
+          residentState: "ND",
+          residentCity: "Grand Forks",
+          residentZip: "58201",
+          county: "Grand Forks",
+          isFullYearResident: true,
+          ndResidencyStartDate: null,
+          ndResidencyEndDate: null,
+          hasNdSalesTaxNexus: true,
+          salesTaxFilingFrequency: "QUARTERLY",
+          standardDeductionForced: false,
+          itemizedDeductionAmount: null,
+          priorYearAdjustedGrossIncome: null,
+          priorYearTotalTax: null,
+          hasForeignIncome: false,
+          hasK1: false,
+          hasAdvancedInvestments: false,
+          hasAdvancedDepreciation: false
+        })
+      },
+      incomeSource: rows(() => []),
+      deductionItem: rows(() => []),
+      estimatedPayment: rows(() => []),
+      userOverride: rows(() => []),
+      transaction: rows(() => [
+        {
+          id: "txn-1",
+          date: new Date("2026-03-05T00:00:00.000Z"),
+          amount: new Prisma.Decimal("1000.00"),
+          merchant: "Acme Online Tools",
+          description: "Equipment order",
+          direction: "EXPENSE",
+          categoryCode: null,
+          categoryConfidence: null,
+          categoryReason: null,
+          categorySource: null,
+          isReviewed: false,
+          owner: "TAXPAYER",
+          isTaxableSale: null,
+          salesTaxZip: null,
+          isUseTaxLiable: null
+        }
+      ]),
+      categoryMappingRule: rows(() => db.categoryMappingRules),
+      computationRun: {
+        findFirst: async () => null
+      }
+    }
+  };
+});
+
+describe("tax service", () => {
+  beforeEach(() => {
+    db.categoryMappingRules = [];
+  });
+
+  it("loads active category mapping rules, including use-tax marking, into the computation input", async () => {
+    db.categoryMappingRules = [
+      {
+        id: "rule-1",
+        code: "OFFICE_SUPPLIES",
+        vendorPattern: "acme online",
+        keywordPattern: null,
+        amountMin: new Prisma.Decimal("50.00"),
+        amountMax: null,
+        confidenceBase: new Prisma.Decimal("80.00"),
+        reason: "Out-of-state vendor that does not collect ND sales tax.",
+        useTaxLiable: true,
+        isActive: true
+      }
+    ];
+
+    const input = await loadTaxComputationInput("user-1", 2026);
+    expect(input.mappingRules).toEqual([
+      {
+        code: "OFFICE_SUPPLIES",
+        vendorPattern: "acme online",
+        keywordPattern: null,
+        amountMin: 50,
+        amountMax: null,
+        confidenceBase: 80,
+        reason: "Out-of-state vendor that does not collect ND sales tax.",
+        useTaxLiable: true
+      }
+    ]);
+
+    const report = await getSalesTaxPeriodReport("user-1", 2026);
+    expect(report?.periods[0]).toMatchObject({ taxablePurchases: 1000, useTax: 72.5 });
+  });
+
+  it("falls back to the built-in category rules when none are configured", async () => {
+    const input = await loadTaxComputationInput("user-1", 2026);
+    expect(input.mappingRules.map((rule) => rule.code)).toContain("GROSS_RECEIPTS");
+
+    const report = await getSalesTaxPeriodReport("user-1", 2026);
+    expect(report?.totals.useTax).toBe(0);
+  });
+});
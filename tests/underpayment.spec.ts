@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import { loadFederalRuleset } from "../src/domain/rulesets/loader.js";
+import { computeTaxEstimate } from "../src/domain/tax/calculator.js";
+import type { EstimatedPaymentInput, PriorYearLiabilityInput, TransactionInput } from "../src/domain/tax/types.js";
+import { computeUnderpaymentPenalty } from "../src/domain/tax/underpayment.js";
+import { buildTaxInput } from "./fixtures/tax-input.js";
+
+describe("underpayment penalty", () => {
+  const federalRuleset = loadFederalRuleset();
+
+  const earlyExpense: TransactionInput = {
+    id: "tx-expense",
+    date: "2026-02-10T00:00:00.000Z",
+    amount: -400,
+    merchant: "Design Suite",
+    description: "Annual license",
+    direction: "EXPENSE",
+    categoryCode: "SOFTWARE",
+    categorySource: "USER"
+  };
+
+  it("does not annualize a 1099-NEC received late in the year, since income records are undated", () => {
+    const result = computeTaxEstimate(
+      buildTaxInput({
+        incomes: [
+          { id: "income-1", type: "FORM_1099_NEC", label: "December contract", amount: 60000, isConfirmed: true }
+        ],
+        transactions: [earlyExpense]
+      })
+    );
+
+    const details = result.breakdown.underpaymentPenaltyDetails;
+    expect(details?.method).toBe("REGULAR");
+    expect(details?.annualizedInstallments).toEqual([]);
+    expect(result.estimatedPaymentPlanOptions.map((option) => option.basis)).not.toContain("ANNUALIZED_INCOME");
+    expect(result.assumptions).toContainEqual(
+      expect.objectContaining({ code: "ANNUALIZED_INCOME_UNDATED", impactLevel: "medium" })
+    );
+
+    // Without any transactions the contractor is still told to date the receipts.
+    const withoutTransactions = computeTaxEstimate(
+      buildTaxInput({
+        incomes: [
+          { id: "income-1", type: "FORM_1099_NEC", label: "December contract", amount: 60000, isConfirmed: true }
+        ]
+      })
+    );
+    expect(
+      withoutTransactions.assumptions.find((item) => item.code === "ANNUALIZED_INCOME_UNDATED")?.description
+    ).toContain("only annualized when its receipts are entered as dated transactions");
+  });
+
+  it("still annualizes W-2 wages, which are taken as earned evenly, with dated receipts", () => {
+    const result = computeTaxEstimate(
+      buildTaxInput({
+        incomes: [{ id: "income-1", type: "W2", label: "Employer W-2", amount: 20000, isConfirmed: true }],
+        transactions: [
+          earlyExpense,
+          {
+            id: "tx-receipt",
+            date: "2026-11-20T00:00:00.000Z",
+            amount: 40000,
+            description: "Harvest hauling contract",
+            direction: "INCOME",
+            categoryCode: "GROSS_RECEIPTS",
+            categorySource: "USER"
+          }
+        ]
+      })
+    );
+
+    const details = result.breakdown.underpaymentPenaltyDetails;
+    expect(details?.method).toBe("ANNUALIZED_INCOME");
+    // The first period has wages only; the receipts arrive in the last one.
+    expect(details?.annualizedInstallments[0]?.annualizedIncome).toBe(20000);
+    expect(details?.annualizedInstallments[3]?.annualizedIncome).toBeGreaterThan(50000);
+    expect(result.assumptions.some((item) => item.code === "ANNUALIZED_INCOME_UNDATED")).toBe(false);
+  });
+
+  function penaltyFor(input: {
+    filingStatus?: "SINGLE" | "MARRIED_FILING_SEPARATELY";
+    currentYearTax: number;
+    withholding: number;
+    estimatedPayments?: EstimatedPaymentInput[];
+    priorYear?: PriorYearLiabilityInput;
+  }) {
+    return computeUnderpaymentPenalty({
+      filingStatus: "SINGLE",
+      estimatedPayments: [],
+      ruleset: federalRuleset,
+      ...input
+    });
+  }
+
+  it("exempts a balance due under $1,000 after withholding", () => {
+    expect(penaltyFor({ currentYearTax: 10999.99, withholding: 10000 })).toMatchObject({
+      installments: [],
+      penalty: 0,
+      exemptionReason: "BALANCE_DUE_BELOW_MINIMUM"
+    });
+
+    const atMinimum = penaltyFor({ currentYearTax: 12000, withholding: 11000 });
+    expect(atMinimum?.exemptionReason).toBeNull();
+    expect(atMinimum?.installments).toHaveLength(4);
+    // Withholding covers 90% of the tax, so there is still no penalty.
+    expect(atMinimum?.penalty).toBe(0);
+  });
+
+  it("requires the smaller of 90% of this year's tax and 100% of last year's", () => {
+    const priorYear = (adjustedGrossIncome: number, totalTax: number): PriorYearLiabilityInput => ({
+      adjustedGrossIncome,
+      totalTax,
+      source: "PROFILE"
+    });
+
+    expect(penaltyFor({ currentYearTax: 20000, withholding: 5000 })).toMatchObject({
+      priorYearRequiredPayment: null,
+      requiredAnnualPayment: 18000
+    });
+    expect(penaltyFor({ currentYearTax: 20000, withholding: 5000, priorYear: priorYear(100000, 5000) })).toMatchObject({
+      priorYearRequiredPayment: 5000,
+      requiredAnnualPayment: 5000,
+      penalty: 0,
+      exemptionReason: null
+    });
+    expect(penaltyFor({ currentYearTax: 4000, withholding: 2000, priorYear: priorYear(100000, 5000) })).toMatchObject({
+      priorYearRequiredPayment: 5000,
+      requiredAnnualPayment: 3600
+    });
+  });
+
+  it("raises the prior-year safe harbor to 110% above the high-income AGI threshold", () => {
+    const safeHarbor = (filingStatus: "SINGLE" | "MARRIED_FILING_SEPARATELY", adjustedGrossIncome: number) =>
+      penaltyFor({
+        filingStatus,
+        currentYearTax: 20000,
+        withholding: 5000,
+        priorYear: { adjustedGrossIncome, totalTax: 5000, source: "PROFILE" }
+      });
+
+    expect(safeHarbor("SINGLE", 150000)?.requiredAnnualPayment).toBe(5000);
+    const highIncome = safeHarbor("SINGLE", 150000.01);
+    expect(highIncome?.requiredAnnualPayment).toBe(5500);
+    expect(highIncome?.penalty).toBeGreaterThan(0);
+    expect(safeHarbor("MARRIED_FILING_SEPARATELY", 75000)?.requiredAnnualPayment).toBe(5000);
+    expect(safeHarbor("MARRIED_FILING_SEPARATELY", 75000.01)?.requiredAnnualPayment).toBe(5500);
+  });
+
+  it("charges no penalty when estimated payments meet each installment on its due date", () => {
+    const details = penaltyFor({
+      currentYearTax: 20000,
+      withholding: 0,
+      estimatedPayments: ["2026-04-15", "2026-06-15", "2026-09-15", "2027-01-15"].map((paidAt, index) => ({
+        id: `payment-${index + 1}`,
+        kind: "ESTIMATED_QUARTERLY",
+        quarter: index + 1,
+        amount: 4500,
+        paidAt
+      }))
+    });
+
+    expect(details?.installments.map((installment) => installment.underpayment)).toEqual([0, 0, 0, 0]);
+    expect(details?.penalty).toBe(0);
+  });
+});